@@ -28,14 +28,15 @@ export const handleClearHistory = async (
 
         const success = await chatbotService.clearUserHistory(
             interaction.user.id,
-            interaction.guildId!
+            interaction.guildId!,
+            config.channelId
         );
 
         if (success) {
             await interaction.editReply({
                 embeds: [
                     new EmbedTemplate(client).success("Your chat history has been cleared!")
-                        .setDescription(`${config.chatbotName} will no longer remember your previous conversations.`)
+                        .setDescription(`${config.chatbotName} will no longer remember your previous conversations in this channel.`)
                 ]
             });
         } else {
@@ -47,7 +48,7 @@ export const handleClearHistory = async (
             });
         }
 
-        client.logger.info(`[CHATBOT_CLEAR] ${interaction.user.tag} cleared their chat history in guild ${interaction.guildId}`);
+        client.logger.info(`[CHATBOT_CLEAR] ${interaction.user.tag} cleared their chat history in channel ${config.channelId} of guild ${interaction.guildId}`);
     } catch (error) {
         client.logger.error(`[CHATBOT_CLEAR] Error clearing chat history: ${error}`);
         await interaction.editReply({
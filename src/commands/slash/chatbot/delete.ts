@@ -1,6 +1,7 @@
 import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { ChatbotConfigRepository } from "../../../events/database/repo/chatbot_config";
+import { resolveChatbotConfig } from "./resolve_config";
 
 export const handleDelete = async (
     interaction: discord.ChatInputCommandInteraction,
@@ -8,15 +9,8 @@ export const handleDelete = async (
     chatbotRepo: ChatbotConfigRepository
 ): Promise<void> => {
     try {
-        const existingConfig = await chatbotRepo.getConfig(interaction.guildId!);
-        if (!existingConfig) {
-            await interaction.editReply({
-                embeds: [
-                    new EmbedTemplate(client).error("No chatbot is set up for this server.")
-                ]
-            });
-            return;
-        }
+        const existingConfig = await resolveChatbotConfig(interaction, client, chatbotRepo);
+        if (!existingConfig) return;
 
         const confirmEmbed = new discord.EmbedBuilder()
             .setTitle("⚠️ Delete Chatbot")
@@ -49,7 +43,7 @@ export const handleDelete = async (
             const response = collected.first()?.content.trim().toLowerCase();
 
             if (response === "confirm") {
-                const deleted = await chatbotRepo.deleteConfig(interaction.guildId!);
+                const deleted = await chatbotRepo.deleteConfig(existingConfig.id);
 
                 if (!deleted) {
                     await interaction.editReply({
@@ -1,6 +1,8 @@
 import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { RagRepository } from "../../../events/database/repo/rag_data";
+import { RagDocument } from "../../../events/database/entities/rag_data";
+import { ChannelKnowledgeSync } from "../../../utils/ai";
 
 export const handleDeleteRag = async (
     interaction: discord.ChatInputCommandInteraction,
@@ -8,23 +10,36 @@ export const handleDeleteRag = async (
     ragRepo: RagRepository
 ): Promise<void> => {
     try {
-        const documentInfo = await ragRepo.getRagDocumentInfo(interaction.guildId!);
+        const name = interaction.options.getString("name");
+        // Autocomplete submits the document ID, a typed value is matched by file name
+        const document = name
+            ? await ragRepo.getRagDocumentById(interaction.guildId!, name) ?? await ragRepo.getRagDocumentInfo(interaction.guildId!, name)
+            : null;
+        const documents = name
+            ? [document].filter((doc): doc is RagDocument => doc !== null)
+            : await ragRepo.getRagDocuments(interaction.guildId!);
 
-        if (!documentInfo) {
+        if (documents.length === 0) {
             await interaction.editReply({
                 embeds: [
-                    new EmbedTemplate(client).error("No knowledge data found.")
-                        .setDescription("There is no RAG data to delete for this server.")
+                    new EmbedTemplate(client).error(name ? `No knowledge document named "${name}" found.` : "No knowledge data found.")
+                        .setDescription(name ? "Use `/chatbot list_rag` to see the documents in this server's knowledge base." : "There is no RAG data to delete for this server.")
                 ]
             });
             return;
         }
 
+        const fileName = document?.fileName ?? null;
+        const totalChunks = documents.reduce((sum, doc) => sum + doc.chunkCount, 0);
+        const fileList = documents.map(doc => `• \`${doc.fileName}\` (${doc.chunkCount} chunks)`).join("\n");
+
         const confirmEmbed = new discord.EmbedBuilder()
             .setTitle("⚠️ Delete Knowledge Data")
             .setDescription(
-                "Are you sure you want to delete all knowledge data for the chatbot?\n\n" +
-                `This will remove the file "${documentInfo.fileName}" with ${documentInfo.chunkCount} chunks.\n\n` +
+                (fileName
+                    ? "Are you sure you want to delete this knowledge document?\n\n"
+                    : "Are you sure you want to delete all knowledge data for the chatbot?\n\n") +
+                `This will remove ${documents.length} document(s) with ${totalChunks} chunks:\n${fileList.slice(0, 3000)}\n\n` +
                 "Type `confirm` to proceed or `cancel` to abort."
             )
             .setColor("Red");
@@ -51,7 +66,9 @@ export const handleDeleteRag = async (
             const response = collected.first()?.content.trim().toLowerCase();
 
             if (response === "confirm") {
-                const deleted = await ragRepo.deleteRagData(interaction.guildId!);
+                const deleted = document
+                    ? (await ragRepo.deleteRagDocument(interaction.guildId!, document.id)) !== null
+                    : await ragRepo.deleteRagData(interaction.guildId!);
 
                 if (!deleted) {
                     await interaction.editReply({
@@ -60,18 +77,22 @@ export const handleDeleteRag = async (
                     return;
                 }
 
+                for (const doc of documents) {
+                    if (doc.sourceChannelId) ChannelKnowledgeSync.forgetChannel(doc.sourceChannelId);
+                }
+
                 await interaction.editReply({
                     embeds: [
                         new EmbedTemplate(client).success("Knowledge data deleted successfully!")
-                            .setDescription("All RAG data has been removed from the chatbot.")
+                            .setDescription(fileName ? `"${fileName}" has been removed from the chatbot's knowledge base.` : "All RAG data has been removed from the chatbot.")
                             .addFields(
-                                { name: "Deleted File", value: documentInfo.fileName, inline: true },
-                                { name: "Chunks Removed", value: documentInfo.chunkCount.toString(), inline: true }
+                                { name: "Deleted Documents", value: documents.length.toString(), inline: true },
+                                { name: "Chunks Removed", value: totalChunks.toString(), inline: true }
                             )
                     ]
                 });
 
-                client.logger.info(`[CHATBOT_RAG] Deleted RAG data for guild ${interaction.guildId}`);
+                client.logger.info(`[CHATBOT_RAG] Deleted ${fileName ? `RAG document "${fileName}"` : "all RAG data"} for guild ${interaction.guildId}`);
                 return;
             } else {
                 await interaction.editReply({
@@ -113,7 +113,9 @@ const createSetupEmbeds = (): discord.EmbedBuilder[] => {
             "• A dedicated channel is created (or configured)\n" +
             "• The bot will respond to all messages in that channel\n" +
             "• Users can start chatting immediately\n" +
-            "• Conversation history is maintained automatically"
+            "• Conversation history is maintained automatically\n" +
+            "• Run setup again with another channel to add more chatbots (e.g. one per language), each with its own model and settings\n" +
+            "• Use the `channel` option of `settings`, `delete` and `prompt` to pick which chatbot to manage"
         )
         .setColor("Green");
 
@@ -215,7 +217,11 @@ const createParametersEmbeds = (): discord.EmbedBuilder[] => {
             "• Include relevant expertise areas\n" +
             "• Mention any special behaviors\n" +
             "• Keep it concise but descriptive\n" +
-            "• Test different styles to find what works best"
+            "• Test different styles to find what works best\n\n" +
+            "**📝 Custom Prompt Template**\n" +
+            "For full control, write your own instructions with `/chatbot prompt edit`. " +
+            "Templates support `{guild_name}`, `{user}`, `{categories}`, `{chatbot_name}` and `{channel}`. " +
+            "Use `/chatbot prompt view` to review it and `/chatbot prompt reset` to go back to the built-in prompt."
         )
         .setColor("Orange");
 
@@ -229,9 +235,9 @@ const createRagEmbeds = (): discord.EmbedBuilder[] => {
             "**What is RAG?**\n" +
             "RAG (Retrieval-Augmented Generation) allows your chatbot to use specific knowledge from documents you upload. This makes responses more accurate and contextual.\n\n" +
             "**How It Works:**\n" +
-            "1. You upload text or markdown files with information\n" +
+            "1. You upload one or more documents, or sync a Discord channel or forum with information\n" +
             "2. The system breaks them into searchable chunks\n" +
-            "3. When users ask questions, relevant chunks are found\n" +
+            "3. When users ask questions, relevant chunks are found by meaning and by exact keywords (product codes, error numbers, command names)\n" +
             "4. The AI uses this context to provide better answers\n\n" +
             "**Perfect For:**\n" +
             "• Server rules and guidelines\n" +
@@ -251,18 +257,27 @@ const createRagEmbeds = (): discord.EmbedBuilder[] => {
             "  file: your-document.txt\n" +
             "  description: Server rules and guidelines```\n\n" +
             "**📋 File Requirements:**\n" +
-            "• **Formats:** `.txt` or `.md` files only\n" +
-            "• **Size Limit:** 1MB maximum\n" +
-            "• **Content:** Plain text or Markdown formatted\n" +
+            "• **Formats:** `.txt`, `.md`, `.pdf`, `.docx`, `.html`, `.json` or `.csv`\n" +
+            "• **Size Limit:** 5MB for PDF/DOCX, 1MB for other formats\n" +
+            "• **Content:** Text-based PDFs (scanned images are not read), exported help-center pages, or FAQ files\n" +
+            "• **FAQ Files:** JSON arrays or CSV files with `question` and `answer` fields are kept as Q&A pairs\n" +
             "• **Language:** English works best\n\n" +
             "**🗑️ Manage Knowledge:**\n" +
+            "• `/chatbot list_rag` - List all knowledge documents\n" +
+            "• `/chatbot delete_rag name:faq.md` - Remove a single document\n" +
             "• `/chatbot delete_rag` - Remove all knowledge data\n" +
-            "• Only one knowledge file per server (replace to update)\n\n" +
+            "• Upload as many documents as you need (FAQ, rules, changelog...); all of them are searched\n" +
+            "• To update a document, delete it and upload the new version\n\n" +
+            "**🔄 Sync a Channel:**\n" +
+            "• `/chatbot rag sync channel:#faq` - Index every message (or forum post) of a channel\n" +
+            "• New, edited and deleted messages are re-synced automatically\n" +
+            "• Run the sync again to rebuild it from scratch; remove it with `/chatbot delete_rag name:#faq`\n\n" +
             "**💡 Tips:**\n" +
             "• Write clear, well-structured documents\n" +
             "• Use headings and sections for better organization\n" +
             "• Include common questions and answers\n" +
-            "• Test the bot after uploading to verify it works"
+            "• Test the bot after uploading to verify it works\n" +
+            "• Tune `/chatbot settings rag_threshold:` (default 0.25) - raise it if unrelated knowledge shows up in answers, lower it if relevant knowledge is missed"
         )
         .setColor("#1ABC9C");
 
@@ -336,7 +351,7 @@ const createTroubleshootingEmbed = (): discord.EmbedBuilder => {
             "**\"RAG not working\"**\n" +
             "• Ensure your document uploaded successfully\n" +
             "• Try asking questions that directly relate to your content\n" +
-            "• Check file format is .txt or .md\n\n" +
+            "• Check the file format is supported and the text is selectable (not a scanned PDF)\n\n" +
             "**🆘 Still Need Help?**\n" +
             `Join our ${Formatter.hyperlink("support server", "https://discord.gg/XzE9hSbsNb")} support server with specific error messages.`
         )
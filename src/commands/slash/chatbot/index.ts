@@ -10,8 +10,11 @@ import { handleDelete } from "./delete";
 import { handleInfo } from "./info";
 import { handleUploadRag } from "./upload_rag";
 import { handleDeleteRag } from "./delete_rag";
+import { handleListRag } from "./list_rag";
+import { handleRagSync } from "./rag_sync";
 import { handleClearHistory } from "./clear_history";
 import { handleHelp } from "./help";
+import { handlePromptEdit, handlePromptView, handlePromptReset } from "./prompt";
 
 const chatbotCommand: SlashCommand = {
     cooldown: 10,
@@ -42,7 +45,7 @@ const chatbotCommand: SlashCommand = {
         .addSubcommand(subcommand =>
             subcommand
                 .setName("setup")
-                .setDescription("Set up a chatbot in a channel")
+                .setDescription("Set up a chatbot in a channel (run again to add more channels)")
                 .addStringOption(option =>
                     option.setName("api_key")
                         .setDescription("The API key for the chatbot service (OpenAI, Groq, etc.)")
@@ -73,6 +76,11 @@ const chatbotCommand: SlashCommand = {
             subcommand
                 .setName("settings")
                 .setDescription("Update chatbot settings")
+                .addChannelOption(option =>
+                    option.setName("channel")
+                        .setDescription("The chatbot channel to update (defaults to this channel or the only chatbot)")
+                        .addChannelTypes(discord.ChannelType.GuildText)
+                        .setRequired(false))
                 .addStringOption(option =>
                     option.setName("api_key")
                         .setDescription("The API key for the chatbot service")
@@ -93,16 +101,32 @@ const chatbotCommand: SlashCommand = {
                     option.setName("response_type")
                         .setDescription("How the chatbot should respond (instruction prompt)")
                         .setRequired(false))
+                .addNumberOption(option =>
+                    option.setName("rag_threshold")
+                        .setDescription("Minimum similarity (0-1) for knowledge base matches; higher drops more loosely related chunks")
+                        .setMinValue(0)
+                        .setMaxValue(1)
+                        .setRequired(false))
         )
         .addSubcommand(subcommand =>
             subcommand
                 .setName("delete")
-                .setDescription("Delete the chatbot configuration for this server")
+                .setDescription("Delete a chatbot configuration from this server")
+                .addChannelOption(option =>
+                    option.setName("channel")
+                        .setDescription("The chatbot channel to remove (defaults to this channel or the only chatbot)")
+                        .addChannelTypes(discord.ChannelType.GuildText)
+                        .setRequired(false))
         )
         .addSubcommand(subcommand =>
             subcommand
                 .setName("info")
-                .setDescription("Get information about the chatbot configuration")
+                .setDescription("List the chatbot channels of this server or show one in detail")
+                .addChannelOption(option =>
+                    option.setName("channel")
+                        .setDescription("Show the full details of the chatbot in this channel")
+                        .addChannelTypes(discord.ChannelType.GuildText)
+                        .setRequired(false))
         )
         .addSubcommand(subcommand =>
             subcommand
@@ -110,7 +134,7 @@ const chatbotCommand: SlashCommand = {
                 .setDescription("Upload knowledge data for the chatbot to use")
                 .addAttachmentOption(option =>
                     option.setName("file")
-                        .setDescription("Text or Markdown file with knowledge data (.txt, .md)")
+                        .setDescription("Knowledge file (.txt, .md, .pdf, .docx, .html, .json, .csv)")
                         .setRequired(true))
                 .addStringOption(option =>
                     option.setName("description")
@@ -120,18 +144,119 @@ const chatbotCommand: SlashCommand = {
         .addSubcommand(subcommand =>
             subcommand
                 .setName("delete_rag")
-                .setDescription("Delete existing RAG knowledge data")
+                .setDescription("Delete a knowledge document, or all knowledge data if no name is given")
+                .addStringOption(option =>
+                    option.setName("name")
+                        .setDescription("File name of the knowledge document to delete")
+                        .setRequired(false)
+                        .setAutocomplete(true))
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("list_rag")
+                .setDescription("List the documents in the chatbot's knowledge base")
+        )
+        .addSubcommandGroup(group =>
+            group
+                .setName("rag")
+                .setDescription("Build the chatbot's knowledge base from Discord channels")
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("sync")
+                        .setDescription("Index every message of a channel or forum and keep it in sync")
+                        .addChannelOption(option =>
+                            option.setName("channel")
+                                .setDescription("The channel or forum to read (e.g. #faq)")
+                                .addChannelTypes(discord.ChannelType.GuildText, discord.ChannelType.GuildAnnouncement, discord.ChannelType.GuildForum)
+                                .setRequired(true))
+                        .addStringOption(option =>
+                            option.setName("description")
+                                .setDescription("Optional description of the channel's knowledge")
+                                .setRequired(false))
+                )
+        )
+        .addSubcommandGroup(group =>
+            group
+                .setName("prompt")
+                .setDescription("Manage the chatbot's custom system prompt")
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("edit")
+                        .setDescription("Write the system prompt template (supports {guild_name}, {user}, {categories})")
+                        .addChannelOption(option =>
+                            option.setName("channel")
+                                .setDescription("The chatbot channel (defaults to this channel or the only chatbot)")
+                                .addChannelTypes(discord.ChannelType.GuildText)
+                                .setRequired(false))
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("view")
+                        .setDescription("View the current system prompt template")
+                        .addChannelOption(option =>
+                            option.setName("channel")
+                                .setDescription("The chatbot channel (defaults to this channel or the only chatbot)")
+                                .addChannelTypes(discord.ChannelType.GuildText)
+                                .setRequired(false))
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("reset")
+                        .setDescription("Go back to the built-in system prompt")
+                        .addChannelOption(option =>
+                            option.setName("channel")
+                                .setDescription("The chatbot channel (defaults to this channel or the only chatbot)")
+                                .addChannelTypes(discord.ChannelType.GuildText)
+                                .setRequired(false))
+                )
         )
         .addSubcommand(subcommand =>
             subcommand
                 .setName("clear_history")
-                .setDescription("Clear your conversation history with the chatbot")
+                .setDescription("Clear your conversation history with this channel's chatbot")
         ),
 
+    autocomplete: async (
+        interaction: discord.AutocompleteInteraction,
+        client: discord.Client
+    ) => {
+        const focused = interaction.options.getFocused(true);
+        if (focused.name !== "name" || !interaction.guildId || !(client as any).dataSource) {
+            await interaction.respond([]);
+            return;
+        }
+
+        const ragRepo = new RagRepository((client as any).dataSource);
+        const documents = await ragRepo.getRagDocuments(interaction.guildId);
+        const query = focused.value.toLowerCase();
+
+        await interaction.respond(
+            documents
+                .filter(doc => doc.fileName.toLowerCase().includes(query))
+                .slice(0, 25)
+                .map(doc => ({ name: doc.fileName.slice(0, 100), value: doc.id }))
+        );
+    },
+
     execute: async (
         interaction: discord.ChatInputCommandInteraction,
         client: discord.Client
     ) => {
+        const subcommandGroup = interaction.options.getSubcommandGroup(false);
+
+        // The prompt editor opens a modal, which is not possible once the reply is deferred
+        if (subcommandGroup === "prompt" && interaction.options.getSubcommand() === "edit") {
+            if (!(client as any).dataSource) {
+                await interaction.reply({
+                    embeds: [new EmbedTemplate(client).error("Database connection is not available.")],
+                    flags: discord.MessageFlags.Ephemeral
+                });
+                return;
+            }
+
+            await handlePromptEdit(interaction, client, new ChatbotConfigRepository((client as any).dataSource));
+            return;
+        }
 
         await interaction.deferReply({ flags: discord.MessageFlags.Ephemeral });
 
@@ -145,6 +270,35 @@ const chatbotCommand: SlashCommand = {
             const chatbotRepo = new ChatbotConfigRepository((client as any).dataSource);
             const subcommand = interaction.options.getSubcommand();
 
+            if (subcommandGroup === "rag") {
+                switch (subcommand) {
+                    case "sync":
+                        await handleRagSync(interaction, client, new RagRepository((client as any).dataSource));
+                        break;
+                    default:
+                        await interaction.editReply({
+                            embeds: [new EmbedTemplate(client).error("Unknown subcommand.")]
+                        });
+                }
+                return;
+            }
+
+            if (subcommandGroup === "prompt") {
+                switch (subcommand) {
+                    case "view":
+                        await handlePromptView(interaction, client, chatbotRepo);
+                        break;
+                    case "reset":
+                        await handlePromptReset(interaction, client, chatbotRepo);
+                        break;
+                    default:
+                        await interaction.editReply({
+                            embeds: [new EmbedTemplate(client).error("Unknown subcommand.")]
+                        });
+                }
+                return;
+            }
+
             switch (subcommand) {
                 case "help":
                     await handleHelp(interaction, client, chatbotRepo);
@@ -169,6 +323,10 @@ const chatbotCommand: SlashCommand = {
                     const deleteRagRepo = new RagRepository((client as any).dataSource);
                     await handleDeleteRag(interaction, client, deleteRagRepo);
                     break;
+                case "list_rag":
+                    const listRagRepo = new RagRepository((client as any).dataSource);
+                    await handleListRag(interaction, client, listRagRepo);
+                    break;
                 case "clear_history":
                     await handleClearHistory(interaction, client);
                     break;
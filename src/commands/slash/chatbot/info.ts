@@ -1,63 +1,101 @@
 import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
+import { maskSecret } from "../../../utils/encryption";
+import { ChatbotConfig } from "../../../events/database/entities/chatbot_config";
 import { ChatbotConfigRepository } from "../../../events/database/repo/chatbot_config";
 
+/**
+ * Build the detailed embed for a single chatbot configuration
+ */
+const createConfigEmbed = async (client: discord.Client, config: ChatbotConfig): Promise<discord.EmbedBuilder> => {
+    let channelInfo = "Unknown (channel may have been deleted)";
+    try {
+        const channel = await client.channels.fetch(config.channelId);
+        if (channel) {
+            channelInfo = `<#${channel.id}>`;
+        }
+    } catch (error) {
+        client.logger.warn(`[CHATBOT_INFO] Could not fetch channel: ${error}`);
+    }
+
+    const createdAt = new Date(config.createdAt);
+    const createdTimestamp = Math.floor(createdAt.getTime() / 1000);
+
+    const infoEmbed = new discord.EmbedBuilder()
+        .setTitle(`Chatbot Information - ${config.chatbotName}`)
+        .setDescription(`Information about the chatbot in ${channelInfo}`)
+        .addFields(
+            { name: "Name", value: config.chatbotName, inline: true },
+            { name: "Model", value: config.modelName, inline: true },
+            { name: "Enabled", value: config.enabled ? "Yes" : "No", inline: true },
+            { name: "Cooldown", value: `${config.cooldown} seconds`, inline: true },
+            { name: "API", value: config.baseUrl, inline: true },
+            { name: "API Key", value: maskSecret(config.apiKey), inline: true },
+            { name: "Prompt", value: config.promptTemplate ? "Custom template" : "Built-in", inline: true },
+            { name: "Created", value: `<t:${createdTimestamp}:R>`, inline: true }
+        )
+        .setColor("Blue")
+        .setTimestamp();
+
+    if (config.responseType) {
+        infoEmbed.addFields({
+            name: "Response Type",
+            value: config.responseType.length > 1024 ?
+                config.responseType.substring(0, 1021) + "..." :
+                config.responseType,
+            inline: false
+        });
+    }
+
+    return infoEmbed;
+};
+
 export const handleInfo = async (
     interaction: discord.ChatInputCommandInteraction,
     client: discord.Client,
     chatbotRepo: ChatbotConfigRepository
 ): Promise<void> => {
     try {
-        const existingConfig = await chatbotRepo.getConfig(interaction.guildId!);
-        if (!existingConfig) {
+        const channelOption = interaction.options.getChannel("channel", false);
+        const configs = channelOption
+            ? [await chatbotRepo.getConfig(interaction.guildId!, channelOption.id)].filter((config): config is ChatbotConfig => config !== null)
+            : await chatbotRepo.getConfigs(interaction.guildId!);
+
+        if (configs.length === 0) {
             await interaction.editReply({
                 embeds: [
-                    new EmbedTemplate(client).error("No chatbot is set up for this server.")
+                    new EmbedTemplate(client).error(channelOption ? `No chatbot is set up in <#${channelOption.id}>.` : "No chatbot is set up for this server.")
                         .setDescription("Use `/chatbot setup` to create a new chatbot configuration.")
                 ]
             });
             return;
         }
 
-        let channelInfo = "Unknown (channel may have been deleted)";
-        try {
-            const channel = await client.channels.fetch(existingConfig.channelId);
-            if (channel) {
-                channelInfo = `<#${channel.id}>`;
-            }
-        } catch (error) {
-            client.logger.warn(`[CHATBOT_INFO] Could not fetch channel: ${error}`);
+        if (configs.length === 1) {
+            await interaction.editReply({ embeds: [await createConfigEmbed(client, configs[0])] });
+            return;
         }
 
-        const createdAt = new Date(existingConfig.createdAt);
-        const createdTimestamp = Math.floor(createdAt.getTime() / 1000);
-
-        const infoEmbed = new discord.EmbedBuilder()
-            .setTitle("Chatbot Information")
-            .setDescription(`Information about the chatbot in ${channelInfo}`)
-            .addFields(
-                { name: "Name", value: existingConfig.chatbotName, inline: true },
-                { name: "Model", value: existingConfig.modelName, inline: true },
-                { name: "Enabled", value: existingConfig.enabled ? "Yes" : "No", inline: true },
-                { name: "Cooldown", value: `${existingConfig.cooldown} seconds`, inline: true },
-                { name: "API", value: existingConfig.baseUrl, inline: true },
-                { name: "API Key", value: "••••••••" + existingConfig.apiKey.slice(-4), inline: true },
-                { name: "Created", value: `<t:${createdTimestamp}:R>`, inline: true }
-            )
+        const overviewEmbed = new discord.EmbedBuilder()
+            .setTitle("Chatbot Channels")
+            .setDescription(`This server has **${configs.length}** chatbot channels. Use \`/chatbot info channel:\` for the full details of one.`)
             .setColor("Blue")
             .setTimestamp();
 
-        if (existingConfig.responseType) {
-            infoEmbed.addFields({
-                name: "Response Type",
-                value: existingConfig.responseType.length > 1024 ?
-                    existingConfig.responseType.substring(0, 1021) + "..." :
-                    existingConfig.responseType,
-                inline: false
+        configs.slice(0, 25).forEach(config => {
+            overviewEmbed.addFields({
+                name: config.chatbotName,
+                value:
+                    `**Channel:** <#${config.channelId}>\n` +
+                    `**Model:** \`${config.modelName}\`\n` +
+                    `**API:** ${config.baseUrl}\n` +
+                    `**API Key:** ${maskSecret(config.apiKey)}\n` +
+                    `**Enabled:** ${config.enabled ? "Yes" : "No"}`,
+                inline: true
             });
-        }
+        });
 
-        await interaction.editReply({ embeds: [infoEmbed] });
+        await interaction.editReply({ embeds: [overviewEmbed] });
         return;
     } catch (error) {
         client.logger.error(`[CHATBOT_INFO] Error getting chatbot info: ${error}`);
@@ -65,4 +103,4 @@ export const handleInfo = async (
             embeds: [new EmbedTemplate(client).error("An error occurred while getting chatbot information.")]
         });
     }
-};
\ No newline at end of file
+};
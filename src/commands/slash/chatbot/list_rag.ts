@@ -0,0 +1,54 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { RagRepository } from "../../../events/database/repo/rag_data";
+
+export const handleListRag = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    ragRepo: RagRepository
+): Promise<void> => {
+    try {
+        const documents = await ragRepo.getRagDocuments(interaction.guildId!);
+
+        if (documents.length === 0) {
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).info("No knowledge data found.")
+                        .setDescription("Upload a document with `/chatbot upload_rag` to give the chatbot server-specific knowledge.")
+                ]
+            });
+            return;
+        }
+
+        const totalChunks = documents.reduce((sum, doc) => sum + doc.chunkCount, 0);
+
+        const embed = new discord.EmbedBuilder()
+            .setTitle("📚 Knowledge Base Documents")
+            .setDescription(`This server has **${documents.length}** document(s) with **${totalChunks}** chunks in total.`)
+            .setColor("#1ABC9C")
+            .setTimestamp();
+
+        documents.slice(0, 25).forEach(doc => {
+            embed.addFields({
+                name: doc.fileName,
+                value:
+                    `**Type:** ${doc.fileType}\n` +
+                    `**Chunks:** ${doc.chunkCount}\n` +
+                    `**Added:** <t:${Math.floor(doc.createdAt.getTime() / 1000)}:R>` +
+                    (doc.description ? `\n**Description:** ${doc.description.slice(0, 200)}` : ""),
+                inline: false
+            });
+        });
+
+        if (documents.length > 25) {
+            embed.setFooter({ text: `Showing 25 of ${documents.length} documents` });
+        }
+
+        await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+        client.logger.error(`[CHATBOT_RAG] Error listing RAG data: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while listing knowledge data.")]
+        });
+    }
+};
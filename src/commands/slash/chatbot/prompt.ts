@@ -0,0 +1,125 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { ChatbotConfigRepository } from "../../../events/database/repo/chatbot_config";
+import { resolveChatbotConfig } from "./resolve_config";
+import { PROMPT_PLACEHOLDERS, DEFAULT_PROMPT_TEMPLATE, MAX_PROMPT_TEMPLATE_LENGTH } from "../../../utils/ai/prompt_template";
+
+/**
+ * Format the list of supported placeholders for embeds
+ */
+export const formatPlaceholderList = (): string => {
+    return Object.entries(PROMPT_PLACEHOLDERS)
+        .map(([name, description]) => `\`{${name}}\` - ${description}`)
+        .join("\n");
+};
+
+/**
+ * Show the prompt template modal. Must be called before the interaction is deferred.
+ */
+export const handlePromptEdit = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    chatbotRepo: ChatbotConfigRepository
+): Promise<void> => {
+    try {
+        const existingConfig = await resolveChatbotConfig(interaction, client, chatbotRepo);
+        if (!existingConfig) return;
+
+        const templateInput = new discord.TextInputBuilder()
+            .setCustomId("chatbot_prompt_template")
+            .setLabel("System prompt template")
+            .setPlaceholder("Use {guild_name}, {user}, {categories}, {chatbot_name} or {channel}")
+            .setStyle(discord.TextInputStyle.Paragraph)
+            .setRequired(true)
+            .setMaxLength(MAX_PROMPT_TEMPLATE_LENGTH)
+            .setValue(existingConfig.promptTemplate || DEFAULT_PROMPT_TEMPLATE);
+
+        const modal = new discord.ModalBuilder()
+            .setCustomId(`chatbot_prompt_modal_${existingConfig.id}`)
+            .setTitle("Edit Chatbot Prompt")
+            .addComponents(new discord.ActionRowBuilder<discord.TextInputBuilder>().addComponents(templateInput));
+
+        await interaction.showModal(modal);
+    } catch (error) {
+        client.logger.error(`[CHATBOT_PROMPT] Error showing prompt modal: ${error}`);
+        if (!interaction.replied && !interaction.deferred) {
+            await interaction.reply({
+                embeds: [new EmbedTemplate(client).error("An error occurred while opening the prompt editor.")],
+                flags: discord.MessageFlags.Ephemeral
+            });
+        }
+    }
+};
+
+export const handlePromptView = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    chatbotRepo: ChatbotConfigRepository
+): Promise<void> => {
+    try {
+        const existingConfig = await resolveChatbotConfig(interaction, client, chatbotRepo);
+        if (!existingConfig) return;
+
+        const embed = new discord.EmbedBuilder()
+            .setTitle(`📝 Chatbot Prompt - ${existingConfig.chatbotName}`)
+            .setColor("Blue")
+            .addFields({ name: "Available Placeholders", value: formatPlaceholderList(), inline: false })
+            .setTimestamp();
+
+        if (existingConfig.promptTemplate) {
+            embed.setDescription(`**Custom template for <#${existingConfig.channelId}>:**\n\`\`\`\n${existingConfig.promptTemplate.replace(/```/g, "ʼʼʼ").slice(0, 3900)}\n\`\`\``);
+        } else {
+            embed.setDescription(
+                "This chatbot uses the built-in prompt, based on its name and response type.\n" +
+                "Use `/chatbot prompt edit` to write your own instructions."
+            );
+        }
+
+        await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+        client.logger.error(`[CHATBOT_PROMPT] Error viewing prompt: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while getting the chatbot prompt.")]
+        });
+    }
+};
+
+export const handlePromptReset = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    chatbotRepo: ChatbotConfigRepository
+): Promise<void> => {
+    try {
+        const existingConfig = await resolveChatbotConfig(interaction, client, chatbotRepo);
+        if (!existingConfig) return;
+
+        if (!existingConfig.promptTemplate) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).info("The chatbot is already using the built-in prompt.")]
+            });
+            return;
+        }
+
+        const updatedConfig = await chatbotRepo.updateConfig(existingConfig.id, { promptTemplate: null });
+        if (!updatedConfig) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Failed to reset the chatbot prompt.")]
+            });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [
+                new EmbedTemplate(client).success("Chatbot prompt reset.")
+                    .setDescription("The chatbot will use the built-in prompt based on its name and response type.")
+            ]
+        });
+
+        client.logger.info(`[CHATBOT_PROMPT] Reset prompt template for chatbot in channel ${existingConfig.channelId} (guild ${interaction.guildId})`);
+    } catch (error) {
+        client.logger.error(`[CHATBOT_PROMPT] Error resetting prompt: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while resetting the chatbot prompt.")]
+        });
+    }
+};
@@ -0,0 +1,136 @@
+import discord from "discord.js";
+import { ChannelKnowledgeSync } from "../../../utils/ai";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { RagRepository } from "../../../events/database/repo/rag_data";
+
+export const handleRagSync = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    ragRepo: RagRepository
+): Promise<void> => {
+    let statusMessage: discord.Message | null = null;
+
+    try {
+        const channel = interaction.options.getChannel("channel", true);
+        const resolvedChannel = interaction.guild!.channels.cache.get(channel.id);
+
+        if (!ChannelKnowledgeSync.isSyncableChannel(resolvedChannel)) {
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).error("Unsupported channel.")
+                        .setDescription("Only text, announcement and forum channels can be synced into the knowledge base.")
+                ]
+            });
+            return;
+        }
+
+        const botMember = interaction.guild!.members.me;
+        const permissions = botMember ? resolvedChannel.permissionsFor(botMember) : null;
+        if (!permissions?.has([discord.PermissionFlagsBits.ViewChannel, discord.PermissionFlagsBits.ReadMessageHistory])) {
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).error("Missing permissions.")
+                        .setDescription(`I need the **View Channel** and **Read Message History** permissions in ${resolvedChannel} to sync it.`)
+                ]
+            });
+            return;
+        }
+
+        const fileName = `#${resolvedChannel.name}`;
+        const existingSync = await ragRepo.getChannelDocument(resolvedChannel.id);
+        if (!existingSync && await ragRepo.hasRagDocument(interaction.guildId!, fileName)) {
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).warning(`A knowledge document named "${fileName}" already exists.`)
+                        .setDescription(`Delete it first using \`/chatbot delete_rag name:${fileName}\`, then run the sync again.`)
+                ]
+            });
+            return;
+        }
+
+        if (ChannelKnowledgeSync.isSyncRunning(resolvedChannel.id)) {
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).warning(`${resolvedChannel} is already being synced.`)
+                        .setDescription("Wait for the running sync to finish before starting another one.")
+                ]
+            });
+            return;
+        }
+
+        if (!interaction.channel?.isSendable()) {
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).error("Cannot report sync progress here.")
+                        .setDescription("I need to be able to send messages in this channel to report the progress of the sync.")
+                ]
+            });
+            return;
+        }
+
+        // Large channels can take longer than the interaction token lives, so progress goes to a channel message
+        const title = existingSync ? "Re-syncing Channel" : "Syncing Channel";
+        const buildProgressEmbed = (progress?: string) => {
+            const embed = new discord.EmbedBuilder()
+                .setTitle(title)
+                .setDescription(`Reading messages from ${resolvedChannel} and generating embeddings. This may take a while for large channels...`)
+                .setColor("Blue");
+            return progress ? embed.addFields({ name: "Progress", value: progress }) : embed;
+        };
+
+        statusMessage = await interaction.channel.send({ embeds: [buildProgressEmbed()] });
+
+        await interaction.editReply({
+            embeds: [
+                new EmbedTemplate(client).info(`${title} ${resolvedChannel}.`)
+                    .setDescription(`Progress and the result are reported in ${statusMessage.url}.`)
+            ]
+        });
+
+        const description = interaction.options.getString("description") ?? existingSync?.description ?? null;
+        const sync = new ChannelKnowledgeSync((client as any).dataSource);
+        const result = await sync.syncChannel(resolvedChannel, description, async (processed, total) => {
+            await statusMessage?.edit({ embeds: [buildProgressEmbed(`${processed}/${total} messages embedded`)] })
+                .catch(error => client.logger.debug(`[CHATBOT_RAG] Could not update sync progress: ${error}`));
+        });
+
+        if (!result) {
+            await statusMessage.edit({
+                embeds: [
+                    new EmbedTemplate(client).error("Failed to store knowledge data.")
+                        .setDescription(`There was an error saving ${resolvedChannel} to the database.`)
+                ]
+            });
+            return;
+        }
+
+        const embed = new EmbedTemplate(client).success("Channel Synced Successfully!")
+            .setDescription(
+                `${resolvedChannel} is now part of the chatbot's knowledge base. ` +
+                "New, edited and deleted messages are kept in sync automatically."
+            )
+            .addFields(
+                { name: "Document", value: result.document.fileName, inline: true },
+                { name: "Messages Indexed", value: result.messageCount.toString(), inline: true },
+                { name: "Chunks Created", value: result.document.chunkCount.toString(), inline: true }
+            );
+
+        if (result.truncated) {
+            embed.setFooter({ text: `Only the ${ChannelKnowledgeSync.MAX_MESSAGES} most recent messages were read.` });
+        }
+
+        await statusMessage.edit({ embeds: [embed] });
+
+        client.logger.info(`[CHATBOT_RAG] Synced channel ${resolvedChannel.id} for guild ${interaction.guildId}: ${result.messageCount} messages (${result.document.chunkCount} chunks)`);
+    } catch (error) {
+        client.logger.error(`[CHATBOT_RAG] Error syncing channel: ${error}`);
+        const errorEmbed = new EmbedTemplate(client).error("An error occurred while syncing the channel.")
+            .setDescription(`Error: ${error instanceof Error ? error.message : String(error)}`);
+
+        if (statusMessage) {
+            await statusMessage.edit({ embeds: [errorEmbed] }).catch(() => { });
+        } else {
+            await interaction.editReply({ embeds: [errorEmbed] });
+        }
+    }
+};
@@ -0,0 +1,58 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { ChatbotConfig } from "../../../events/database/entities/chatbot_config";
+import { ChatbotConfigRepository } from "../../../events/database/repo/chatbot_config";
+
+/**
+ * Resolve which chatbot configuration a command targets.
+ * Uses the `channel` option if given, then the channel the command was used in,
+ * then the only chatbot of the guild. Replies with an error and returns null otherwise.
+ */
+export const resolveChatbotConfig = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    chatbotRepo: ChatbotConfigRepository
+): Promise<ChatbotConfig | null> => {
+    const respond = async (embed: discord.EmbedBuilder) => {
+        if (interaction.deferred || interaction.replied) {
+            await interaction.editReply({ embeds: [embed] });
+        } else {
+            await interaction.reply({ embeds: [embed], flags: discord.MessageFlags.Ephemeral });
+        }
+    };
+
+    const channelOption = interaction.options.getChannel("channel", false);
+    if (channelOption) {
+        const config = await chatbotRepo.getConfig(interaction.guildId!, channelOption.id);
+        if (!config) {
+            await respond(
+                new EmbedTemplate(client).error(`No chatbot is set up in <#${channelOption.id}>.`)
+                    .setDescription("Use `/chatbot info` to see the chatbot channels of this server.")
+            );
+        }
+        return config;
+    }
+
+    const currentChannelConfig = await chatbotRepo.getConfig(interaction.guildId!, interaction.channelId);
+    if (currentChannelConfig) return currentChannelConfig;
+
+    const configs = await chatbotRepo.getConfigs(interaction.guildId!);
+    if (configs.length === 1) return configs[0];
+
+    if (configs.length === 0) {
+        await respond(
+            new EmbedTemplate(client).error("No chatbot is set up for this server.")
+                .setDescription("Use `/chatbot setup` to create a new chatbot configuration.")
+        );
+        return null;
+    }
+
+    await respond(
+        new EmbedTemplate(client).warning("This server has several chatbot channels.")
+            .setDescription(
+                "Use the `channel` option to choose which chatbot to manage:\n" +
+                configs.map(config => `• <#${config.channelId}> - ${config.chatbotName} (\`${config.modelName}\`)`).join("\n")
+            )
+    );
+    return null;
+};
@@ -1,8 +1,10 @@
 import discord from "discord.js";
 import { LLM } from "../../../utils/ai";
 import { EmbedTemplate } from "../../../utils/embed_template";
+import { maskSecret } from "../../../utils/encryption";
 import { ChatbotConfig } from "../../../events/database/entities/chatbot_config";
 import { ChatbotConfigRepository } from "../../../events/database/repo/chatbot_config";
+import { resolveChatbotConfig } from "./resolve_config";
 
 
 export const handleSettings = async (
@@ -11,24 +13,17 @@ export const handleSettings = async (
     chatbotRepo: ChatbotConfigRepository
 ): Promise<void> => {
     try {
-        const existingConfig = await chatbotRepo.getConfig(interaction.guildId!);
-        if (!existingConfig) {
-            await interaction.editReply({
-                embeds: [
-                    new EmbedTemplate(client).error("No chatbot is set up for this server.")
-                        .setDescription("Use `/chatbot setup` to create a new chatbot configuration.")
-                ]
-            });
-            return;
-        }
+        const existingConfig = await resolveChatbotConfig(interaction, client, chatbotRepo);
+        if (!existingConfig) return;
 
         const apiKey = interaction.options.getString("api_key");
         const modelName = interaction.options.getString("model_name");
         const baseUrl = interaction.options.getString("base_url");
         const name = interaction.options.getString("name");
         const responseType = interaction.options.getString("response_type");
+        const ragThreshold = interaction.options.getNumber("rag_threshold");
 
-        if (!apiKey && !modelName && !baseUrl && !name && !responseType) {
+        if (!apiKey && !modelName && !baseUrl && !name && !responseType && ragThreshold === null) {
             await interaction.editReply({
                 embeds: [
                     new discord.EmbedBuilder()
@@ -39,8 +34,9 @@ export const handleSettings = async (
                             { name: "Model", value: existingConfig.modelName, inline: true },
                             { name: "Cooldown", value: `${existingConfig.cooldown} seconds`, inline: true },
                             { name: "API", value: existingConfig.baseUrl, inline: true },
-                            { name: "API Key", value: "••••••••" + existingConfig.apiKey.slice(-4), inline: true },
+                            { name: "API Key", value: maskSecret(existingConfig.apiKey), inline: true },
                             { name: "Enabled", value: existingConfig.enabled ? "Yes" : "No", inline: true },
+                            { name: "Knowledge Threshold", value: existingConfig.ragSimilarityThreshold.toString(), inline: true },
                             { name: "Response Type", value: existingConfig.responseType || "Default", inline: false }
                         )
                         .setColor("Blue")
@@ -56,6 +52,7 @@ export const handleSettings = async (
         if (baseUrl) updates.baseUrl = baseUrl;
         if (name) updates.chatbotName = name;
         if (responseType !== null) updates.responseType = responseType || "";
+        if (ragThreshold !== null) updates.ragSimilarityThreshold = ragThreshold;
 
         if (apiKey || modelName || baseUrl) {
             try {
@@ -72,14 +69,14 @@ export const handleSettings = async (
                 await interaction.editReply({
                     embeds: [
                         new EmbedTemplate(client).error("Failed to connect to the API with the new settings.")
-                            .setDescription(`Error: ${error instanceof Error ? error.message : String(error)}`)
+                            .setDescription(`Error: ${(error instanceof Error ? error.message : String(error)).split(apiKey || existingConfig.apiKey).join(maskSecret(apiKey || existingConfig.apiKey))}`)
                     ]
                 });
                 return;
             }
         }
 
-        const updatedConfig = await chatbotRepo.updateConfig(interaction.guildId!, updates);
+        const updatedConfig = await chatbotRepo.updateConfig(existingConfig.id, updates);
         if (!updatedConfig) {
             await interaction.editReply({
                 embeds: [new EmbedTemplate(client).error("Failed to update chatbot settings.")]
@@ -95,7 +92,8 @@ export const handleSettings = async (
                         { name: "Name", value: updatedConfig.chatbotName, inline: true },
                         { name: "Model", value: updatedConfig.modelName, inline: true },
                         { name: "Cooldown", value: `${updatedConfig.cooldown} seconds`, inline: true },
-                        { name: "API", value: updatedConfig.baseUrl, inline: true }
+                        { name: "API", value: updatedConfig.baseUrl, inline: true },
+                        { name: "Knowledge Threshold", value: updatedConfig.ragSimilarityThreshold.toString(), inline: true }
                     )
             ]
         });
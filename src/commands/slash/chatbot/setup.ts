@@ -1,6 +1,7 @@
 import discord from "discord.js";
 import { LLM } from "../../../utils/ai";
 import { EmbedTemplate } from "../../../utils/embed_template";
+import { maskSecret } from "../../../utils/encryption";
 import { ChatbotConfigRepository } from "../../../events/database/repo/chatbot_config";
 
 export const handleSetup = async (
@@ -9,18 +10,20 @@ export const handleSetup = async (
     chatbotRepo: ChatbotConfigRepository
 ): Promise<void> => {
     try {
-        const existingConfig = await chatbotRepo.getConfig(interaction.guildId!);
-        if (existingConfig) {
-            await interaction.editReply({
-                embeds: [
-                    new EmbedTemplate(client).warning("A chatbot is already set up for this server.")
-                        .setDescription(`The chatbot is currently configured for <#${existingConfig.channelId}>. Use \`/chatbot settings\` to update the configuration or \`/chatbot delete\` to remove it first.`)
-                ]
-            });
-            return;
+        let channel = interaction.options.getChannel("channel") as discord.TextChannel | null;
+        if (channel) {
+            const existingConfig = await chatbotRepo.getConfig(interaction.guildId!, channel.id);
+            if (existingConfig) {
+                await interaction.editReply({
+                    embeds: [
+                        new EmbedTemplate(client).warning(`A chatbot is already set up in ${channel}.`)
+                            .setDescription(`Use \`/chatbot settings channel:#${channel.name}\` to update its configuration or \`/chatbot delete channel:#${channel.name}\` to remove it first.`)
+                    ]
+                });
+                return;
+            }
         }
 
-        let channel = interaction.options.getChannel("channel") as discord.TextChannel | null;
         const apiKey = interaction.options.getString("api_key", true);
         const modelName = interaction.options.getString("model_name", true);
         const baseUrl = interaction.options.getString("base_url") || "https://api.openai.com/v1";
@@ -38,7 +41,7 @@ export const handleSetup = async (
             await interaction.editReply({
                 embeds: [
                     new EmbedTemplate(client).error("Failed to connect to the API.")
-                        .setDescription(`Error: ${error instanceof Error ? error.message : String(error)}`)
+                        .setDescription(`Error: ${(error instanceof Error ? error.message : String(error)).split(apiKey).join(maskSecret(apiKey))}`)
                 ]
             });
             return;
@@ -148,7 +151,7 @@ export const handleSetup = async (
         await interaction.editReply({
             embeds: [
                 new EmbedTemplate(client).success("Chatbot set up successfully!")
-                    .setDescription(`The chatbot has been ${createdNewChannel ? 'created' : 'configured'} in ${channel}. Users can now chat with the bot in that channel.\n\nUse \`/chatbot settings\` to update the configuration or \`/chatbot delete\` to remove it.`)
+                    .setDescription(`The chatbot has been ${createdNewChannel ? 'created' : 'configured'} in ${channel}. Users can now chat with the bot in that channel.\n\nUse \`/chatbot settings\` to update the configuration, \`/chatbot delete\` to remove it, or run \`/chatbot setup\` again to add another chatbot channel.`)
                     .addFields(
                         { name: "Name", value: name, inline: true },
                         { name: "Model", value: modelName, inline: true },
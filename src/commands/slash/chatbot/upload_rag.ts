@@ -1,51 +1,58 @@
 import discord from "discord.js";
 import { Embedding } from "../../../utils/ai";
 import { RAG } from "../../../utils/ai";
+import { getRagSourceType, BINARY_RAG_TYPES, SUPPORTED_RAG_EXTENSIONS } from "../../../utils/ai/extractors";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { RagRepository } from "../../../events/database/repo/rag_data";
 
+const MAX_TEXT_FILE_SIZE = 1024 * 1024;
+const MAX_BINARY_FILE_SIZE = 5 * 1024 * 1024;
+
 export const handleUploadRag = async (
     interaction: discord.ChatInputCommandInteraction,
     client: discord.Client,
     ragRepo: RagRepository
 ): Promise<void> => {
     try {
-        const hasExistingData = await ragRepo.hasRagData(interaction.guildId!);
-        if (hasExistingData) {
+        const file = interaction.options.getAttachment("file");
+        if (!file) {
             await interaction.editReply({
-                embeds: [
-                    new EmbedTemplate(client).warning("Knowledge data already exists for this server.")
-                        .setDescription("You can only have one set of knowledge data. Please delete the existing data first using `/chatbot delete_rag` before uploading new data.")
-                ]
+                embeds: [new EmbedTemplate(client).error("No file was provided.")]
             });
             return;
         }
 
-        const file = interaction.options.getAttachment("file");
-        if (!file) {
+        const hasExistingDocument = await ragRepo.hasRagDocument(interaction.guildId!, file.name);
+        if (hasExistingDocument) {
             await interaction.editReply({
-                embeds: [new EmbedTemplate(client).error("No file was provided.")]
+                embeds: [
+                    new EmbedTemplate(client).warning(`A knowledge document named "${file.name}" already exists.`)
+                        .setDescription(`To replace it, delete the existing document first using \`/chatbot delete_rag name:${file.name}\`, or rename the file before uploading.`)
+                ]
             });
             return;
         }
 
-        const fileExtension = file.name.split('.').pop()?.toLowerCase();
-        if (!fileExtension || !['txt', 'md'].includes(fileExtension)) {
+        const fileExtension = file.name.split('.').pop()!.toLowerCase();
+        const sourceType = getRagSourceType(file.name);
+        if (!sourceType) {
+            const supported = Object.keys(SUPPORTED_RAG_EXTENSIONS).map((ext) => `.${ext}`).join(", ");
             await interaction.editReply({
                 embeds: [
                     new EmbedTemplate(client).error("Invalid file type.")
-                        .setDescription("Please upload a text (.txt) or Markdown (.md) file.")
+                        .setDescription(`Supported formats: ${supported}`)
                 ]
             });
             return;
         }
 
-        // Validate file size (max 1MB)
-        if (file.size > 1024 * 1024) {
+        // Binary formats carry layout overhead, so they get a larger limit
+        const maxFileSize = BINARY_RAG_TYPES.includes(sourceType) ? MAX_BINARY_FILE_SIZE : MAX_TEXT_FILE_SIZE;
+        if (file.size > maxFileSize) {
             await interaction.editReply({
                 embeds: [
                     new EmbedTemplate(client).error("File too large.")
-                        .setDescription("Maximum file size is 1MB.")
+                        .setDescription(`Maximum file size for .${fileExtension} files is ${maxFileSize / (1024 * 1024)}MB.`)
                 ]
             });
             return;
@@ -71,8 +78,8 @@ export const handleUploadRag = async (
             return;
         }
 
-        const textContent = await response.text();
-        if (!textContent || textContent.trim().length === 0) {
+        const fileBuffer = Buffer.from(await response.arrayBuffer());
+        if (fileBuffer.length === 0) {
             await interaction.editReply({
                 embeds: [
                     new EmbedTemplate(client).error("The file is empty.")
@@ -95,9 +102,9 @@ export const handleUploadRag = async (
             ]
         });
 
-        const processedDocs = await rag.processText(
-            textContent,
-            { name: file.name, type: fileExtension as 'txt' | 'md' },
+        const processedDocs = await rag.processBuffer(
+            fileBuffer,
+            { name: file.name, type: sourceType },
             {
                 chunkSize: 500,
                 chunkOverlap: 50,
@@ -109,7 +116,7 @@ export const handleUploadRag = async (
             await interaction.editReply({
                 embeds: [
                     new EmbedTemplate(client).error("Failed to process document.")
-                        .setDescription("No chunks were generated. The file may be too short or contain unsupported content.")
+                        .setDescription("No text could be extracted. The file may be too short, scanned as images, or contain unsupported content.")
                 ]
             });
             return;
@@ -133,14 +140,17 @@ export const handleUploadRag = async (
             return;
         }
 
+        const documents = await ragRepo.getRagDocuments(interaction.guildId!);
+
         await interaction.editReply({
             embeds: [
                 new EmbedTemplate(client).success("Knowledge Data Added Successfully!")
-                    .setDescription(`Your knowledge base has been processed and added to the chatbot.`)
+                    .setDescription(`The document has been processed and added to the chatbot's knowledge base.`)
                     .addFields(
                         { name: "File", value: file.name, inline: true },
                         { name: "Chunks Created", value: storedDocument.chunkCount.toString(), inline: true },
-                        { name: "Size", value: `${Math.round(file.size / 1024)} KB`, inline: true }
+                        { name: "Size", value: `${Math.round(file.size / 1024)} KB`, inline: true },
+                        { name: "Documents in Knowledge Base", value: documents.length.toString(), inline: true }
                     )
             ]
         });
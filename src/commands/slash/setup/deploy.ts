@@ -2,6 +2,7 @@ import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
 import { wait } from "../../../utils/extras";
+import { sendTicketPanel } from "../../../utils/ticket_panel";
 
 /**
  * Helper function to deploy the ticket system
@@ -33,50 +34,7 @@ export const deployTicketSystem = async (
             throw new Error("Button configuration not found");
         }
 
-        const ticketEmbed = new discord.EmbedBuilder()
-            .setTitle(buttonConfig.embedTitle || "Need Help?")
-            .setDescription(buttonConfig.embedDescription || "Click the button below to create a ticket")
-            .setColor((buttonConfig.embedColor || "#5865F2") as discord.ColorResolvable)
-            .setFooter({ text: "Powered by Salt Bot", iconURL: client.user?.displayAvatarURL() })
-            .setTimestamp();
-
-        let style = discord.ButtonStyle.Primary;
-        switch (buttonConfig.style?.toUpperCase()) {
-            case "SECONDARY":
-                style = discord.ButtonStyle.Secondary;
-                break;
-            case "SUCCESS":
-                style = discord.ButtonStyle.Success;
-                break;
-            case "DANGER":
-                style = discord.ButtonStyle.Danger;
-                break;
-        }
-
-        const buttonRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
-            .addComponents(
-                new discord.ButtonBuilder()
-                    .setCustomId("create_ticket")
-                    .setLabel(buttonConfig.label)
-                    .setEmoji(buttonConfig.emoji)
-                    .setStyle(style)
-            );
-
-        const panelMessage = await ticketChannel.send({
-            embeds: [ticketEmbed],
-            components: [buttonRow]
-        });
-
-        await ticketRepo.configureTicketButton(interaction.guildId!, {
-            messageId: panelMessage.id
-        });
-
-        const categories = await ticketRepo.getTicketCategories(interaction.guildId!);
-        if (categories.length > 1) {
-            await ticketRepo.configureSelectMenu(interaction.guildId!, {
-                messageId: panelMessage.id
-            });
-        }
+        await sendTicketPanel(ticketChannel, buttonConfig);
 
         try {
             await interaction.editReply({
@@ -2,7 +2,8 @@ import discord from "discord.js";
 import { EmbedTemplate } from "../../utils/embed_template";
 import { TicketRepository } from "../../events/database/repo/ticket_system";
 import { ITicketStatus } from "../../events/database/entities/ticket_system";
-import { SlashCommand } from "../../types";
+import { ITicketChannel, SlashCommand } from "../../types";
+import { lockTicketChannel } from "../../utils/ticket_utils";
 
 const stopCommand: SlashCommand = {
     cooldown: 10,
@@ -230,7 +231,7 @@ const stopCommand: SlashCommand = {
                                     );
 
                                     try {
-                                        const ticketChannel = await client.channels.fetch(ticket.channelId) as discord.TextChannel;
+                                        const ticketChannel = await client.channels.fetch(ticket.channelId) as ITicketChannel;
 
                                         if (ticketChannel) {
                                             const closeEmbed = new discord.EmbedBuilder()
@@ -243,10 +244,7 @@ const stopCommand: SlashCommand = {
                                             await ticketChannel.send({ embeds: [closeEmbed] });
 
                                             if (ticketChannel.manageable) {
-                                                await ticketChannel.permissionOverwrites.create(
-                                                    interaction.guild!.roles.everyone,
-                                                    { SendMessages: false }
-                                                );
+                                                await lockTicketChannel(ticketChannel);
                                             }
                                         }
                                     } catch (channelError) {
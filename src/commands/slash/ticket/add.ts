@@ -1,6 +1,9 @@
 import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { grantTicketAccess, hasTicketAccess } from "../../../utils/ticket_utils";
+import { hasTicketStaffLevel } from "../../../utils/ticket_permissions";
+import { ITicketChannel } from "../../../types";
 
 export const addUserToTicket = async (
     interaction: discord.ChatInputCommandInteraction,
@@ -20,12 +23,9 @@ export const addUserToTicket = async (
         }
 
         const member = interaction.member as discord.GuildMember;
-        const supportRoleId = ticket.category.supportRoleId;
-
         const hasPermission =
-            member.permissions.has(discord.PermissionFlagsBits.ManageChannels) ||
             interaction.user.id === ticket.creatorId ||
-            (supportRoleId && member.roles.cache.has(supportRoleId));
+            hasTicketStaffLevel(member, ticket.category, "manage");
 
         if (!hasPermission) {
             await interaction.editReply({
@@ -49,20 +49,15 @@ export const addUserToTicket = async (
             return;
         }
 
-        const channel = interaction.channel as discord.TextChannel;
-        const permissions = channel.permissionsFor(userToAdd.id);
-        if (permissions?.has(discord.PermissionFlagsBits.ViewChannel)) {
+        const channel = interaction.channel as ITicketChannel;
+        if (await hasTicketAccess(channel, userToAdd.id)) {
             await interaction.editReply({
                 embeds: [new EmbedTemplate(client).warning(`${userToAdd} already has access to this ticket.`)]
             });
             return;
         }
 
-        await channel.permissionOverwrites.create(userToAdd.id, {
-            ViewChannel: true,
-            SendMessages: true,
-            ReadMessageHistory: true
-        });
+        await grantTicketAccess(channel, userToAdd.id);
 
         await interaction.editReply({
             embeds: [new EmbedTemplate(client).success(`${userToAdd} has been added to the ticket.`)]
@@ -1,6 +1,9 @@
 import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { applyClaimPermissions, updateTicketControls } from "../../../utils/ticket_utils";
+import { hasTicketStaffLevel } from "../../../utils/ticket_permissions";
+import { ITicketChannel } from "../../../types";
 
 export const claimTicket = async (
     interaction: discord.ChatInputCommandInteraction,
@@ -21,72 +24,12 @@ export const claimTicket = async (
 
         if (ticket.claimedById) {
             if (ticket.claimedById === interaction.user.id) {
-                await ticketRepo.unclaimTicket(ticket.id);
-
-                const unclaimEmbed = new discord.EmbedBuilder()
-                    .setTitle("Ticket Unclaimed")
-                    .setDescription(`This ticket is no longer being handled by <@${interaction.user.id}>.`)
-                    .setColor("Orange")
-                    .setFooter({ text: `Ticket #${ticket.ticketNumber}` })
-                    .setTimestamp();
-
-                const channel = interaction.channel as discord.TextChannel;
-                await channel.send({ embeds: [unclaimEmbed] });
-
-                try {
-                    const messages = await channel.messages.fetch({ limit: 10 });
-                    let buttonMessage: discord.Message | undefined;
-
-                    messages.forEach(msg => {
-                        if (msg.author.id === client.user?.id && msg.components.length > 0) {
-                            let hasTicketButtons = false;
-
-                            msg.components.forEach(row => {
-                                const actionRow = row as discord.ActionRow<discord.MessageActionRowComponent>;
-                                actionRow.components.forEach(component => {
-                                    if (component.type === discord.ComponentType.Button) {
-                                        const button = component as discord.ButtonComponent;
-                                        if (button.customId === "ticket_claim" || button.customId === "ticket_close") {
-                                            hasTicketButtons = true;
-                                        }
-                                    }
-                                });
-                            });
-
-                            if (hasTicketButtons) {
-                                buttonMessage = msg;
-                            }
-                        }
-                    });
-
-                    if (buttonMessage) {
-                        const actionRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
-                            .addComponents(
-                                new discord.ButtonBuilder()
-                                    .setCustomId("ticket_claim")
-                                    .setLabel("Claim Ticket")
-                                    .setStyle(discord.ButtonStyle.Primary)
-                                    .setEmoji("👋"),
-                                new discord.ButtonBuilder()
-                                    .setCustomId("ticket_close")
-                                    .setLabel("Close Ticket")
-                                    .setStyle(discord.ButtonStyle.Danger)
-                                    .setEmoji("🔒")
-                            );
-
-                        await buttonMessage.edit({ components: [actionRow] }).catch(err => {
-                            client.logger.warn(`[TICKET_CLAIM] Could not update message: ${err}`);
-                        });
-                    }
-                } catch (err) {
-                    client.logger.warn(`[TICKET_CLAIM] Could not find or update message with buttons: ${err}`);
-                }
-
                 await interaction.editReply({
-                    embeds: [new EmbedTemplate(client).success("You have successfully unclaimed this ticket.")]
+                    embeds: [
+                        new EmbedTemplate(client).error("You have already claimed this ticket.")
+                            .setDescription("Use `/ticket unclaim` to release it or `/ticket transfer_claim` to hand it to another staff member.")
+                    ]
                 });
-
-                client.logger.info(`[TICKET_CLAIM] ${interaction.user.tag} unclaimed ticket #${ticket.ticketNumber}`);
                 return;
             }
 
@@ -102,12 +45,7 @@ export const claimTicket = async (
         }
 
         const member = interaction.member as discord.GuildMember;
-        const supportRoleId = ticket.category.supportRoleId;
-        const hasPermission =
-            member.permissions.has(discord.PermissionFlagsBits.ManageChannels) ||
-            (supportRoleId && member.roles.cache.has(supportRoleId));
-
-        if (!hasPermission) {
+        if (!hasTicketStaffLevel(member, ticket.category, "respond")) {
             await interaction.editReply({
                 embeds: [
                     new EmbedTemplate(client).error(
@@ -131,57 +69,10 @@ export const claimTicket = async (
             .setFooter({ text: `Ticket #${ticket.ticketNumber}` })
             .setTimestamp();
 
-        const channel = interaction.channel as discord.TextChannel;
+        const channel = interaction.channel as ITicketChannel;
+        await applyClaimPermissions(channel, ticket, interaction.user.id);
         await channel.send({ embeds: [claimEmbed] });
-
-        try {
-            const messages = await channel.messages.fetch({ limit: 10 });
-            let buttonMessage: discord.Message | undefined;
-
-            messages.forEach(msg => {
-                if (msg.author.id === client.user?.id && msg.components.length > 0) {
-                    let hasTicketButtons = false;
-
-                    msg.components.forEach(row => {
-                        const actionRow = row as discord.ActionRow<discord.MessageActionRowComponent>;
-                        actionRow.components.forEach(component => {
-                            if (component.type === discord.ComponentType.Button) {
-                                const button = component as discord.ButtonComponent;
-                                if (button.customId === "ticket_claim" || button.customId === "ticket_close") {
-                                    hasTicketButtons = true;
-                                }
-                            }
-                        });
-                    });
-
-                    if (hasTicketButtons) {
-                        buttonMessage = msg;
-                    }
-                }
-            });
-
-            if (buttonMessage) {
-                const actionRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
-                    .addComponents(
-                        new discord.ButtonBuilder()
-                            .setCustomId("ticket_claim")
-                            .setLabel("Unclaim Ticket")
-                            .setStyle(discord.ButtonStyle.Secondary)
-                            .setEmoji("🔄"),
-                        new discord.ButtonBuilder()
-                            .setCustomId("ticket_close")
-                            .setLabel("Close Ticket")
-                            .setStyle(discord.ButtonStyle.Danger)
-                            .setEmoji("🔒")
-                    );
-
-                await buttonMessage.edit({ components: [actionRow] }).catch(err => {
-                    client.logger.warn(`[TICKET_CLAIM] Could not update message: ${err}`);
-                });
-            }
-        } catch (err) {
-            client.logger.warn(`[TICKET_CLAIM] Could not find or update message with buttons: ${err}`);
-        }
+        await updateTicketControls(channel, true);
 
         await interaction.editReply({
             embeds: [
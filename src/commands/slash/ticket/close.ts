@@ -3,6 +3,9 @@ import { EmbedTemplate } from "../../../utils/embed_template";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
 import { ITicketStatus } from "../../../events/database/entities/ticket_system";
 import { createAndSendTranscript } from "../../../utils/transcript";
+import { lockTicketChannel } from "../../../utils/ticket_utils";
+import { hasTicketStaffLevel } from "../../../utils/ticket_permissions";
+import { ITicketChannel } from "../../../types";
 
 export const closeTicket = async (
     interaction: discord.ChatInputCommandInteraction,
@@ -28,6 +31,14 @@ export const closeTicket = async (
             return;
         }
 
+        const member = interaction.member as discord.GuildMember;
+        if (interaction.user.id !== ticket.creatorId && !hasTicketStaffLevel(member, ticket.category, "manage")) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("You don't have permission to close this ticket.")]
+            });
+            return;
+        }
+
         const reason = interaction.options.getString("reason") || "No reason provided";
 
         await ticketRepo.updateTicketStatus(
@@ -54,14 +65,11 @@ export const closeTicket = async (
             .setFooter({ text: `Use /ticket reopen to reopen this ticket | ID: ${ticket.id}` })
             .setTimestamp();
 
-        const channel = interaction.channel as discord.TextChannel;
+        const channel = interaction.channel as ITicketChannel;
         await channel.send({ embeds: [closeEmbed] });
 
         try {
-            await channel.permissionOverwrites.create(
-                interaction.guild!.roles.everyone,
-                { SendMessages: false }
-            );
+            await lockTicketChannel(channel);
 
             const actionRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
                 .addComponents(
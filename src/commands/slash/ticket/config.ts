@@ -1,6 +1,8 @@
 import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { MAX_FORM_QUESTIONS } from "../../../utils/ticket_utils";
+import { ITicketCategory, ITicketFormQuestion, ITicketMode, ITicketStaffLevel, ITicketStaffRole } from "../../../types";
 
 export const configTicket = async (
     interaction: discord.ChatInputCommandInteraction,
@@ -42,6 +44,24 @@ export const configTicket = async (
             case "transcript":
                 await configTicketTranscript(interaction, client, ticketRepo);
                 break;
+            case "sla":
+                await configTicketSla(interaction, client, ticketRepo);
+                break;
+            case "inactivity":
+                await configTicketInactivity(interaction, client, ticketRepo);
+                break;
+            case "form":
+                await configTicketForm(interaction, client, ticketRepo);
+                break;
+            case "limits":
+                await configTicketLimits(interaction, client, ticketRepo);
+                break;
+            case "mode":
+                await configTicketMode(interaction, client, ticketRepo);
+                break;
+            case "access":
+                await configTicketAccess(interaction, client, ticketRepo);
+                break;
             default:
                 await interaction.editReply({
                     embeds: [new EmbedTemplate(client).error("Unknown configuration subcommand.")]
@@ -536,4 +556,645 @@ const configTicketTranscript = async (
             embeds: [new EmbedTemplate(client).error("An error occurred while configuring ticket transcripts.")]
         });
     }
-};
\ No newline at end of file
+};
+
+const configTicketSla = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    try {
+        const categoryId = interaction.options.getString("category_id", true);
+        const category = await ticketRepo.getTicketCategory(categoryId);
+        if (!category) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Ticket category not found.")]
+            });
+            return;
+        }
+
+        const firstResponse = interaction.options.getInteger("first_response");
+        const claim = interaction.options.getInteger("claim");
+        const escalationRole = interaction.options.getRole("escalation_role");
+
+        const formatMinutes = (minutes?: number | null): string => minutes ? `${minutes} minutes` : "Disabled";
+
+        if (firstResponse === null && claim === null && !escalationRole) {
+            await interaction.editReply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("🔧 Ticket SLA Configuration")
+                        .setDescription(`Current SLA settings for category: ${category.emoji || "🎫"} **${category.name}**`)
+                        .addFields(
+                            { name: "First Response", value: formatMinutes(category.slaFirstResponseMinutes), inline: true },
+                            { name: "Claim", value: formatMinutes(category.slaClaimMinutes), inline: true },
+                            {
+                                name: "Escalation Role",
+                                value: category.slaEscalationRoleId ? `<@&${category.slaEscalationRoleId}>` :
+                                    (category.supportRoleId ? `<@&${category.supportRoleId}> (support role)` : "None set"),
+                                inline: true
+                            }
+                        )
+                        .setColor("Blue")
+                        .setFooter({ text: "Use the options to update these settings" })
+                ]
+            });
+            return;
+        }
+
+        const updateData: {
+            slaFirstResponseMinutes?: number | null;
+            slaClaimMinutes?: number | null;
+            slaEscalationRoleId?: string | null;
+        } = {};
+        if (firstResponse !== null) updateData.slaFirstResponseMinutes = firstResponse > 0 ? firstResponse : null;
+        if (claim !== null) updateData.slaClaimMinutes = claim > 0 ? claim : null;
+        if (escalationRole) updateData.slaEscalationRoleId = escalationRole.id;
+
+        const updatedCategory = await ticketRepo.updateTicketCategory(categoryId, updateData);
+        if (!updatedCategory) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Failed to update the SLA settings.")]
+            });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [
+                new EmbedTemplate(client).success("Ticket SLA settings updated successfully!")
+                    .setDescription(`Updated SLAs for category: ${updatedCategory.emoji || "🎫"} **${updatedCategory.name}**`)
+                    .addFields(
+                        { name: "First Response", value: formatMinutes(updatedCategory.slaFirstResponseMinutes), inline: true },
+                        { name: "Claim", value: formatMinutes(updatedCategory.slaClaimMinutes), inline: true },
+                        {
+                            name: "Escalation Role",
+                            value: updatedCategory.slaEscalationRoleId ? `<@&${updatedCategory.slaEscalationRoleId}>` : "Support role",
+                            inline: true
+                        }
+                    )
+            ]
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_CONFIG] Error configuring ticket SLA: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while configuring ticket SLAs.")]
+        });
+    }
+};
+
+const configTicketInactivity = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    try {
+        const categoryId = interaction.options.getString("category_id", true);
+        const category = await ticketRepo.getTicketCategory(categoryId);
+        if (!category) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Ticket category not found.")]
+            });
+            return;
+        }
+
+        const hours = interaction.options.getInteger("hours");
+        const graceHours = interaction.options.getInteger("grace_hours");
+
+        const formatPolicy = (inactivityHours?: number | null, inactivityGraceHours?: number | null): discord.APIEmbedField[] => [
+            { name: "Warn After", value: inactivityHours ? `${inactivityHours} hours` : "Disabled", inline: true },
+            { name: "Close After Warning", value: inactivityHours ? `${inactivityGraceHours ?? 24} hours` : "Disabled", inline: true }
+        ];
+
+        if (hours === null && graceHours === null) {
+            await interaction.editReply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("🔧 Ticket Inactivity Configuration")
+                        .setDescription(`Current inactivity policy for category: ${category.emoji || "🎫"} **${category.name}**`)
+                        .addFields(formatPolicy(category.inactivityHours, category.inactivityGraceHours))
+                        .setColor("Blue")
+                        .setFooter({ text: "Use the options to update these settings" })
+                ]
+            });
+            return;
+        }
+
+        const updateData: {
+            inactivityHours?: number | null;
+            inactivityGraceHours?: number | null;
+        } = {};
+        if (hours !== null) updateData.inactivityHours = hours > 0 ? hours : null;
+        if (graceHours !== null) updateData.inactivityGraceHours = graceHours;
+
+        const updatedCategory = await ticketRepo.updateTicketCategory(categoryId, updateData);
+        if (!updatedCategory) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Failed to update the inactivity policy.")]
+            });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [
+                new EmbedTemplate(client).success("Ticket inactivity policy updated successfully!")
+                    .setDescription(
+                        `Updated inactivity policy for category: ${updatedCategory.emoji || "🎫"} **${updatedCategory.name}**\n\n` +
+                        "Tickets without a message from their creator are warned first and closed with the reason \"Inactive\" once the grace period ends."
+                    )
+                    .addFields(formatPolicy(updatedCategory.inactivityHours, updatedCategory.inactivityGraceHours))
+            ]
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_CONFIG] Error configuring ticket inactivity: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while configuring the inactivity policy.")]
+        });
+    }
+};
+
+const configTicketForm = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    try {
+        const categoryId = interaction.options.getString("category_id", true);
+        const category = await ticketRepo.getTicketCategory(categoryId);
+        if (!category) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Ticket category not found.")]
+            });
+            return;
+        }
+
+        const action = interaction.options.getString("action", true);
+        const questions: ITicketFormQuestion[] = [...(category.formQuestions ?? [])];
+
+        const formatQuestions = (list: ITicketFormQuestion[]): string => list.length > 0 ?
+            list.map((question, index) =>
+                `**${index + 1}.** ${question.label} (${question.style === "paragraph" ? "Paragraph" : "Short"}, ${question.required ? "required" : "optional"})`
+            ).join("\n") :
+            "No questions configured. Tickets are created without a form.";
+
+        switch (action) {
+            case "list": {
+                await interaction.editReply({
+                    embeds: [
+                        new discord.EmbedBuilder()
+                            .setTitle("🔧 Ticket Form Configuration")
+                            .setDescription(`Questions for category: ${category.emoji || "🎫"} **${category.name}**\n\n${formatQuestions(questions)}`)
+                            .setColor("Blue")
+                            .setFooter({ text: `Up to ${MAX_FORM_QUESTIONS} questions can be added` })
+                    ]
+                });
+                return;
+            }
+
+            case "add": {
+                const label = interaction.options.getString("question");
+                if (!label) {
+                    await interaction.editReply({
+                        embeds: [
+                            new EmbedTemplate(client).error("Missing question.")
+                                .setDescription("Please provide the question to add using the `question` option.")
+                        ]
+                    });
+                    return;
+                }
+
+                if (questions.length >= MAX_FORM_QUESTIONS) {
+                    await interaction.editReply({
+                        embeds: [
+                            new EmbedTemplate(client).error(`A form can have at most ${MAX_FORM_QUESTIONS} questions.`)
+                                .setDescription("Remove a question before adding a new one.")
+                        ]
+                    });
+                    return;
+                }
+
+                const question: ITicketFormQuestion = {
+                    label,
+                    style: interaction.options.getString("style") === "paragraph" ? "paragraph" : "short",
+                    required: interaction.options.getBoolean("required") ?? true
+                };
+                const placeholder = interaction.options.getString("placeholder");
+                if (placeholder) question.placeholder = placeholder;
+
+                questions.push(question);
+                break;
+            }
+
+            case "remove": {
+                const number = interaction.options.getInteger("number");
+                if (!number || number > questions.length) {
+                    await interaction.editReply({
+                        embeds: [
+                            new EmbedTemplate(client).error("Invalid question number.")
+                                .setDescription(`Please provide a number between 1 and ${Math.max(questions.length, 1)}. Use \`action:list\` to see the questions.`)
+                        ]
+                    });
+                    return;
+                }
+
+                questions.splice(number - 1, 1);
+                break;
+            }
+
+            case "clear": {
+                questions.length = 0;
+                break;
+            }
+
+            default:
+                await interaction.editReply({
+                    embeds: [new EmbedTemplate(client).error("Unknown action.")]
+                });
+                return;
+        }
+
+        const updatedCategory = await ticketRepo.updateTicketCategory(categoryId, {
+            formQuestions: questions.length > 0 ? questions : null
+        });
+        if (!updatedCategory) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Failed to update the ticket form.")]
+            });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [
+                new EmbedTemplate(client).success("Ticket form updated successfully!")
+                    .setDescription(`Questions for category: ${updatedCategory.emoji || "🎫"} **${updatedCategory.name}**\n\n${formatQuestions(questions)}`)
+            ]
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_CONFIG] Error configuring ticket form: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while configuring the ticket form.")]
+        });
+    }
+};
+
+const configTicketLimits = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    try {
+        const maxOpen = interaction.options.getInteger("max_open");
+        const cooldown = interaction.options.getInteger("cooldown");
+        const categoryId = interaction.options.getString("category_id");
+
+        const guildConfig = await ticketRepo.getGuildConfig(interaction.guildId!);
+        if (!guildConfig) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Ticket system is not set up for this server.")]
+            });
+            return;
+        }
+
+        const formatLimit = (value?: number | null, fallback = "No limit"): string => value ? value.toString() : fallback;
+        const formatCooldown = (value?: number | null, fallback = "None"): string => value ? `${value} minutes` : fallback;
+
+        if (categoryId) {
+            const category = await ticketRepo.getTicketCategory(categoryId);
+            if (!category) {
+                await interaction.editReply({
+                    embeds: [new EmbedTemplate(client).error("Ticket category not found.")]
+                });
+                return;
+            }
+
+            if (maxOpen !== null || cooldown !== null) {
+                const updateData: {
+                    maxOpenTicketsPerUser?: number | null;
+                    ticketCooldownMinutes?: number | null;
+                } = {};
+                if (maxOpen !== null) updateData.maxOpenTicketsPerUser = maxOpen > 0 ? maxOpen : null;
+                if (cooldown !== null) updateData.ticketCooldownMinutes = cooldown > 0 ? cooldown : null;
+
+                const updatedCategory = await ticketRepo.updateTicketCategory(categoryId, updateData);
+                if (!updatedCategory) {
+                    await interaction.editReply({
+                        embeds: [new EmbedTemplate(client).error("Failed to update the category limits.")]
+                    });
+                    return;
+                }
+
+                Object.assign(category, updatedCategory);
+            }
+
+            await interaction.editReply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle(maxOpen !== null || cooldown !== null ? "✅ Category Limits Updated" : "🔧 Category Ticket Limits")
+                        .setDescription(`Limits for category: ${category.emoji || "🎫"} **${category.name}**\n\nServer-wide limits always apply as well.`)
+                        .addFields(
+                            { name: "Max Open Tickets", value: formatLimit(category.maxOpenTicketsPerUser, "Server limit only"), inline: true },
+                            { name: "Creation Cooldown", value: formatCooldown(category.ticketCooldownMinutes, "Server cooldown only"), inline: true }
+                        )
+                        .setColor(maxOpen !== null || cooldown !== null ? "Green" : "Blue")
+                ]
+            });
+            return;
+        }
+
+        if (maxOpen !== null || cooldown !== null) {
+            const updateData: {
+                maxOpenTicketsPerUser?: number;
+                ticketCooldownMinutes?: number;
+            } = {};
+            if (maxOpen !== null) updateData.maxOpenTicketsPerUser = maxOpen;
+            if (cooldown !== null) updateData.ticketCooldownMinutes = cooldown;
+
+            const updatedConfig = await ticketRepo.updateGuildConfig(interaction.guildId!, updateData);
+            if (!updatedConfig) {
+                await interaction.editReply({
+                    embeds: [new EmbedTemplate(client).error("Failed to update the ticket limits.")]
+                });
+                return;
+            }
+
+            Object.assign(guildConfig, updatedConfig);
+        }
+
+        await interaction.editReply({
+            embeds: [
+                new discord.EmbedBuilder()
+                    .setTitle(maxOpen !== null || cooldown !== null ? "✅ Ticket Limits Updated" : "🔧 Ticket Limits")
+                    .setDescription("Server-wide limits for creating tickets. Use the `category_id` option to set stricter limits for a single category.")
+                    .addFields(
+                        { name: "Max Open Tickets", value: formatLimit(guildConfig.maxOpenTicketsPerUser), inline: true },
+                        { name: "Creation Cooldown", value: formatCooldown(guildConfig.ticketCooldownMinutes), inline: true }
+                    )
+                    .setColor(maxOpen !== null || cooldown !== null ? "Green" : "Blue")
+            ]
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_CONFIG] Error configuring ticket limits: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while configuring ticket limits.")]
+        });
+    }
+};
+
+const configTicketMode = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    try {
+        const categoryId = interaction.options.getString("category_id", true);
+        const category = await ticketRepo.getTicketCategory(categoryId);
+        if (!category) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Ticket category not found.")]
+            });
+            return;
+        }
+
+        const mode = interaction.options.getString("mode") as ITicketMode | null;
+        const threadChannel = interaction.options.getChannel("thread_channel");
+        const claimOnly = interaction.options.getBoolean("claim_only");
+
+        const formatMode = (ticketCategory: ITicketCategory): discord.APIEmbedField[] => [
+            { name: "Mode", value: ticketCategory.ticketMode === "thread" ? "🧵 Private threads" : "📁 Channels", inline: true },
+            { name: "Thread Channel", value: ticketCategory.threadChannelId ? `<#${ticketCategory.threadChannelId}>` : "Not set", inline: true },
+            { name: "Claim-only Messaging", value: ticketCategory.claimOnlyMessaging ? "✅ Enabled" : "❌ Disabled", inline: true }
+        ];
+
+        if (!mode && !threadChannel && claimOnly === null) {
+            await interaction.editReply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("🔧 Ticket Mode Configuration")
+                        .setDescription(`Current ticket mode for category: ${category.emoji || "🎫"} **${category.name}**`)
+                        .addFields(formatMode(category))
+                        .setColor("Blue")
+                        .setFooter({ text: "Use the options to update these settings" })
+                ]
+            });
+            return;
+        }
+
+        const threadChannelId = threadChannel?.id ?? category.threadChannelId;
+        if ((mode ?? category.ticketMode) === "thread") {
+            if (claimOnly ?? category.claimOnlyMessaging) {
+                await interaction.editReply({
+                    embeds: [
+                        new EmbedTemplate(client).error("Claim-only messaging is not available in thread mode.")
+                            .setDescription("Private threads have no permission overwrites, so the support role can't be restricted. Disable `claim_only` first.")
+                    ]
+                });
+                return;
+            }
+
+
+            const resolvedChannel = threadChannelId ?
+                await interaction.guild!.channels.fetch(threadChannelId).catch(() => null) :
+                null;
+            if (!(resolvedChannel instanceof discord.TextChannel)) {
+                await interaction.editReply({
+                    embeds: [new EmbedTemplate(client).error("Thread mode requires a thread channel. Please select a text channel with the thread_channel option.")]
+                });
+                return;
+            }
+
+            const botMember = await interaction.guild!.members.fetchMe();
+            if (!resolvedChannel.permissionsFor(botMember).has([
+                discord.PermissionFlagsBits.ViewChannel,
+                discord.PermissionFlagsBits.CreatePrivateThreads,
+                discord.PermissionFlagsBits.SendMessagesInThreads,
+                discord.PermissionFlagsBits.ManageThreads
+            ])) {
+                await interaction.editReply({
+                    embeds: [
+                        new EmbedTemplate(client).error("I don't have the required permissions in that channel.")
+                            .setDescription("I need the following permissions in the thread channel:\n• View Channel\n• Create Private Threads\n• Send Messages in Threads\n• Manage Threads")
+                    ]
+                });
+                return;
+            }
+        }
+
+        const updateData: {
+            ticketMode?: ITicketMode;
+            threadChannelId?: string | null;
+            claimOnlyMessaging?: boolean;
+        } = {};
+        if (mode) updateData.ticketMode = mode;
+        if (threadChannel) updateData.threadChannelId = threadChannel.id;
+        if (claimOnly !== null) updateData.claimOnlyMessaging = claimOnly;
+
+        const updatedCategory = await ticketRepo.updateTicketCategory(categoryId, updateData);
+        if (!updatedCategory) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Failed to update the ticket mode.")]
+            });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [
+                new EmbedTemplate(client).success("Ticket mode updated successfully!")
+                    .setDescription(
+                        `Updated ticket mode for category: ${updatedCategory.emoji || "🎫"} **${updatedCategory.name}**\n\n` +
+                        (updatedCategory.ticketMode === "thread" ?
+                            "New tickets are created as private threads. The support role is mentioned in each thread to add the team." :
+                            "New tickets are created as private channels.") +
+                        (updatedCategory.claimOnlyMessaging ?
+                            " Once a ticket is claimed, only the claimer and the creator can send messages." +
+                            (category.ticketMode === "thread" ? " Tickets already open as threads can't be restricted and keep their access." : "") :
+                            "") +
+                        " Existing tickets are not affected."
+                    )
+                    .addFields(formatMode(updatedCategory))
+            ]
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_CONFIG] Error configuring ticket mode: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while configuring the ticket mode.")]
+        });
+    }
+};
+
+const STAFF_LEVEL_LABELS: Record<ITicketStaffLevel, string> = {
+    view: "View only",
+    respond: "Respond",
+    manage: "Manage & close"
+};
+
+/**
+ * Builds the embed fields describing the role access of a category
+ */
+const formatAccess = (category: ITicketCategory): discord.APIEmbedField[] => {
+    const formatRoles = (roleIds: string[]): string => roleIds.length > 0 ?
+        roleIds.map(roleId => `<@&${roleId}>`).join(", ").substring(0, 1024) :
+        "None";
+
+    const staffRoles = [
+        ...(category.supportRoleId ? [`<@&${category.supportRoleId}> · ${STAFF_LEVEL_LABELS.manage} (support role)`] : []),
+        ...(category.staffRoles ?? []).map(staffRole => `<@&${staffRole.roleId}> · ${STAFF_LEVEL_LABELS[staffRole.level]}`)
+    ];
+
+    return [
+        { name: "Staff Roles", value: staffRoles.length > 0 ? staffRoles.join("\n").substring(0, 1024) : "None" },
+        { name: "Allowed Roles", value: formatRoles(category.allowedRoleIds ?? []), inline: true },
+        { name: "Denied Roles", value: formatRoles(category.deniedRoleIds ?? []), inline: true }
+    ];
+};
+
+const configTicketAccess = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    try {
+        const categoryId = interaction.options.getString("category_id", true);
+        const category = await ticketRepo.getTicketCategory(categoryId);
+        if (!category) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Ticket category not found.")]
+            });
+            return;
+        }
+
+        const action = interaction.options.getString("action", true);
+        if (action === "list") {
+            await interaction.editReply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("🔧 Ticket Access Configuration")
+                        .setDescription(`Role access for category: ${category.emoji || "🎫"} **${category.name}**`)
+                        .addFields(formatAccess(category))
+                        .setColor("Blue")
+                        .setFooter({ text: "View only staff can read tickets, respond staff can also write and claim, manage staff can also close and add users" })
+                ]
+            });
+            return;
+        }
+
+        const role = interaction.options.getRole("role");
+        if (!role) {
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).error("Missing role.")
+                        .setDescription("Please provide the role to configure using the `role` option.")
+                ]
+            });
+            return;
+        }
+
+        if (role.id === category.supportRoleId) {
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).error(`${role} is the support role of this category.`)
+                        .setDescription("The support role always manages tickets. Change it with `/ticket config category action:Edit`.")
+                ]
+            });
+            return;
+        }
+
+        // A role is only kept in one of the lists, so changing its access replaces the previous entry
+        const staffRoles: ITicketStaffRole[] = (category.staffRoles ?? []).filter(staffRole => staffRole.roleId !== role.id);
+        const allowedRoleIds = (category.allowedRoleIds ?? []).filter(roleId => roleId !== role.id);
+        const deniedRoleIds = (category.deniedRoleIds ?? []).filter(roleId => roleId !== role.id);
+        let result: string;
+
+        switch (action) {
+            case "staff": {
+                const level = (interaction.options.getString("level") || "respond") as ITicketStaffLevel;
+                staffRoles.push({ roleId: role.id, level });
+                result = `${role} is now a staff role with the **${STAFF_LEVEL_LABELS[level]}** level.`;
+                break;
+            }
+
+            case "allow":
+                allowedRoleIds.push(role.id);
+                result = `${role} can now view and write in tickets of this category.`;
+                break;
+
+            case "deny":
+                deniedRoleIds.push(role.id);
+                result = `${role} is now denied access to tickets of this category.`;
+                break;
+
+            case "remove":
+                result = `${role} no longer has any configured access to this category.`;
+                break;
+
+            default:
+                await interaction.editReply({
+                    embeds: [new EmbedTemplate(client).error("Unknown action.")]
+                });
+                return;
+        }
+
+        const updatedCategory = await ticketRepo.updateTicketCategory(categoryId, {
+            staffRoles: staffRoles.length > 0 ? staffRoles : null,
+            allowedRoleIds,
+            deniedRoleIds
+        });
+        if (!updatedCategory) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Failed to update the ticket access.")]
+            });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [
+                new EmbedTemplate(client).success("Ticket access updated successfully!")
+                    .setDescription(`${result}\nChannel permissions apply to tickets created from now on.`)
+                    .addFields(formatAccess(updatedCategory))
+            ]
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_CONFIG] Error configuring ticket access: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while configuring the ticket access.")]
+        });
+    }
+};
@@ -1,6 +1,7 @@
 import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { sendTicketPanel } from "../../../utils/ticket_panel";
 
 export const deployTicket = async (
     interaction: discord.ChatInputCommandInteraction,
@@ -71,60 +72,7 @@ export const deployTicket = async (
             return;
         }
 
-        const ticketEmbed = new discord.EmbedBuilder()
-            .setTitle(buttonConfig.embedTitle || "Need Help?")
-            .setDescription(buttonConfig.embedDescription || "Click the button below to create a ticket")
-            .setColor((buttonConfig.embedColor || "#5865F2") as discord.ColorResolvable)
-            .setFooter({ text: "Powered by Salt Bot", iconURL: client.user?.displayAvatarURL() })
-            .setTimestamp();
-
-        const categories = await ticketRepo.getTicketCategories(interaction.guildId!);
-        if (categories.length > 0) {
-            const enabledCategories = categories.filter(cat => cat.isEnabled);
-            if (enabledCategories.length > 0) {
-                const categoryList = enabledCategories.map(cat =>
-                    `${cat.emoji || "🎫"} **${cat.name}** - ${cat.description || "No description"}`
-                ).join("\n");
-            }
-        }
-
-        let style = discord.ButtonStyle.Primary;
-        switch (buttonConfig.style?.toUpperCase()) {
-            case "SECONDARY":
-                style = discord.ButtonStyle.Secondary;
-                break;
-            case "SUCCESS":
-                style = discord.ButtonStyle.Success;
-                break;
-            case "DANGER":
-                style = discord.ButtonStyle.Danger;
-                break;
-        }
-
-        const buttonRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
-            .addComponents(
-                new discord.ButtonBuilder()
-                    .setCustomId("create_ticket")
-                    .setLabel(buttonConfig.label || "Create Ticket")
-                    .setEmoji(buttonConfig.emoji || "🎫")
-                    .setStyle(style)
-            );
-
-        const panelMessage = await targetChannel.send({
-            embeds: [ticketEmbed],
-            components: [buttonRow]
-        });
-
-        await ticketRepo.configureTicketButton(interaction.guildId!, {
-            messageId: panelMessage.id,
-            channelId: targetChannel.id
-        });
-
-        if (categories.length > 1) {
-            await ticketRepo.configureSelectMenu(interaction.guildId!, {
-                messageId: panelMessage.id
-            });
-        }
+        await sendTicketPanel(targetChannel, buttonConfig);
 
         await interaction.editReply({
             embeds: [
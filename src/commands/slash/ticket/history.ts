@@ -0,0 +1,19 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { sendTicketHistory } from "../../../utils/ticket_history";
+
+export const historyTicket = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client
+): Promise<void> => {
+    await interaction.deferReply({ flags: discord.MessageFlags.Ephemeral });
+
+    try {
+        await sendTicketHistory(interaction, client, interaction.options.getUser("user", true));
+    } catch (error) {
+        client.logger.error(`[TICKET_HISTORY] Error showing ticket history: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while loading the ticket history.")]
+        });
+    }
+};
@@ -4,12 +4,22 @@ import { deployTicket } from "./deploy";
 import { reopenTicket } from "./reopen";
 import { closeTicket } from "./close";
 import { configTicket } from "./config";
+import { statsTicket } from "./stats";
+import { noteTicket } from "./note";
+import { tagTicket } from "./tag";
+import { panelTicket } from "./panel";
+import { searchTicket } from "./search";
+import { historyTicket } from "./history";
 import { infoTicket } from "./info";
 import { transcriptTicket } from "./transcript";
 import { addUserToTicket } from "./add";
 import { removeUserFromTicket } from "./remove";
 import { claimTicket } from "./claim";
+import { unclaimTicket } from "./unclaim";
+import { transferTicketClaim } from "./transfer_claim";
 import { transferTicketOwner } from "./transfer_owner";
+import { priorityTicket } from "./priority";
+import { queueTicket } from "./queue";
 
 const ticketCommand: SlashCommand = {
     cooldown: 5,
@@ -149,6 +159,179 @@ const ticketCommand: SlashCommand = {
                                 .setDescription("Whether to ping the support team when tickets are created")
                                 .setRequired(false))
                 )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("sla")
+                        .setDescription("Configure response and claim SLAs for a ticket category")
+                        .addStringOption(option =>
+                            option.setName("category_id")
+                                .setDescription("ID of the category to configure SLAs for")
+                                .setRequired(true))
+                        .addIntegerOption(option =>
+                            option.setName("first_response")
+                                .setDescription("Minutes until the first staff response is due (0 to disable)")
+                                .setMinValue(0)
+                                .setMaxValue(10080)
+                                .setRequired(false))
+                        .addIntegerOption(option =>
+                            option.setName("claim")
+                                .setDescription("Minutes until the ticket must be claimed (0 to disable)")
+                                .setMinValue(0)
+                                .setMaxValue(10080)
+                                .setRequired(false))
+                        .addRoleOption(option =>
+                            option.setName("escalation_role")
+                                .setDescription("Role pinged when an SLA is breached (defaults to the support role)")
+                                .setRequired(false))
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("inactivity")
+                        .setDescription("Configure automatic closing of inactive tickets for a category")
+                        .addStringOption(option =>
+                            option.setName("category_id")
+                                .setDescription("ID of the category to configure the inactivity policy for")
+                                .setRequired(true))
+                        .addIntegerOption(option =>
+                            option.setName("hours")
+                                .setDescription("Hours without a message from the creator before warning (0 to disable)")
+                                .setMinValue(0)
+                                .setMaxValue(720)
+                                .setRequired(false))
+                        .addIntegerOption(option =>
+                            option.setName("grace_hours")
+                                .setDescription("Hours after the warning before the ticket is closed (default 24)")
+                                .setMinValue(1)
+                                .setMaxValue(720)
+                                .setRequired(false))
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("form")
+                        .setDescription("Configure the questions asked before a ticket is created")
+                        .addStringOption(option =>
+                            option.setName("category_id")
+                                .setDescription("ID of the category to configure the form for")
+                                .setRequired(true))
+                        .addStringOption(option =>
+                            option.setName("action")
+                                .setDescription("Action to perform")
+                                .setRequired(true)
+                                .addChoices(
+                                    { name: "Add Question", value: "add" },
+                                    { name: "Remove Question", value: "remove" },
+                                    { name: "List Questions", value: "list" },
+                                    { name: "Clear Form", value: "clear" }
+                                ))
+                        .addStringOption(option =>
+                            option.setName("question")
+                                .setDescription("Question to ask (required for add)")
+                                .setMaxLength(45)
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("style")
+                                .setDescription("Answer style (defaults to short)")
+                                .setRequired(false)
+                                .addChoices(
+                                    { name: "Short", value: "short" },
+                                    { name: "Paragraph", value: "paragraph" }
+                                ))
+                        .addBooleanOption(option =>
+                            option.setName("required")
+                                .setDescription("Whether an answer is required (defaults to true)")
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("placeholder")
+                                .setDescription("Placeholder text shown in the answer field")
+                                .setMaxLength(100)
+                                .setRequired(false))
+                        .addIntegerOption(option =>
+                            option.setName("number")
+                                .setDescription("Number of the question to remove (required for remove)")
+                                .setMinValue(1)
+                                .setMaxValue(5)
+                                .setRequired(false))
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("limits")
+                        .setDescription("Configure open-ticket limits and creation cooldowns")
+                        .addIntegerOption(option =>
+                            option.setName("max_open")
+                                .setDescription("Max open tickets per user (0 = no limit, or server limit for a category)")
+                                .setMinValue(0)
+                                .setMaxValue(25)
+                                .setRequired(false))
+                        .addIntegerOption(option =>
+                            option.setName("cooldown")
+                                .setDescription("Minutes between ticket creations (0 = none, or server cooldown for a category)")
+                                .setMinValue(0)
+                                .setMaxValue(10080)
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("category_id")
+                                .setDescription("Apply the limits to this category only")
+                                .setRequired(false))
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("mode")
+                        .setDescription("Create a category's tickets as channels or private threads")
+                        .addStringOption(option =>
+                            option.setName("category_id")
+                                .setDescription("ID of the category to configure")
+                                .setRequired(true))
+                        .addStringOption(option =>
+                            option.setName("mode")
+                                .setDescription("Ticket mode")
+                                .setRequired(false)
+                                .addChoices(
+                                    { name: "Channel", value: "channel" },
+                                    { name: "Thread", value: "thread" }
+                                ))
+                        .addChannelOption(option =>
+                            option.setName("thread_channel")
+                                .setDescription("Channel to create ticket threads in")
+                                .addChannelTypes(discord.ChannelType.GuildText)
+                                .setRequired(false))
+                        .addBooleanOption(option =>
+                            option.setName("claim_only")
+                                .setDescription("Only the claimer and creator can write in claimed tickets (channel mode only)")
+                                .setRequired(false))
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("access")
+                        .setDescription("Configure the staff, allowed and denied roles of a category")
+                        .addStringOption(option =>
+                            option.setName("category_id")
+                                .setDescription("ID of the category to configure")
+                                .setRequired(true))
+                        .addStringOption(option =>
+                            option.setName("action")
+                                .setDescription("Action to perform")
+                                .setRequired(true)
+                                .addChoices(
+                                    { name: "Set Staff Role", value: "staff" },
+                                    { name: "Allow Role", value: "allow" },
+                                    { name: "Deny Role", value: "deny" },
+                                    { name: "Remove Role", value: "remove" },
+                                    { name: "List Access", value: "list" }
+                                ))
+                        .addRoleOption(option =>
+                            option.setName("role")
+                                .setDescription("Role to configure (required except for list)")
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("level")
+                                .setDescription("Staff level of the role (defaults to respond)")
+                                .setRequired(false)
+                                .addChoices(
+                                    { name: "View Only", value: "view" },
+                                    { name: "Respond", value: "respond" },
+                                    { name: "Manage & Close", value: "manage" }
+                                ))
+                )
                 .addSubcommand(subcommand =>
                     subcommand
                         .setName("transcript")
@@ -160,6 +343,203 @@ const ticketCommand: SlashCommand = {
                                 .setRequired(false))
                 )
         )
+        .addSubcommandGroup(group =>
+            group
+                .setName("panel")
+                .setDescription("Manage additional ticket panels")
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("list")
+                        .setDescription("List the ticket panels of this server")
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("create")
+                        .setDescription("Create a ticket panel with its own look and categories")
+                        .addStringOption(option =>
+                            option.setName("name")
+                                .setDescription("Unique name of the panel")
+                                .setMaxLength(32)
+                                .setRequired(true))
+                        .addStringOption(option =>
+                            option.setName("categories")
+                                .setDescription("Comma-separated category IDs to offer, or \"all\"")
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("title")
+                                .setDescription("Title of the panel embed")
+                                .setMaxLength(256)
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("description")
+                                .setDescription("Description of the panel embed")
+                                .setMaxLength(4000)
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("color")
+                                .setDescription("Embed color (hex code)")
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("label")
+                                .setDescription("Button label")
+                                .setMaxLength(80)
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("emoji")
+                                .setDescription("Button emoji")
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("style")
+                                .setDescription("Button style")
+                                .setRequired(false)
+                                .addChoices(
+                                    { name: "Primary (Blue)", value: "PRIMARY" },
+                                    { name: "Secondary (Grey)", value: "SECONDARY" },
+                                    { name: "Success (Green)", value: "SUCCESS" },
+                                    { name: "Danger (Red)", value: "DANGER" }
+                                ))
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("edit")
+                        .setDescription("View or update a ticket panel")
+                        .addStringOption(option =>
+                            option.setName("name")
+                                .setDescription("Name of the panel")
+                                .setMaxLength(32)
+                                .setRequired(true))
+                        .addStringOption(option =>
+                            option.setName("categories")
+                                .setDescription("Comma-separated category IDs to offer, or \"all\"")
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("title")
+                                .setDescription("Title of the panel embed")
+                                .setMaxLength(256)
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("description")
+                                .setDescription("Description of the panel embed")
+                                .setMaxLength(4000)
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("color")
+                                .setDescription("Embed color (hex code)")
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("label")
+                                .setDescription("Button label")
+                                .setMaxLength(80)
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("emoji")
+                                .setDescription("Button emoji")
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("style")
+                                .setDescription("Button style")
+                                .setRequired(false)
+                                .addChoices(
+                                    { name: "Primary (Blue)", value: "PRIMARY" },
+                                    { name: "Secondary (Grey)", value: "SECONDARY" },
+                                    { name: "Success (Green)", value: "SUCCESS" },
+                                    { name: "Danger (Red)", value: "DANGER" }
+                                ))
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("deploy")
+                        .setDescription("Post a ticket panel in a channel")
+                        .addStringOption(option =>
+                            option.setName("name")
+                                .setDescription("Name of the panel")
+                                .setMaxLength(32)
+                                .setRequired(true))
+                        .addChannelOption(option =>
+                            option.setName("channel")
+                                .setDescription("Channel to post the panel in")
+                                .addChannelTypes(discord.ChannelType.GuildText)
+                                .setRequired(true))
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("delete")
+                        .setDescription("Delete a ticket panel and its posted message")
+                        .addStringOption(option =>
+                            option.setName("name")
+                                .setDescription("Name of the panel")
+                                .setMaxLength(32)
+                                .setRequired(true))
+                )
+        )
+        .addSubcommandGroup(group =>
+            group
+                .setName("stats")
+                .setDescription("View ticket system statistics")
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("overview")
+                        .setDescription("Show ticket activity for the last 30 days with a CSV export")
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("staff")
+                        .setDescription("Show ticket volume and average rating per staff member")
+                        .addStringOption(option =>
+                            option.setName("from")
+                                .setDescription("Start date (YYYY-MM-DD), defaults to 30 days ago")
+                                .setRequired(false))
+                        .addStringOption(option =>
+                            option.setName("to")
+                                .setDescription("End date (YYYY-MM-DD), defaults to today")
+                                .setRequired(false))
+                )
+        )
+        .addSubcommandGroup(group =>
+            group
+                .setName("note")
+                .setDescription("Internal staff notes on the current ticket")
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("add")
+                        .setDescription("Add a note only the support team can see")
+                        .addStringOption(option =>
+                            option.setName("text")
+                                .setDescription("Note text")
+                                .setMaxLength(500)
+                                .setRequired(true))
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("list")
+                        .setDescription("List the notes on this ticket")
+                )
+        )
+        .addSubcommandGroup(group =>
+            group
+                .setName("tag")
+                .setDescription("Tag the current ticket")
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("add")
+                        .setDescription("Add a tag to this ticket")
+                        .addStringOption(option =>
+                            option.setName("tag")
+                                .setDescription("Tag name")
+                                .setMaxLength(32)
+                                .setRequired(true))
+                )
+                .addSubcommand(subcommand =>
+                    subcommand
+                        .setName("remove")
+                        .setDescription("Remove a tag from this ticket")
+                        .addStringOption(option =>
+                            option.setName("tag")
+                                .setDescription("Tag name")
+                                .setMaxLength(32)
+                                .setRequired(true))
+                )
+        )
         .addSubcommand(subcommand =>
             subcommand
                 .setName("info")
@@ -168,11 +548,16 @@ const ticketCommand: SlashCommand = {
         .addSubcommand(subcommand =>
             subcommand
                 .setName("transcript")
-                .setDescription("Generate a transcript of the current ticket")
+                .setDescription("Generate a transcript of the current ticket or fetch an archived one")
                 .addUserOption(option =>
                     option.setName("user")
                         .setDescription("Send the transcript to this user (optional)")
                         .setRequired(false))
+                .addIntegerOption(option =>
+                    option.setName("number")
+                        .setDescription("Fetch the transcript of this ticket number")
+                        .setMinValue(1)
+                        .setRequired(false))
         )
         .addSubcommand(subcommand =>
             subcommand
@@ -197,6 +582,20 @@ const ticketCommand: SlashCommand = {
                 .setName("claim")
                 .setDescription("Claim the current ticket as a support agent")
         )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("unclaim")
+                .setDescription("Release your claim on the current ticket")
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("transfer_claim")
+                .setDescription("Hand the claim of this ticket to another staff member")
+                .addUserOption(option =>
+                    option.setName("user")
+                        .setDescription("Staff member to take over the ticket")
+                        .setRequired(true))
+        )
         .addSubcommand(subcommand =>
             subcommand
                 .setName("transfer_owner")
@@ -205,6 +604,74 @@ const ticketCommand: SlashCommand = {
                     option.setName("user")
                         .setDescription("The user to transfer ticket ownership to")
                         .setRequired(true))
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("priority")
+                .setDescription("Set the priority of the current ticket")
+                .addStringOption(option =>
+                    option.setName("level")
+                        .setDescription("Priority level")
+                        .setRequired(true)
+                        .addChoices(
+                            { name: "Low", value: "low" },
+                            { name: "Normal", value: "normal" },
+                            { name: "High", value: "high" },
+                            { name: "Urgent", value: "urgent" }
+                        ))
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("queue")
+                .setDescription("List unclaimed open tickets by priority and age")
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("search")
+                .setDescription("Search past and current tickets")
+                .addUserOption(option =>
+                    option.setName("user")
+                        .setDescription("Ticket creator")
+                        .setRequired(false))
+                .addUserOption(option =>
+                    option.setName("claimer")
+                        .setDescription("Staff member who claimed the ticket")
+                        .setRequired(false))
+                .addStringOption(option =>
+                    option.setName("category_id")
+                        .setDescription("Ticket category ID")
+                        .setRequired(false))
+                .addStringOption(option =>
+                    option.setName("tag")
+                        .setDescription("Ticket tag")
+                        .setMaxLength(32)
+                        .setRequired(false))
+                .addStringOption(option =>
+                    option.setName("status")
+                        .setDescription("Ticket status")
+                        .setRequired(false)
+                        .addChoices(
+                            { name: "Open", value: "open" },
+                            { name: "Closed", value: "closed" },
+                            { name: "Archived", value: "archived" }
+                        ))
+                .addStringOption(option =>
+                    option.setName("from")
+                        .setDescription("Opened on or after (YYYY-MM-DD)")
+                        .setRequired(false))
+                .addStringOption(option =>
+                    option.setName("to")
+                        .setDescription("Opened on or before (YYYY-MM-DD)")
+                        .setRequired(false))
+        )
+        .addSubcommand(subcommand =>
+            subcommand
+                .setName("history")
+                .setDescription("List the previous tickets of a user")
+                .addUserOption(option =>
+                    option.setName("user")
+                        .setDescription("User to show the history of")
+                        .setRequired(true))
         ),
 
     execute: async (
@@ -230,6 +697,14 @@ const ticketCommand: SlashCommand = {
 
             if (subcommandGroup === "config") {
                 await configTicket(interaction, client, subcommand);
+            } else if (subcommandGroup === "stats") {
+                await statsTicket(interaction, client, subcommand);
+            } else if (subcommandGroup === "note") {
+                await noteTicket(interaction, client, subcommand);
+            } else if (subcommandGroup === "tag") {
+                await tagTicket(interaction, client, subcommand);
+            } else if (subcommandGroup === "panel") {
+                await panelTicket(interaction, client, subcommand);
             } else {
                 switch (subcommand) {
                     case "close":
@@ -256,9 +731,27 @@ const ticketCommand: SlashCommand = {
                     case "claim":
                         await claimTicket(interaction, client);
                         break;
+                    case "unclaim":
+                        await unclaimTicket(interaction, client);
+                        break;
+                    case "transfer_claim":
+                        await transferTicketClaim(interaction, client);
+                        break;
                     case "transfer_owner":
                         await transferTicketOwner(interaction, client);
                         break;
+                    case "priority":
+                        await priorityTicket(interaction, client);
+                        break;
+                    case "queue":
+                        await queueTicket(interaction, client);
+                        break;
+                    case "search":
+                        await searchTicket(interaction, client);
+                        break;
+                    case "history":
+                        await historyTicket(interaction, client);
+                        break;
                     default:
                         await interaction.reply({
                             embeds: [
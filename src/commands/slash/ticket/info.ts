@@ -1,6 +1,8 @@
 import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { TICKET_PRIORITIES } from "../../../utils/ticket_utils";
+import { ITicketChannel } from "../../../types";
 
 export const infoTicket = async (
     interaction: discord.ChatInputCommandInteraction,
@@ -53,7 +55,8 @@ export const infoTicket = async (
             .addFields(
                 { name: "Status", value: ticket.status === "open" ? "🟢 Open" : (ticket.status === "closed" ? "🔴 Closed" : "🔵 Archived"), inline: true },
                 { name: "Created By", value: creator ? `${creator} (${creator.tag})` : `Unknown User (${ticket.creatorId})`, inline: true },
-                { name: "Created At", value: `<t:${creationTimestamp}:F>`, inline: true }
+                { name: "Created At", value: `<t:${creationTimestamp}:F>`, inline: true },
+                { name: "Priority", value: `${TICKET_PRIORITIES[ticket.priority].emoji} ${TICKET_PRIORITIES[ticket.priority].label}`, inline: true }
             )
             .setColor(ticket.status === "open" ? (ticket.claimedById ? "Blue" : "Green") : (ticket.status === "closed" ? "Red" : "Blue"))
             .setFooter({ text: `Ticket ID: ${ticket.id}` })
@@ -66,6 +69,10 @@ export const infoTicket = async (
             );
         }
 
+        if (ticket.tags?.length) {
+            embed.addFields({ name: "Tags", value: ticket.tags.map(tag => `\`${tag}\``).join(" "), inline: false });
+        }
+
         if (ticket.status !== "open" && closer) {
             embed.addFields(
                 { name: "Closed By", value: `${closer} (${closer.tag})`, inline: true },
@@ -74,6 +81,19 @@ export const infoTicket = async (
             );
         }
 
+        const slaStatus = (minutes: number | null | undefined, metAt: Date | null | undefined, breachedAt: Date | null | undefined): string | null => {
+            if (breachedAt) return `🔴 Breached <t:${Math.floor(new Date(breachedAt).getTime() / 1000)}:R>`;
+            if (!minutes) return null;
+            if (metAt) return "🟢 Met";
+            if (ticket.status !== "open") return null;
+            return `🟡 Due <t:${Math.floor((creationTime.getTime() + minutes * 60000) / 1000)}:R>`;
+        };
+
+        const responseSla = slaStatus(category.slaFirstResponseMinutes, ticket.firstResponseAt, ticket.slaResponseBreachedAt);
+        const claimSla = slaStatus(category.slaClaimMinutes, ticket.firstClaimedAt ?? ticket.claimedAt, ticket.slaClaimBreachedAt);
+        if (responseSla) embed.addFields({ name: "Response SLA", value: responseSla, inline: true });
+        if (claimSla) embed.addFields({ name: "Claim SLA", value: claimSla, inline: true });
+
         if (category.supportRoleId) {
             embed.addFields({
                 name: "Support Role",
@@ -82,8 +102,14 @@ export const infoTicket = async (
             });
         }
 
-        const channel = interaction.channel as discord.TextChannel;
-        if (channel.parent) {
+        const channel = interaction.channel as ITicketChannel;
+        if (channel.isThread()) {
+            embed.addFields({
+                name: "Thread Channel",
+                value: `<#${channel.parentId}>`,
+                inline: true
+            });
+        } else if (channel.parent) {
             embed.addFields({
                 name: "Channel Category",
                 value: channel.parent.name,
@@ -0,0 +1,94 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { isTicketStaff } from "../../../utils/ticket_permissions";
+
+const MAX_LISTED_NOTES = 8;
+
+export const noteTicket = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    subcommand: string
+): Promise<void> => {
+    await interaction.deferReply({ flags: discord.MessageFlags.Ephemeral });
+
+    try {
+        const ticketRepo = new TicketRepository((client as any).dataSource);
+        const ticket = await ticketRepo.getTicketByChannelId(interaction.channelId);
+
+        if (!ticket) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("This command can only be used in a ticket channel.")]
+            });
+            return;
+        }
+
+        if (!isTicketStaff(interaction.member as discord.GuildMember, ticket.category)) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Only the support team can use ticket notes.")]
+            });
+            return;
+        }
+
+        switch (subcommand) {
+            case "add": {
+                const content = interaction.options.getString("text", true).trim();
+                const note = await ticketRepo.addTicketNote(ticket.id, interaction.user.id, content);
+
+                if (!note) {
+                    await interaction.editReply({
+                        embeds: [new EmbedTemplate(client).error("Failed to save the note. Database operation failed.")]
+                    });
+                    return;
+                }
+
+                await interaction.editReply({
+                    embeds: [
+                        new EmbedTemplate(client).success("Note added to the ticket.")
+                            .setDescription(`Note added to ticket #${ticket.ticketNumber}. It is only visible to the support team and the log channel transcript.\n\n> ${content}`)
+                    ]
+                });
+
+                client.logger.info(`[TICKET_NOTE] ${interaction.user.tag} added a note to ticket #${ticket.ticketNumber}`);
+                break;
+            }
+            case "list": {
+                const notes = await ticketRepo.getTicketNotes(ticket.id);
+
+                if (notes.length === 0) {
+                    await interaction.editReply({
+                        embeds: [new EmbedTemplate(client).info(`Ticket #${ticket.ticketNumber} has no notes yet. Use \`/ticket note add\` to add one.`)]
+                    });
+                    return;
+                }
+
+                const listedNotes = notes.slice(-MAX_LISTED_NOTES);
+                const embed = new discord.EmbedBuilder()
+                    .setTitle(`🗒️ Staff Notes | Ticket #${ticket.ticketNumber}`)
+                    .addFields(listedNotes.map((note, index) => ({
+                        name: `Note ${notes.length - listedNotes.length + index + 1}`,
+                        value: `${note.content}\n— <@${note.authorId}> <t:${Math.floor(new Date(note.createdAt).getTime() / 1000)}:R>`
+                    })))
+                    .setColor("Blue")
+                    .setFooter({
+                        text: notes.length > MAX_LISTED_NOTES ?
+                            `Showing the latest ${MAX_LISTED_NOTES} of ${notes.length} notes` :
+                            `${notes.length} note${notes.length === 1 ? "" : "s"}`
+                    })
+                    .setTimestamp();
+
+                await interaction.editReply({ embeds: [embed] });
+                break;
+            }
+            default:
+                await interaction.editReply({
+                    embeds: [new EmbedTemplate(client).error("Unknown note subcommand.")]
+                });
+        }
+    } catch (error) {
+        client.logger.error(`[TICKET_NOTE] Error handling ticket note: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while handling the ticket note.")]
+        });
+    }
+};
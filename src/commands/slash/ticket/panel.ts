@@ -0,0 +1,312 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { fetchCustomPanelMessage, refreshCustomTicketPanel, sendCustomTicketPanel } from "../../../utils/ticket_panel";
+import { ITicketCategory, ITicketPanel } from "../../../types";
+
+const COLOR_REGEX = /^#?([A-Fa-f0-9]{6}|[A-Fa-f0-9]{3})$/;
+
+/**
+ * Describes the categories a panel offers
+ */
+const formatPanelCategories = (panel: ITicketPanel, categories: ITicketCategory[]): string => {
+    if (panel.categoryIds.length === 0) return "All categories";
+
+    const names = panel.categoryIds.map(categoryId => {
+        const category = categories.find(entry => entry.id === categoryId);
+        return category ? `${category.emoji || "🎫"} ${category.name}` : "Deleted category";
+    });
+    return names.join("\n").substring(0, 1024);
+};
+
+/**
+ * Builds the embed fields describing a panel
+ */
+const formatPanel = (panel: ITicketPanel, categories: ITicketCategory[]): discord.APIEmbedField[] => [
+    { name: "Button", value: `${panel.emoji} ${panel.label} (${panel.style})`, inline: true },
+    { name: "Deployed In", value: panel.channelId ? `<#${panel.channelId}>` : "Not deployed", inline: true },
+    { name: "Embed Title", value: panel.embedTitle || "Need Help?", inline: true },
+    { name: "Categories", value: formatPanelCategories(panel, categories) }
+];
+
+/**
+ * Reads the appearance and category options shared by the create and edit subcommands
+ * @returns The panel data to store, or an error message if an option is invalid
+ */
+const readPanelOptions = (
+    interaction: discord.ChatInputCommandInteraction,
+    categories: ITicketCategory[]
+): Partial<ITicketPanel> | string => {
+    const data: Partial<ITicketPanel> = {};
+
+    const label = interaction.options.getString("label");
+    const emoji = interaction.options.getString("emoji");
+    const style = interaction.options.getString("style");
+    const title = interaction.options.getString("title");
+    const description = interaction.options.getString("description");
+    const color = interaction.options.getString("color");
+    const categoryOption = interaction.options.getString("categories");
+
+    if (label) data.label = label;
+    if (emoji) data.emoji = emoji;
+    if (style) data.style = style;
+    if (title) data.embedTitle = title;
+    if (description) data.embedDescription = description;
+
+    if (color) {
+        if (!COLOR_REGEX.test(color)) {
+            return "Please provide a valid hex color code (e.g., #FF5733).";
+        }
+        data.embedColor = color.startsWith('#') ? color : `#${color}`;
+    }
+
+    if (categoryOption !== null) {
+        const categoryIds = [...new Set(categoryOption.split(/[\s,]+/).filter(Boolean))];
+        if (categoryIds.length === 1 && categoryIds[0].toLowerCase() === "all") {
+            data.categoryIds = [];
+        } else {
+            const unknownIds = categoryIds.filter(categoryId => !categories.some(category => category.id === categoryId));
+            if (categoryIds.length === 0 || unknownIds.length > 0) {
+                return `Unknown ticket category: ${unknownIds.map(categoryId => `\`${categoryId}\``).join(", ") || "none given"}. ` +
+                    "Use `/ticket config category action:List` to find category IDs, or `all` to offer every category.";
+            }
+            data.categoryIds = categoryIds;
+        }
+    }
+
+    return data;
+};
+
+export const panelTicket = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    subcommand: string
+): Promise<void> => {
+    await interaction.deferReply();
+
+    try {
+        if (!interaction.memberPermissions?.has(discord.PermissionFlagsBits.Administrator)) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("You need Administrator permission to manage ticket panels.")]
+            });
+            return;
+        }
+
+        const ticketRepo = new TicketRepository((client as any).dataSource);
+        const guildConfig = await ticketRepo.getGuildConfig(interaction.guildId!);
+        if (!guildConfig) {
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).error("Ticket system is not set up for this server.")
+                        .setDescription("Please use `/setup` to set up the ticket system first.")
+                ]
+            });
+            return;
+        }
+
+        const categories = await ticketRepo.getTicketCategories(interaction.guildId!);
+
+        if (subcommand === "list") {
+            const panels = await ticketRepo.getTicketPanels(interaction.guildId!);
+            if (panels.length === 0) {
+                await interaction.editReply({
+                    embeds: [
+                        new EmbedTemplate(client).info("No additional ticket panels found.")
+                            .setDescription("Use `/ticket panel create` to create one.")
+                    ]
+                });
+                return;
+            }
+
+            await interaction.editReply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("🎫 Ticket Panels")
+                        .addFields(panels.slice(0, 25).map(panel => ({
+                            name: panel.name,
+                            value: [
+                                `${panel.emoji} ${panel.label} · ${panel.channelId ? `<#${panel.channelId}>` : "Not deployed"}`,
+                                formatPanelCategories(panel, categories).replace(/\n/g, ", ")
+                            ].join("\n").substring(0, 1024)
+                        })))
+                        .setColor("Blue")
+                        .setTimestamp()
+                ]
+            });
+            return;
+        }
+
+        const name = interaction.options.getString("name", true).trim();
+
+        if (subcommand === "create") {
+            if (await ticketRepo.getTicketPanelByName(interaction.guildId!, name)) {
+                await interaction.editReply({
+                    embeds: [new EmbedTemplate(client).error(`A ticket panel named **${name}** already exists.`)]
+                });
+                return;
+            }
+
+            const data = readPanelOptions(interaction, categories);
+            if (typeof data === "string") {
+                await interaction.editReply({ embeds: [new EmbedTemplate(client).error(data)] });
+                return;
+            }
+
+            const panel = await ticketRepo.createTicketPanel(interaction.guildId!, {
+                name,
+                label: data.label,
+                emoji: data.emoji,
+                style: data.style,
+                embedTitle: data.embedTitle,
+                embedDescription: data.embedDescription,
+                embedColor: data.embedColor,
+                categoryIds: data.categoryIds
+            });
+            if (!panel) {
+                await interaction.editReply({
+                    embeds: [new EmbedTemplate(client).error("Failed to create the ticket panel.")]
+                });
+                return;
+            }
+
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).success(`Ticket panel **${panel.name}** created!`)
+                        .setDescription(`Use \`/ticket panel deploy name:${panel.name}\` to post it in a channel.`)
+                        .addFields(formatPanel(panel, categories))
+                ]
+            });
+            return;
+        }
+
+        const panel = await ticketRepo.getTicketPanelByName(interaction.guildId!, name);
+        if (!panel) {
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).error(`Ticket panel **${name}** not found.`)
+                        .setDescription("Use `/ticket panel list` to see the panels of this server.")
+                ]
+            });
+            return;
+        }
+
+        switch (subcommand) {
+            case "edit": {
+                const data = readPanelOptions(interaction, categories);
+                if (typeof data === "string") {
+                    await interaction.editReply({ embeds: [new EmbedTemplate(client).error(data)] });
+                    return;
+                }
+
+                if (Object.keys(data).length === 0) {
+                    await interaction.editReply({
+                        embeds: [
+                            new discord.EmbedBuilder()
+                                .setTitle(`🔧 Ticket Panel: ${panel.name}`)
+                                .addFields(formatPanel(panel, categories))
+                                .setColor("Blue")
+                                .setFooter({ text: "Use the options to update these settings" })
+                        ]
+                    });
+                    return;
+                }
+
+                const updatedPanel = await ticketRepo.updateTicketPanel(panel.id, data);
+                if (!updatedPanel) {
+                    await interaction.editReply({
+                        embeds: [new EmbedTemplate(client).error("Failed to update the ticket panel.")]
+                    });
+                    return;
+                }
+
+                const refreshed = await refreshCustomTicketPanel(updatedPanel);
+                await interaction.editReply({
+                    embeds: [
+                        new EmbedTemplate(client).success(`Ticket panel **${updatedPanel.name}** updated!`)
+                            .setDescription(refreshed ?
+                                "The deployed panel has been updated." :
+                                "The panel is not deployed. Use `/ticket panel deploy` to post it.")
+                            .addFields(formatPanel(updatedPanel, categories))
+                    ]
+                });
+                break;
+            }
+
+            case "deploy": {
+                if (!guildConfig.isEnabled) {
+                    await interaction.editReply({
+                        embeds: [
+                            new EmbedTemplate(client).error("Ticket system is currently disabled.")
+                                .setDescription("Please enable the ticket system before deploying the panel.")
+                        ]
+                    });
+                    return;
+                }
+
+                const targetChannel = interaction.options.getChannel("channel", true);
+                if (!(targetChannel instanceof discord.TextChannel)) {
+                    await interaction.editReply({
+                        embeds: [new EmbedTemplate(client).error("Please specify a valid text channel.")]
+                    });
+                    return;
+                }
+
+                const botMember = await interaction.guild!.members.fetchMe();
+                if (!targetChannel.permissionsFor(botMember).has([
+                    discord.PermissionFlagsBits.SendMessages,
+                    discord.PermissionFlagsBits.EmbedLinks,
+                    discord.PermissionFlagsBits.ViewChannel
+                ])) {
+                    await interaction.editReply({
+                        embeds: [
+                            new EmbedTemplate(client).error("I don't have permissions to send messages in that channel.")
+                                .setDescription("Please make sure I have the following permissions in the target channel:\n• View Channel\n• Send Messages\n• Embed Links")
+                        ]
+                    });
+                    return;
+                }
+
+                const previousMessage = await fetchCustomPanelMessage(panel);
+                await sendCustomTicketPanel(targetChannel, panel);
+                await previousMessage?.delete().catch(() => { });
+
+                await interaction.editReply({
+                    embeds: [
+                        new EmbedTemplate(client).success(`Ticket panel **${panel.name}** deployed successfully!`)
+                            .setDescription(`The ticket panel has been deployed to ${targetChannel}.` +
+                                (previousMessage ? " The previously posted panel was removed." : ""))
+                    ]
+                });
+                break;
+            }
+
+            case "delete": {
+                const panelMessage = await fetchCustomPanelMessage(panel);
+                const deleted = await ticketRepo.deleteTicketPanel(panel.id);
+                if (!deleted) {
+                    await interaction.editReply({
+                        embeds: [new EmbedTemplate(client).error("Failed to delete the ticket panel.")]
+                    });
+                    return;
+                }
+
+                await panelMessage?.delete().catch(() => { });
+
+                await interaction.editReply({
+                    embeds: [new EmbedTemplate(client).success(`Ticket panel **${panel.name}** deleted.`)]
+                });
+                break;
+            }
+
+            default:
+                await interaction.editReply({
+                    embeds: [new EmbedTemplate(client).error("Unknown panel subcommand.")]
+                });
+        }
+    } catch (error) {
+        client.logger.error(`[TICKET_PANEL] Error managing ticket panels: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while managing the ticket panels.")]
+        });
+    }
+};
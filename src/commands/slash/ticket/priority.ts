@@ -0,0 +1,67 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { ITicketStatus } from "../../../events/database/entities/ticket_system";
+import { setTicketPriority, TICKET_PRIORITIES } from "../../../utils/ticket_utils";
+import { isTicketStaff } from "../../../utils/ticket_permissions";
+import { ITicketChannel, ITicketPriority } from "../../../types";
+
+export const priorityTicket = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client
+): Promise<void> => {
+    await interaction.deferReply();
+
+    try {
+        const ticketRepo = new TicketRepository((client as any).dataSource);
+        const ticket = await ticketRepo.getTicketByChannelId(interaction.channelId);
+
+        if (!ticket) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("This command can only be used in a ticket channel.")]
+            });
+            return;
+        }
+
+        if (!isTicketStaff(interaction.member as discord.GuildMember, ticket.category)) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Only the support team can change the priority of a ticket.")]
+            });
+            return;
+        }
+
+        if (ticket.status !== ITicketStatus.OPEN) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Priority can only be changed on open tickets.")]
+            });
+            return;
+        }
+
+        const priority = interaction.options.getString("level", true) as ITicketPriority;
+        const { label, emoji } = TICKET_PRIORITIES[priority];
+
+        if (ticket.priority === priority) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).warning(`This ticket already has ${emoji} ${label} priority.`)]
+            });
+            return;
+        }
+
+        const updatedTicket = await setTicketPriority(ticket, interaction.channel as ITicketChannel, priority, interaction.user);
+        if (!updatedTicket) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Failed to update the ticket priority. Database operation failed.")]
+            });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).success(`Ticket priority set to ${emoji} ${label}.`)]
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_PRIORITY] Error changing ticket priority: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while changing the ticket priority.")]
+        });
+    }
+};
@@ -0,0 +1,62 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { TICKET_PRIORITIES } from "../../../utils/ticket_utils";
+import { isTicketStaff } from "../../../utils/ticket_permissions";
+
+const MAX_QUEUE_ENTRIES = 15;
+
+export const queueTicket = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client
+): Promise<void> => {
+    await interaction.deferReply({ flags: discord.MessageFlags.Ephemeral });
+
+    try {
+        const ticketRepo = new TicketRepository((client as any).dataSource);
+        const member = interaction.member as discord.GuildMember;
+
+        const categories = await ticketRepo.getTicketCategories(interaction.guildId!);
+        if (!categories.some(category => isTicketStaff(member, category))) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Only the support team can view the ticket queue.")]
+            });
+            return;
+        }
+
+        const queue = (await ticketRepo.getTicketQueue(interaction.guildId!))
+            .filter(ticket => isTicketStaff(member, ticket.category));
+
+        if (queue.length === 0) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).success("The queue is empty. Every open ticket has been claimed.")]
+            });
+            return;
+        }
+
+        const lines = queue.slice(0, MAX_QUEUE_ENTRIES).map((ticket, index) => {
+            const { emoji, label } = TICKET_PRIORITIES[ticket.priority];
+            const openedAt = Math.floor(new Date(ticket.createdAt).getTime() / 1000);
+            return `**${index + 1}.** ${emoji} **${label}** · [#${ticket.ticketNumber}](https://discord.com/channels/${interaction.guildId}/${ticket.channelId}) · ` +
+                `${ticket.category.emoji || "🎫"} ${ticket.category.name} · <@${ticket.creatorId}> · opened <t:${openedAt}:R>`;
+        });
+
+        const embed = new discord.EmbedBuilder()
+            .setTitle("📋 Ticket Queue")
+            .setDescription(lines.join("\n"))
+            .setColor(TICKET_PRIORITIES[queue[0].priority].color)
+            .setFooter({
+                text: queue.length > MAX_QUEUE_ENTRIES ?
+                    `Showing ${MAX_QUEUE_ENTRIES} of ${queue.length} unclaimed tickets` :
+                    `${queue.length} unclaimed ticket${queue.length === 1 ? "" : "s"}`
+            })
+            .setTimestamp();
+
+        await interaction.editReply({ embeds: [embed] });
+    } catch (error) {
+        client.logger.error(`[TICKET_QUEUE] Error loading ticket queue: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while loading the ticket queue.")]
+        });
+    }
+};
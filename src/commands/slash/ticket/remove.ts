@@ -1,6 +1,9 @@
 import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { hasTicketAccess, revokeTicketAccess } from "../../../utils/ticket_utils";
+import { hasTicketStaffLevel } from "../../../utils/ticket_permissions";
+import { ITicketChannel } from "../../../types";
 
 export const removeUserFromTicket = async (
     interaction: discord.ChatInputCommandInteraction,
@@ -20,12 +23,9 @@ export const removeUserFromTicket = async (
         }
 
         const member = interaction.member as discord.GuildMember;
-        const supportRoleId = ticket.category.supportRoleId;
-
         const hasPermission =
-            member.permissions.has(discord.PermissionFlagsBits.ManageChannels) ||
             interaction.user.id === ticket.creatorId ||
-            (supportRoleId && member.roles.cache.has(supportRoleId));
+            hasTicketStaffLevel(member, ticket.category, "manage");
 
         if (!hasPermission) {
             await interaction.editReply({
@@ -56,16 +56,15 @@ export const removeUserFromTicket = async (
             return;
         }
 
-        const channel = interaction.channel as discord.TextChannel;
-        const permissions = channel.permissionsFor(userToRemove.id);
-        if (!permissions?.has(discord.PermissionFlagsBits.ViewChannel)) {
+        const channel = interaction.channel as ITicketChannel;
+        if (!(await hasTicketAccess(channel, userToRemove.id))) {
             await interaction.editReply({
                 embeds: [new EmbedTemplate(client).warning(`${userToRemove} doesn't have access to this ticket.`)]
             });
             return;
         }
 
-        await channel.permissionOverwrites.delete(userToRemove.id);
+        await revokeTicketAccess(channel, userToRemove.id);
         await interaction.editReply({
             embeds: [new EmbedTemplate(client).success(`${userToRemove} has been removed from the ticket.`)]
         });
@@ -2,6 +2,8 @@ import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
 import { ITicketStatus } from "../../../events/database/entities/ticket_system";
+import { unlockTicketChannel } from "../../../utils/ticket_utils";
+import { ITicketChannel } from "../../../types";
 
 export const reopenTicket = async (
     interaction: discord.ChatInputCommandInteraction,
@@ -32,7 +34,7 @@ export const reopenTicket = async (
             ITicketStatus.OPEN
         );
 
-        const channel = interaction.channel as discord.TextChannel;
+        const channel = interaction.channel as ITicketChannel;
 
         const reopenEmbed = new discord.EmbedBuilder()
             .setTitle("Ticket Reopened")
@@ -48,30 +50,7 @@ export const reopenTicket = async (
         await channel.send({ embeds: [reopenEmbed] });
 
         try {
-            await channel.permissionOverwrites.edit(
-                interaction.guild!.roles.everyone,
-                { SendMessages: null }
-            );
-
-            await channel.permissionOverwrites.edit(
-                ticket.creatorId,
-                {
-                    ViewChannel: true,
-                    SendMessages: true,
-                    ReadMessageHistory: true
-                }
-            );
-
-            if (ticket.category.supportRoleId) {
-                await channel.permissionOverwrites.edit(
-                    ticket.category.supportRoleId,
-                    {
-                        ViewChannel: true,
-                        SendMessages: true,
-                        ReadMessageHistory: true
-                    }
-                );
-            }
+            await unlockTicketChannel(channel, ticket);
 
             const actionRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
                 .addComponents(
@@ -0,0 +1,193 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { ITicketStatus } from "../../../events/database/entities/ticket_system";
+import { normalizeTicketTag } from "../../../utils/ticket_utils";
+import { isTicketStaff } from "../../../utils/ticket_permissions";
+import { parseDateOption } from "../../../utils/extras";
+import { ITicket, ITicketSearchFilters } from "../../../types";
+
+const PAGE_SIZE = 5;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const COLLECTOR_TIMEOUT = 5 * 60 * 1000;
+
+const STATUS_LABELS: Record<string, string> = {
+    open: "🟢 Open",
+    closed: "🔴 Closed",
+    archived: "🔵 Archived"
+};
+
+/**
+ * Build the embed listing one page of search results
+ */
+const createResultsEmbed = (tickets: ITicket[], total: number, page: number): discord.EmbedBuilder => {
+    const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+    return new discord.EmbedBuilder()
+        .setTitle("🔍 Ticket Search")
+        .setDescription(`Found **${total}** ticket${total === 1 ? "" : "s"} matching your filters.`)
+        .addFields(tickets.map(ticket => {
+            const details = [
+                `${STATUS_LABELS[ticket.status] ?? ticket.status} · Opened by <@${ticket.creatorId}> <t:${Math.floor(new Date(ticket.createdAt).getTime() / 1000)}:d>`,
+                ticket.claimedById ? `Claimed by <@${ticket.claimedById}>` : "Unclaimed",
+                ticket.closeReason ? `Reason: ${ticket.closeReason.substring(0, 100)}` : null,
+                ticket.tags?.length ? `Tags: ${ticket.tags.map(tag => `\`${tag}\``).join(" ")}` : null
+            ].filter(Boolean);
+
+            return {
+                name: `#${ticket.ticketNumber} · ${ticket.category.emoji || "🎫"} ${ticket.category.name}`,
+                value: details.join("\n")
+            };
+        }))
+        .setColor("Blue")
+        .setFooter({ text: `Page ${page + 1} of ${totalPages}` })
+        .setTimestamp();
+};
+
+/**
+ * Build the transcript buttons for the tickets on a page and the page navigation
+ */
+const createResultsComponents = (
+    tickets: ITicket[],
+    total: number,
+    page: number,
+    withNavigation: boolean
+): discord.ActionRowBuilder<discord.ButtonBuilder>[] => {
+    const rows: discord.ActionRowBuilder<discord.ButtonBuilder>[] = [];
+
+    if (tickets.length > 0) {
+        rows.push(new discord.ActionRowBuilder<discord.ButtonBuilder>().addComponents(
+            tickets.map(ticket =>
+                new discord.ButtonBuilder()
+                    .setCustomId(`ticket_transcript_fetch:${ticket.id}`)
+                    .setLabel(`#${ticket.ticketNumber}`)
+                    .setEmoji("📝")
+                    .setStyle(discord.ButtonStyle.Secondary)
+            )
+        ));
+    }
+
+    const totalPages = Math.ceil(total / PAGE_SIZE);
+    if (withNavigation && totalPages > 1) {
+        rows.push(new discord.ActionRowBuilder<discord.ButtonBuilder>().addComponents(
+            new discord.ButtonBuilder()
+                .setCustomId("ticket_search_prev")
+                .setLabel("Previous")
+                .setStyle(discord.ButtonStyle.Primary)
+                .setDisabled(page === 0),
+            new discord.ButtonBuilder()
+                .setCustomId("ticket_search_next")
+                .setLabel("Next")
+                .setStyle(discord.ButtonStyle.Primary)
+                .setDisabled(page >= totalPages - 1)
+        ));
+    }
+
+    return rows;
+};
+
+export const searchTicket = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client
+): Promise<void> => {
+    await interaction.deferReply({ flags: discord.MessageFlags.Ephemeral });
+
+    try {
+        const ticketRepo = new TicketRepository((client as any).dataSource);
+        const member = interaction.member as discord.GuildMember;
+
+        const categories = await ticketRepo.getTicketCategories(interaction.guildId!);
+        const staffCategoryIds = categories
+            .filter(category => isTicketStaff(member, category))
+            .map(category => category.id);
+
+        if (staffCategoryIds.length === 0) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Only the support team can search tickets.")]
+            });
+            return;
+        }
+
+        const from = parseDateOption(interaction.options.getString("from"));
+        const to = parseDateOption(interaction.options.getString("to"));
+        if (from === null || to === null) {
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).error("Invalid date.")
+                        .setDescription("Please provide dates in the `YYYY-MM-DD` format, for example `2025-01-31`.")
+                ]
+            });
+            return;
+        }
+
+        const categoryId = interaction.options.getString("category_id") ?? undefined;
+        if (categoryId && !staffCategoryIds.includes(categoryId)) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Ticket category not found, or you are not part of its support team.")]
+            });
+            return;
+        }
+
+        const tag = interaction.options.getString("tag");
+        const filters: ITicketSearchFilters = {
+            categoryIds: staffCategoryIds,
+            creatorId: interaction.options.getUser("user")?.id,
+            claimedById: interaction.options.getUser("claimer")?.id,
+            categoryId,
+            tag: tag ? normalizeTicketTag(tag) : undefined,
+            status: (interaction.options.getString("status") as ITicketStatus | null) ?? undefined,
+            from,
+            to: to ? new Date(to.getTime() + DAY_MS - 1) : undefined
+        };
+
+        let page = 0;
+        let { tickets, total } = await ticketRepo.searchTickets(interaction.guildId!, filters, page, PAGE_SIZE);
+
+        if (total === 0) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).info("No tickets match your filters.")]
+            });
+            return;
+        }
+
+        const message = await interaction.editReply({
+            embeds: [createResultsEmbed(tickets, total, page)],
+            components: createResultsComponents(tickets, total, page, true)
+        });
+
+        if (total <= PAGE_SIZE) return;
+
+        const collector = message.createMessageComponentCollector({
+            filter: (i): i is discord.ButtonInteraction =>
+                i.isButton() && i.user.id === interaction.user.id &&
+                (i.customId === "ticket_search_prev" || i.customId === "ticket_search_next"),
+            time: COLLECTOR_TIMEOUT
+        });
+
+        collector.on('collect', async i => {
+            try {
+                await i.deferUpdate();
+                page += i.customId === "ticket_search_next" ? 1 : -1;
+                ({ tickets, total } = await ticketRepo.searchTickets(interaction.guildId!, filters, page, PAGE_SIZE));
+
+                await interaction.editReply({
+                    embeds: [createResultsEmbed(tickets, total, page)],
+                    components: createResultsComponents(tickets, total, page, true)
+                });
+            } catch (error) {
+                client.logger.error(`[TICKET_SEARCH] Error changing search page: ${error}`);
+            }
+        });
+
+        collector.on('end', async () => {
+            await interaction.editReply({
+                components: createResultsComponents(tickets, total, page, false)
+            }).catch(() => { });
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_SEARCH] Error searching tickets: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while searching tickets.")]
+        });
+    }
+};
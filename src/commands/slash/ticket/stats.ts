@@ -0,0 +1,240 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { parseDateOption } from "../../../utils/extras";
+import { ITicketDashboardStats } from "../../../types";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DEFAULT_RANGE_DAYS = 30;
+const MAX_STAFF_FIELDS = 20;
+const DASHBOARD_DAYS = 30;
+const TOP_ENTRIES = 5;
+
+export const statsTicket = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    subcommand: string
+): Promise<void> => {
+    await interaction.deferReply();
+
+    try {
+        if (!interaction.memberPermissions?.has(discord.PermissionFlagsBits.ManageGuild)) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("You need the Manage Server permission to view ticket statistics.")]
+            });
+            return;
+        }
+
+        const ticketRepo = new TicketRepository((client as any).dataSource);
+
+        switch (subcommand) {
+            case "overview":
+                await overviewStats(interaction, client, ticketRepo);
+                break;
+            case "staff":
+                await staffStats(interaction, client, ticketRepo);
+                break;
+            default:
+                await interaction.editReply({
+                    embeds: [new EmbedTemplate(client).error("Unknown statistics subcommand.")]
+                });
+        }
+    } catch (error) {
+        client.logger.error(`[TICKET_STATS] Error in ticket stats: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while loading ticket statistics.")]
+        });
+    }
+};
+
+/**
+ * Format a duration in milliseconds as a short readable string
+ */
+const formatDuration = (ms: number | null): string => {
+    if (ms === null) return "No data";
+
+    const minutes = Math.round(ms / 60000);
+    if (minutes < 1) return "< 1m";
+    if (minutes < 60) return `${minutes}m`;
+
+    const hours = Math.floor(minutes / 60);
+    if (hours < 24) return `${hours}h ${minutes % 60}m`;
+
+    return `${Math.floor(hours / 24)}d ${hours % 24}h`;
+};
+
+/**
+ * Quote a CSV value when it contains a separator, quote or line break
+ */
+const escapeCsv = (value: string): string => {
+    return /[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+/**
+ * Build the CSV export of the dashboard, one section per table separated by a blank line
+ * Durations are exported in minutes so they can be charted directly
+ */
+const buildStatsCsv = (stats: ITicketDashboardStats): string => {
+    const toMinutes = (ms: number | null): string => ms === null ? "" : (ms / 60000).toFixed(1);
+
+    return [
+        "metric,value",
+        `opened,${stats.openedTickets}`,
+        `closed,${stats.closedTickets}`,
+        `median_claim_minutes,${toMinutes(stats.medianClaimMs)}`,
+        `median_close_minutes,${toMinutes(stats.medianCloseMs)}`,
+        `response_sla_breaches,${stats.responseSlaBreaches}`,
+        `claim_sla_breaches,${stats.claimSlaBreaches}`,
+        "",
+        "date,opened,closed",
+        ...stats.days.map(day => `${day.date},${day.opened},${day.closed}`),
+        "",
+        "category,opened",
+        ...stats.categories.map(category => `${escapeCsv(category.name)},${category.count}`),
+        "",
+        "hour_utc,opened",
+        ...stats.hours.map((count, hour) => `${hour.toString().padStart(2, "0")}:00,${count}`)
+    ].join("\n");
+};
+
+const overviewStats = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    const stats = await ticketRepo.getTicketDashboardStats(interaction.guildId!, DASHBOARD_DAYS);
+
+    const summaryEmbed = new discord.EmbedBuilder()
+        .setTitle("📊 Ticket Statistics")
+        .setDescription(`Ticket activity over the last ${DASHBOARD_DAYS} days.`)
+        .addFields(
+            { name: "Opened", value: stats.openedTickets.toString(), inline: true },
+            { name: "Closed", value: stats.closedTickets.toString(), inline: true },
+            { name: "Response SLA Breaches", value: stats.responseSlaBreaches.toString(), inline: true },
+            { name: "Median Time to Claim", value: formatDuration(stats.medianClaimMs), inline: true },
+            { name: "Median Time to Close", value: formatDuration(stats.medianCloseMs), inline: true },
+            { name: "Claim SLA Breaches", value: stats.claimSlaBreaches.toString(), inline: true }
+        )
+        .setColor("Blue")
+        .setTimestamp();
+
+    const maxDaily = Math.max(1, ...stats.days.map(day => Math.max(day.opened, day.closed)));
+    const dailyLines = stats.days.map(day => {
+        const bar = "█".repeat(Math.round((day.opened / maxDaily) * 10)).padEnd(10, " ");
+        return `${day.date.slice(5)} ${bar} ${day.opened.toString().padStart(6)} / ${day.closed.toString().padStart(6)}`;
+    });
+
+    const dailyEmbed = new discord.EmbedBuilder()
+        .setTitle("📅 Opened / Closed per Day")
+        .setDescription("```\n" + ["Date  Volume     Opened / Closed", ...dailyLines].join("\n") + "\n```")
+        .setColor("Blue");
+
+    const busiestHours = stats.hours
+        .map((count, hour) => ({ hour, count }))
+        .filter(entry => entry.count > 0)
+        .sort((a, b) => b.count - a.count)
+        .slice(0, TOP_ENTRIES);
+
+    const busiestEmbed = new discord.EmbedBuilder()
+        .setTitle("🔥 Busiest Categories and Hours")
+        .addFields(
+            {
+                name: "Categories",
+                value: stats.categories.length > 0 ?
+                    stats.categories.slice(0, TOP_ENTRIES).map((category, index) => `${index + 1}. **${category.name}** – ${category.count}`).join("\n") :
+                    "No tickets opened",
+                inline: true
+            },
+            {
+                name: "Hours (UTC)",
+                value: busiestHours.length > 0 ?
+                    busiestHours.map((entry, index) => `${index + 1}. **${entry.hour.toString().padStart(2, "0")}:00** – ${entry.count}`).join("\n") :
+                    "No tickets opened",
+                inline: true
+            }
+        )
+        .setColor("Blue");
+
+    const attachment = new discord.AttachmentBuilder(Buffer.from(buildStatsCsv(stats), "utf-8"), {
+        name: `ticket-stats-${stats.days[stats.days.length - 1].date}.csv`
+    });
+
+    await interaction.editReply({
+        embeds: [summaryEmbed, dailyEmbed, busiestEmbed],
+        files: [attachment]
+    });
+};
+
+const staffStats = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    const fromOption = parseDateOption(interaction.options.getString("from"));
+    const toOption = parseDateOption(interaction.options.getString("to"));
+
+    if (fromOption === null || toOption === null) {
+        await interaction.editReply({
+            embeds: [
+                new EmbedTemplate(client).error("Invalid date.")
+                    .setDescription("Please provide dates in the `YYYY-MM-DD` format, for example `2025-01-31`.")
+            ]
+        });
+        return;
+    }
+
+    const to = toOption ? new Date(toOption.getTime() + DAY_MS - 1) : new Date();
+    const from = fromOption ?? new Date(to.getTime() - DEFAULT_RANGE_DAYS * DAY_MS);
+
+    if (from > to) {
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("The start date must be before the end date.")]
+        });
+        return;
+    }
+
+    const stats = await ticketRepo.getStaffTicketStats(interaction.guildId!, from, to);
+    const range = `<t:${Math.floor(from.getTime() / 1000)}:D> – <t:${Math.floor(to.getTime() / 1000)}:D>`;
+
+    if (stats.length === 0) {
+        await interaction.editReply({
+            embeds: [
+                new EmbedTemplate(client).info("No ticket activity found.")
+                    .setDescription(`No tickets were handled or rated between ${range}.`)
+            ]
+        });
+        return;
+    }
+
+    const totalRatings = stats.reduce((sum, entry) => sum + entry.ratingCount, 0);
+    const ratingSum = stats.reduce((sum, entry) => sum + (entry.averageRating ?? 0) * entry.ratingCount, 0);
+    const totalHandled = stats.reduce((sum, entry) => sum + entry.handledTickets, 0);
+
+    const embed = new discord.EmbedBuilder()
+        .setTitle("📊 Staff Ticket Statistics")
+        .setDescription(
+            `Period: ${range}\n` +
+            `**Tickets Handled:** ${totalHandled}\n` +
+            `**Ratings:** ${totalRatings}${totalRatings > 0 ? ` (average ${(ratingSum / totalRatings).toFixed(2)} ⭐)` : ""}`
+        )
+        .setColor("Blue")
+        .setTimestamp();
+
+    stats.slice(0, MAX_STAFF_FIELDS).forEach(entry => {
+        embed.addFields({
+            name: entry.staffId ? (interaction.guild?.members.cache.get(entry.staffId)?.displayName || entry.staffId) : "Unclaimed",
+            value: [
+                entry.staffId ? `<@${entry.staffId}>` : "Ratings for unclaimed tickets",
+                `Handled: **${entry.handledTickets}**`,
+                `Rating: ${entry.averageRating !== null ? `**${entry.averageRating.toFixed(2)}** ⭐ (${entry.ratingCount})` : "No ratings"}`
+            ].join("\n"),
+            inline: true
+        });
+    });
+
+    if (stats.length > MAX_STAFF_FIELDS) {
+        embed.setFooter({ text: `Showing the top ${MAX_STAFF_FIELDS} of ${stats.length} staff members` });
+    }
+
+    await interaction.editReply({ embeds: [embed] });
+};
\ No newline at end of file
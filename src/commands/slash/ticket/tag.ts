@@ -0,0 +1,101 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { MAX_TICKET_TAGS, normalizeTicketTag } from "../../../utils/ticket_utils";
+import { isTicketStaff } from "../../../utils/ticket_permissions";
+
+export const tagTicket = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client,
+    subcommand: string
+): Promise<void> => {
+    await interaction.deferReply({ flags: discord.MessageFlags.Ephemeral });
+
+    try {
+        const ticketRepo = new TicketRepository((client as any).dataSource);
+        const ticket = await ticketRepo.getTicketByChannelId(interaction.channelId);
+
+        if (!ticket) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("This command can only be used in a ticket channel.")]
+            });
+            return;
+        }
+
+        if (!isTicketStaff(interaction.member as discord.GuildMember, ticket.category)) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Only the support team can tag tickets.")]
+            });
+            return;
+        }
+
+        const tag = normalizeTicketTag(interaction.options.getString("tag", true));
+        if (!tag) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Please provide a valid tag.")]
+            });
+            return;
+        }
+
+        const tags = ticket.tags ?? [];
+        let updatedTags: string[];
+
+        switch (subcommand) {
+            case "add":
+                if (tags.includes(tag)) {
+                    await interaction.editReply({
+                        embeds: [new EmbedTemplate(client).warning(`Ticket #${ticket.ticketNumber} is already tagged \`${tag}\`.`)]
+                    });
+                    return;
+                }
+                if (tags.length >= MAX_TICKET_TAGS) {
+                    await interaction.editReply({
+                        embeds: [new EmbedTemplate(client).error(`A ticket can have at most ${MAX_TICKET_TAGS} tags. Remove one first.`)]
+                    });
+                    return;
+                }
+                updatedTags = [...tags, tag];
+                break;
+            case "remove":
+                if (!tags.includes(tag)) {
+                    await interaction.editReply({
+                        embeds: [new EmbedTemplate(client).warning(`Ticket #${ticket.ticketNumber} is not tagged \`${tag}\`.`)]
+                    });
+                    return;
+                }
+                updatedTags = tags.filter(existing => existing !== tag);
+                break;
+            default:
+                await interaction.editReply({
+                    embeds: [new EmbedTemplate(client).error("Unknown tag subcommand.")]
+                });
+                return;
+        }
+
+        const updatedTicket = await ticketRepo.updateTicketTags(ticket.id, updatedTags);
+        if (!updatedTicket) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Failed to update the ticket tags. Database operation failed.")]
+            });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [
+                new EmbedTemplate(client).success(subcommand === "add" ? `Tagged ticket #${ticket.ticketNumber} with \`${tag}\`.` : `Removed the \`${tag}\` tag from ticket #${ticket.ticketNumber}.`)
+                    .addFields({
+                        name: "Tags",
+                        value: updatedTicket.tags.length > 0 ? updatedTicket.tags.map(existing => `\`${existing}\``).join(" ") : "None",
+                        inline: false
+                    })
+            ]
+        });
+
+        client.logger.info(`[TICKET_TAG] ${interaction.user.tag} ${subcommand === "add" ? "added" : "removed"} tag "${tag}" on ticket #${ticket.ticketNumber}`);
+    } catch (error) {
+        client.logger.error(`[TICKET_TAG] Error updating ticket tags: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while updating the ticket tags.")]
+        });
+    }
+};
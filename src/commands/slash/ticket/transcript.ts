@@ -1,6 +1,9 @@
 import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { getStoredTranscript } from "../../../utils/transcript";
+import { isTicketStaff } from "../../../utils/ticket_permissions";
+import { ITicketChannel } from "../../../types";
 import { createTranscript, ExportReturnType } from "discord-html-transcripts";
 
 export const transcriptTicket = async (
@@ -11,11 +14,26 @@ export const transcriptTicket = async (
 
     try {
         const ticketRepo = new TicketRepository((client as any).dataSource);
-        const ticket = await ticketRepo.getTicketByChannelId(interaction.channelId);
+        const ticketNumber = interaction.options.getInteger("number");
+        const ticket = ticketNumber !== null ?
+            await ticketRepo.getTicketByNumber(interaction.guildId!, ticketNumber) :
+            await ticketRepo.getTicketByChannelId(interaction.channelId);
 
         if (!ticket) {
             await interaction.editReply({
-                embeds: [new EmbedTemplate(client).error("This is not a valid ticket channel.")]
+                embeds: [
+                    new EmbedTemplate(client).error(ticketNumber !== null ?
+                        `Ticket #${ticketNumber} was not found.` :
+                        "This is not a valid ticket channel. Use the `number` option to fetch the transcript of another ticket.")
+                ]
+            });
+            return;
+        }
+
+        const isCurrentTicket = ticket.channelId === interaction.channelId;
+        if (!isCurrentTicket && !isTicketStaff(interaction.member as discord.GuildMember, ticket.category)) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Only the support team can fetch transcripts of other tickets.")]
             });
             return;
         }
@@ -31,14 +49,25 @@ export const transcriptTicket = async (
             ]
         });
 
-        const channel = interaction.channel as discord.TextChannel;
         const creator = await client.users.fetch(ticket.creatorId).catch(() => null);
-        const attachment = await createTranscript(channel, {
-            limit: 10000,
-            saveImages: true,
-            poweredBy: false,
-            filename: `ticket-${ticket.ticketNumber}.html`,
-        }) as AttachmentBuffer;
+        const attachment = isCurrentTicket ?
+            await createTranscript(interaction.channel as ITicketChannel, {
+                limit: 10000,
+                saveImages: true,
+                poweredBy: false,
+                filename: `ticket-${ticket.ticketNumber}.html`,
+            }) as AttachmentBuffer :
+            await getStoredTranscript(ticket);
+
+        if (!attachment) {
+            await interaction.editReply({
+                embeds: [
+                    new EmbedTemplate(client).error(`No transcript is available for ticket #${ticket.ticketNumber}.`)
+                        .setDescription("The ticket was never archived and its channel no longer exists.")
+                ]
+            });
+            return;
+        }
 
         const embed = new discord.EmbedBuilder()
             .setTitle(`Ticket #${ticket.ticketNumber} Transcript`)
@@ -51,7 +80,7 @@ export const transcriptTicket = async (
 **Created:** <t:${Math.floor(new Date(ticket.createdAt).getTime() / 1000)}:F>
             `)
             .setColor("#2F3136")
-            .setFooter({ text: 'Transcript generated on request', iconURL: client.user?.displayAvatarURL() })
+            .setFooter({ text: isCurrentTicket ? 'Transcript generated on request' : 'Archived transcript', iconURL: client.user?.displayAvatarURL() })
             .setTimestamp();
 
         if (targetUser) {
@@ -72,7 +101,7 @@ Transcript from **${interaction.guild?.name}**
                 await interaction.editReply({
                     embeds: [
                         new EmbedTemplate(client).success("Transcript sent successfully!")
-                            .setDescription(`A transcript of this ticket has been sent to ${targetUser}.`)
+                            .setDescription(`A transcript of ticket #${ticket.ticketNumber} has been sent to ${targetUser}.`)
                     ]
                 });
             } catch (error) {
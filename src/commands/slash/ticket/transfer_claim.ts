@@ -0,0 +1,73 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { reassignTicketClaim } from "../../../utils/ticket_utils";
+import { hasTicketStaffLevel } from "../../../utils/ticket_permissions";
+import { ITicketChannel } from "../../../types";
+
+export const transferTicketClaim = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client
+): Promise<void> => {
+    await interaction.deferReply();
+
+    try {
+        const ticketRepo = new TicketRepository((client as any).dataSource);
+        const ticket = await ticketRepo.getTicketByChannelId(interaction.channelId);
+
+        if (!ticket) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("This command can only be used in a ticket channel.")]
+            });
+            return;
+        }
+
+        if (!ticket.claimedById) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("This ticket is not claimed. Use `/ticket claim` to claim it.")]
+            });
+            return;
+        }
+
+        const member = interaction.member as discord.GuildMember;
+        if (ticket.claimedById !== interaction.user.id && !hasTicketStaffLevel(member, ticket.category, "manage")) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Only the staff member who claimed this ticket or a ticket manager can transfer its claim.")]
+            });
+            return;
+        }
+
+        const user = interaction.options.getUser("user", true);
+        if (user.id === ticket.claimedById) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error(`${user} has already claimed this ticket.`)]
+            });
+            return;
+        }
+
+        const targetMember = await interaction.guild!.members.fetch(user.id).catch(() => null);
+        if (user.bot || !hasTicketStaffLevel(targetMember, ticket.category, "respond")) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error(`${user} is not part of the support team for this ticket.`)]
+            });
+            return;
+        }
+
+        const updatedTicket = await reassignTicketClaim(ticket, interaction.channel as ITicketChannel, user.id, interaction.user);
+        if (!updatedTicket) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Failed to transfer the claim of the ticket.")]
+            });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).success(`The claim of this ticket has been transferred to ${user}.`)]
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_CLAIM] Error transferring ticket claim: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while transferring the claim of the ticket.")]
+        });
+    }
+};
@@ -1,6 +1,8 @@
 import discord from "discord.js";
 import { EmbedTemplate } from "../../../utils/embed_template";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { grantTicketAccess, hasTicketAccess, revokeTicketAccess } from "../../../utils/ticket_utils";
+import { ITicketChannel } from "../../../types";
 
 export const transferTicketOwner = async (
     interaction: discord.ChatInputCommandInteraction,
@@ -66,14 +68,13 @@ export const transferTicketOwner = async (
             return;
         }
 
-        const channel = interaction.channel as discord.TextChannel;
+        const channel = interaction.channel as ITicketChannel;
 
         if (previousOwner &&
             previousOwner.id !== newOwner.id &&
             (!supportRoleId || !member.roles.cache.has(supportRoleId))) {
             try {
-                const previousOwnerPerms = channel.permissionsFor(previousOwner.id);
-                if (previousOwnerPerms && previousOwnerPerms.has(discord.PermissionFlagsBits.ViewChannel)) {
+                if (await hasTicketAccess(channel, previousOwner.id)) {
                     const confirmEmbed = new discord.EmbedBuilder()
                         .setTitle("Remove Previous Owner's Access?")
                         .setDescription(`Do you want to remove ${previousOwner}'s access to this ticket?`)
@@ -102,7 +103,7 @@ export const transferTicketOwner = async (
                         }
 
                         if (response === 'yes' || response === 'y') {
-                            await channel.permissionOverwrites.delete(previousOwner.id);
+                            await revokeTicketAccess(channel, previousOwner.id);
                             await channel.send({
                                 embeds: [
                                     new discord.EmbedBuilder()
@@ -134,11 +135,7 @@ export const transferTicketOwner = async (
             }
         }
 
-        await channel.permissionOverwrites.create(newOwner.id, {
-            ViewChannel: true,
-            SendMessages: true,
-            ReadMessageHistory: true
-        });
+        await grantTicketAccess(channel, newOwner.id);
 
         const ticketNumber = ticket.ticketNumber.toString().padStart(4, '0');
         const currentName = channel.name;
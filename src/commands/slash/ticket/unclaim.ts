@@ -0,0 +1,57 @@
+import discord from "discord.js";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { TicketRepository } from "../../../events/database/repo/ticket_system";
+import { releaseTicketClaim } from "../../../utils/ticket_utils";
+import { hasTicketStaffLevel } from "../../../utils/ticket_permissions";
+import { ITicketChannel } from "../../../types";
+
+export const unclaimTicket = async (
+    interaction: discord.ChatInputCommandInteraction,
+    client: discord.Client
+): Promise<void> => {
+    await interaction.deferReply();
+
+    try {
+        const ticketRepo = new TicketRepository((client as any).dataSource);
+        const ticket = await ticketRepo.getTicketByChannelId(interaction.channelId);
+
+        if (!ticket) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("This command can only be used in a ticket channel.")]
+            });
+            return;
+        }
+
+        if (!ticket.claimedById) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("This ticket is not claimed.")]
+            });
+            return;
+        }
+
+        const member = interaction.member as discord.GuildMember;
+        if (ticket.claimedById !== interaction.user.id && !hasTicketStaffLevel(member, ticket.category, "manage")) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Only the staff member who claimed this ticket or a ticket manager can unclaim it.")]
+            });
+            return;
+        }
+
+        const updatedTicket = await releaseTicketClaim(ticket, interaction.channel as ITicketChannel, interaction.user);
+        if (!updatedTicket) {
+            await interaction.editReply({
+                embeds: [new EmbedTemplate(client).error("Failed to unclaim the ticket.")]
+            });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).success("You have successfully unclaimed this ticket.")]
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_CLAIM] Error unclaiming ticket: ${error}`);
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("An error occurred while unclaiming the ticket.")]
+        });
+    }
+};
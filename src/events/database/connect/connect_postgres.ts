@@ -4,11 +4,12 @@ import { ConfigManager } from "../../../utils/config";
 import { BotEvent } from "../../../types";
 import { initializeVectorExtension } from "./initialize_extensions";
 import { RagRepository } from "../repo/rag_data";
+import ChannelKnowledgeSync from "../../../utils/ai/channel_sync";
 
 import { UserData } from "../entities/user_data";
 import { PremiumCoupon } from "../entities/premium_coupons";
 import { BlockedUser, BlockReason } from "../entities/blocked_users";
-import { GuildConfig, SelectMenuConfig, TicketCategory, TicketButton, TicketMessage, Ticket } from "../entities/ticket_system";
+import { GuildConfig, SelectMenuConfig, TicketCategory, TicketButton, TicketMessage, Ticket, TicketFeedback, TicketNote, TicketPanel } from "../entities/ticket_system";
 import { ChatHistoryEntry } from "../entities/chat_history";
 import { ChatbotConfig } from "../entities/chatbot_config";
 import { RagDocument, RagChunk } from "../entities/rag_data";
@@ -23,7 +24,7 @@ export const AppDataSource = new DataSource({
     entities: [
         UserData, PremiumCoupon, BlockedUser, BlockReason,
         GuildConfig, TicketCategory, TicketButton, TicketMessage,
-        Ticket, SelectMenuConfig, ChatHistoryEntry, ChatbotConfig,
+        Ticket, SelectMenuConfig, TicketFeedback, TicketNote, TicketPanel, ChatHistoryEntry, ChatbotConfig,
         RagDocument, RagChunk
     ],
     subscribers: [],
@@ -56,6 +57,9 @@ const event: BotEvent = {
             const dataSource = await initializeDatabase(client);
             (client as any).dataSource = dataSource;
             client.logger.success(`[DATABASE] Connected to PostgreSQL database.`);
+
+            const syncedChannels = await ChannelKnowledgeSync.loadSyncedChannels(dataSource);
+            client.logger.debug(`[DATABASE] Loaded ${syncedChannels} synced knowledge channel(s)`);
         } catch (error) {
             client.logger.error(`[DATABASE] Failed to connect to PostgreSQL: ${error}`);
             process.exit(1);
@@ -9,6 +9,10 @@ export class ChatHistoryEntry {
     @Index()
     guildId!: string;
 
+    @Column({ type: "varchar", nullable: true })
+    @Index()
+    channelId!: string | null;
+
     @Column({ nullable: false })
     @Index()
     userId!: string;
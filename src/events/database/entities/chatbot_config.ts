@@ -1,4 +1,5 @@
-import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn } from "typeorm";
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, Index } from "typeorm";
+import { encryptedColumnTransformer } from "../../../utils/encryption";
 
 @Entity("chatbot_configs")
 export class ChatbotConfig {
@@ -6,12 +7,14 @@ export class ChatbotConfig {
     id!: string;
 
     @Column({ nullable: false })
+    @Index()
     guildId!: string;
 
     @Column({ nullable: false })
+    @Index({ unique: true })
     channelId!: string;
 
-    @Column({ nullable: false })
+    @Column({ nullable: false, transformer: encryptedColumnTransformer })
     apiKey!: string;
 
     @Column({ default: "https://api.openai.com/v1" })
@@ -26,6 +29,12 @@ export class ChatbotConfig {
     @Column({ type: "text", nullable: true, default: "Friendly" })
     responseType!: string;
 
+    @Column({ type: "text", nullable: true })
+    promptTemplate!: string | null;
+
+    @Column({ type: "float", default: 0.25 })
+    ragSimilarityThreshold!: number;
+
     @Column({ default: 5 })
     cooldown!: number;
 
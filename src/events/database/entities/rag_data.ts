@@ -16,7 +16,11 @@ export class RagDocument {
     description!: string;
 
     @Column({ nullable: false })
-    fileType!: string; // 'txt' or 'md'
+    fileType!: string; // original file extension, e.g. 'pdf', 'docx', 'md', or 'channel' for synced channels
+
+    @Column({ type: "varchar", nullable: true })
+    @Index()
+    sourceChannelId!: string | null; // set when the document mirrors a Discord channel or forum
 
     @Column({ nullable: false, default: 0 })
     chunkCount!: number;
@@ -44,6 +48,10 @@ export class RagChunk {
     @Column({ type: "integer", nullable: false })
     chunkIndex!: number;
 
+    @Column({ type: "varchar", nullable: true })
+    @Index()
+    sourceMessageId!: string | null; // Discord message the chunk was built from, for incremental re-sync
+
     @Column({
         type: "text",
         nullable: true,
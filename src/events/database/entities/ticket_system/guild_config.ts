@@ -21,6 +21,12 @@ export class GuildConfig implements IGuildConfig {
     @Column({ default: true })
     isEnabled!: boolean;
 
+    @Column({ default: 1 })
+    maxOpenTicketsPerUser!: number;
+
+    @Column({ default: 0 })
+    ticketCooldownMinutes!: number;
+
     @CreateDateColumn()
     createdAt!: Date;
 
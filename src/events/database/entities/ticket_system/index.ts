@@ -9,4 +9,7 @@ export * from './select_menu';
 export * from './guild_config';
 export * from './ticket_button';
 export * from './ticket_message';
+export * from './ticket_feedback';
+export * from './ticket_note';
+export * from './ticket_panel';
 export * from './ticket_category';
\ No newline at end of file
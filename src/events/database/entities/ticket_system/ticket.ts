@@ -1,7 +1,7 @@
 import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, CreateDateColumn, UpdateDateColumn, JoinColumn } from "typeorm";
 import { ITicketStatus } from "./index";
 import { TicketCategory } from "./ticket_category";
-import { ITicket } from "../../../../types";
+import { ITicket, ITicketPriority } from "../../../../types";
 
 @Entity("tickets")
 export class Ticket implements ITicket {
@@ -29,6 +29,45 @@ export class Ticket implements ITicket {
     @Column({ nullable: true, type: 'timestamp' })
     claimedAt?: Date | null;
 
+    @Column({ nullable: true, type: 'timestamp' })
+    firstClaimedAt?: Date | null;
+
+    @Column({ nullable: true, type: 'timestamp' })
+    firstResponseAt?: Date | null;
+
+    @Column({ nullable: true, type: 'timestamp' })
+    slaResponseWarnedAt?: Date | null;
+
+    @Column({ nullable: true, type: 'timestamp' })
+    slaResponseBreachedAt?: Date | null;
+
+    @Column({ nullable: true, type: 'timestamp' })
+    slaClaimWarnedAt?: Date | null;
+
+    @Column({ nullable: true, type: 'timestamp' })
+    slaClaimBreachedAt?: Date | null;
+
+    @Column({ nullable: true, type: 'timestamp' })
+    lastActivityAt?: Date | null;
+
+    @Column({ nullable: true, type: 'timestamp' })
+    inactivityWarnedAt?: Date | null;
+
+    @Column({ default: "normal", type: "varchar" })
+    priority!: ITicketPriority;
+
+    @Column("text", { array: true, default: "{}" })
+    tags!: string[];
+
+    @Column({ nullable: true, type: "varchar" })
+    transcriptChannelId?: string | null;
+
+    @Column({ nullable: true, type: "varchar" })
+    transcriptMessageId?: string | null;
+
+    @Column({ nullable: true, type: "varchar" })
+    transcriptPath?: string | null;
+
     @Column({
         type: "enum",
         enum: ITicketStatus,
@@ -2,7 +2,7 @@ import { Entity, PrimaryGeneratedColumn, Column, ManyToOne, OneToMany, CreateDat
 import { Ticket } from "./ticket";
 import { GuildConfig } from "./guild_config";
 import { TicketMessage } from "./ticket_message";
-import { ITicketCategory } from "../../../../types";
+import { ITicketCategory, ITicketFormQuestion, ITicketMode, ITicketStaffRole } from "../../../../types";
 
 @Entity("ticket_categories")
 export class TicketCategory implements ITicketCategory {
@@ -33,6 +33,48 @@ export class TicketCategory implements ITicketCategory {
     @Column({ default: 0 })
     position!: number;
 
+    @Column({ nullable: true, type: "int" })
+    slaFirstResponseMinutes?: number | null;
+
+    @Column({ nullable: true, type: "int" })
+    slaClaimMinutes?: number | null;
+
+    @Column({ nullable: true, type: "varchar" })
+    slaEscalationRoleId?: string | null;
+
+    @Column({ nullable: true, type: "int" })
+    inactivityHours?: number | null;
+
+    @Column({ nullable: true, type: "int" })
+    inactivityGraceHours?: number | null;
+
+    @Column({ nullable: true, type: "jsonb" })
+    formQuestions?: ITicketFormQuestion[] | null;
+
+    @Column({ nullable: true, type: "int" })
+    maxOpenTicketsPerUser?: number | null;
+
+    @Column({ nullable: true, type: "int" })
+    ticketCooldownMinutes?: number | null;
+
+    @Column({ default: "channel", type: "varchar" })
+    ticketMode!: ITicketMode;
+
+    @Column({ nullable: true, type: "varchar" })
+    threadChannelId?: string | null;
+
+    @Column({ default: false })
+    claimOnlyMessaging!: boolean;
+
+    @Column({ nullable: true, type: "jsonb" })
+    staffRoles?: ITicketStaffRole[] | null;
+
+    @Column("text", { array: true, default: "{}" })
+    allowedRoleIds!: string[];
+
+    @Column("text", { array: true, default: "{}" })
+    deniedRoleIds!: string[];
+
     @CreateDateColumn()
     createdAt!: Date;
 
@@ -0,0 +1,38 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, JoinColumn, OneToOne, Index } from "typeorm";
+import { Ticket } from "./ticket";
+import { ITicketFeedback } from "../../../../types";
+
+@Entity("ticket_feedback")
+export class TicketFeedback implements ITicketFeedback {
+    @PrimaryGeneratedColumn("uuid")
+    id!: string;
+
+    @Column({ nullable: false })
+    @Index()
+    guildId!: string;
+
+    @Column({ nullable: false })
+    creatorId!: string;
+
+    @Column({ nullable: true, type: "varchar" })
+    @Index()
+    staffId!: string | null;
+
+    @Column({ type: "int" })
+    rating!: number;
+
+    @Column({ nullable: true, type: "text" })
+    comment!: string | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+
+    @OneToOne(type => Ticket, {
+        onDelete: "CASCADE"
+    })
+    @JoinColumn()
+    ticket!: Ticket;
+}
\ No newline at end of file
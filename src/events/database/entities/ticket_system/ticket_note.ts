@@ -0,0 +1,25 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, JoinColumn, ManyToOne, Index } from "typeorm";
+import { Ticket } from "./ticket";
+import { ITicketNote } from "../../../../types";
+
+@Entity("ticket_notes")
+export class TicketNote implements ITicketNote {
+    @PrimaryGeneratedColumn("uuid")
+    id!: string;
+
+    @Column({ nullable: false })
+    authorId!: string;
+
+    @Column({ type: "text" })
+    content!: string;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @ManyToOne(type => Ticket, {
+        onDelete: "CASCADE"
+    })
+    @JoinColumn()
+    @Index()
+    ticket!: Ticket;
+}
@@ -0,0 +1,52 @@
+import { Entity, PrimaryGeneratedColumn, Column, CreateDateColumn, UpdateDateColumn, JoinColumn, ManyToOne, Index } from "typeorm";
+import { GuildConfig } from "./guild_config";
+import { ITicketPanel } from "../../../../types";
+
+@Entity("ticket_panels")
+@Index(["guildConfig", "name"], { unique: true })
+export class TicketPanel implements ITicketPanel {
+    @PrimaryGeneratedColumn("uuid")
+    id!: string;
+
+    @Column({ nullable: false })
+    name!: string;
+
+    @Column({ default: "Create Ticket" })
+    label!: string;
+
+    @Column({ default: "🎫" })
+    emoji!: string;
+
+    @Column({ default: "PRIMARY" })
+    style!: string;
+
+    @Column({ nullable: true, type: "text" })
+    embedTitle?: string | null;
+
+    @Column({ nullable: true, type: "text" })
+    embedDescription?: string | null;
+
+    @Column({ nullable: true, type: "varchar" })
+    embedColor?: string | null;
+
+    @Column("text", { array: true, default: "{}" })
+    categoryIds!: string[];
+
+    @Column({ nullable: true, type: "varchar" })
+    channelId?: string | null;
+
+    @Column({ nullable: true, type: "varchar" })
+    messageId?: string | null;
+
+    @CreateDateColumn()
+    createdAt!: Date;
+
+    @UpdateDateColumn()
+    updatedAt!: Date;
+
+    @ManyToOne(type => GuildConfig, {
+        onDelete: "CASCADE"
+    })
+    @JoinColumn()
+    guildConfig!: GuildConfig;
+}
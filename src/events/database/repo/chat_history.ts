@@ -22,6 +22,7 @@ export class ChatHistoryRepository {
     /**
      * Adds a message to the chat history
      * @param guildId - Discord guild ID
+     * @param channelId - Chatbot channel ID the history belongs to
      * @param userId - Discord user ID
      * @param role - Message role (system, user, or assistant)
      * @param content - Message content
@@ -29,6 +30,7 @@ export class ChatHistoryRepository {
      */
     async addMessage(
         guildId: string,
+        channelId: string,
         userId: string,
         role: string,
         content: string
@@ -36,6 +38,7 @@ export class ChatHistoryRepository {
         try {
             const entry = new ChatHistoryEntry();
             entry.guildId = guildId;
+            entry.channelId = channelId;
             entry.userId = userId;
             entry.role = role;
             entry.content = content;
@@ -48,16 +51,18 @@ export class ChatHistoryRepository {
     }
 
     /**
-     * Gets the conversation history for a user in a guild
+     * Gets the conversation history for a user in a chatbot channel
      * @param guildId - Discord guild ID
+     * @param channelId - Chatbot channel ID the history belongs to
      * @param userId - Discord user ID
      * @returns Array of message entries
      */
-    async getHistory(guildId: string, userId: string): Promise<ChatHistoryEntry[]> {
+    async getHistory(guildId: string, channelId: string, userId: string): Promise<ChatHistoryEntry[]> {
         try {
             return await this.historyRepo.find({
                 where: {
                     guildId,
+                    channelId,
                     userId
                 },
                 order: {
@@ -71,17 +76,19 @@ export class ChatHistoryRepository {
     }
 
     /**
-     * Gets the most recent messages for a user in a guild
+     * Gets the most recent messages for a user in a chatbot channel
      * @param guildId - Discord guild ID
+     * @param channelId - Chatbot channel ID the history belongs to
      * @param userId - Discord user ID
      * @param count - Number of messages to retrieve
      * @returns Array of the most recent message entries
      */
-    async getRecentMessages(guildId: string, userId: string, count: number): Promise<ChatHistoryEntry[]> {
+    async getRecentMessages(guildId: string, channelId: string, userId: string, count: number): Promise<ChatHistoryEntry[]> {
         try {
             return await this.historyRepo.find({
                 where: {
                     guildId,
+                    channelId,
                     userId
                 },
                 order: {
@@ -98,14 +105,16 @@ export class ChatHistoryRepository {
     /**
      * Trims the history to not exceed the maximum length
      * @param guildId - Discord guild ID
+     * @param channelId - Chatbot channel ID the history belongs to
      * @param userId - Discord user ID
      * @param maxLength - Maximum number of messages to keep
      */
-    async trimHistory(guildId: string, userId: string, maxLength: number): Promise<void> {
+    async trimHistory(guildId: string, channelId: string, userId: string, maxLength: number): Promise<void> {
         try {
             const nonSystemCount = await this.historyRepo.count({
                 where: {
                     guildId,
+                    channelId,
                     userId,
                     role: Not("system")
                 }
@@ -113,6 +122,7 @@ export class ChatHistoryRepository {
             const systemCount = await this.historyRepo.count({
                 where: {
                     guildId,
+                    channelId,
                     userId,
                     role: "system"
                 }
@@ -125,6 +135,7 @@ export class ChatHistoryRepository {
                 const oldestEntries = await this.historyRepo.find({
                     where: {
                         guildId,
+                        channelId,
                         userId,
                         role: Not("system")
                     },
@@ -147,21 +158,24 @@ export class ChatHistoryRepository {
     /**
      * Clears the conversation history
      * @param guildId - Discord guild ID
+     * @param channelId - Chatbot channel ID the history belongs to
      * @param userId - Discord user ID
      * @param keepSystemMessages - Whether to keep system messages
      * @returns True if successful, false otherwise
      */
-    async clearHistory(guildId: string, userId: string, keepSystemMessages: boolean = true): Promise<boolean> {
+    async clearHistory(guildId: string, channelId: string, userId: string, keepSystemMessages: boolean = true): Promise<boolean> {
         try {
             if (keepSystemMessages) {
                 await this.historyRepo.delete({
                     guildId,
+                    channelId,
                     userId,
                     role: Not("system")
                 });
             } else {
                 await this.historyRepo.delete({
                     guildId,
+                    channelId,
                     userId
                 });
             }
@@ -1,6 +1,7 @@
 import client from "../../../salt";
 import { Repository, DataSource } from "typeorm";
 import { ChatbotConfig } from "../entities/chatbot_config";
+import { encrypt, decrypt, needsReEncryption } from "../../../utils/encryption";
 
 export class ChatbotConfigRepository {
     private configRepo: Repository<ChatbotConfig>;
@@ -11,10 +12,22 @@ export class ChatbotConfigRepository {
         this.configRepo = dataSource.getRepository(ChatbotConfig);
     }
 
-    getConfig = async (guildId: string): Promise<ChatbotConfig | null> => {
+    getConfigs = async (guildId: string): Promise<ChatbotConfig[]> => {
+        try {
+            return await this.configRepo.find({
+                where: { guildId },
+                order: { createdAt: "ASC" }
+            });
+        } catch (error) {
+            client.logger.error(`[CHATBOT_CONFIG_REPO] Error getting configs: ${error}`);
+            return [];
+        }
+    };
+
+    getConfig = async (guildId: string, channelId: string): Promise<ChatbotConfig | null> => {
         try {
             return await this.configRepo.findOne({
-                where: { guildId }
+                where: { guildId, channelId }
             });
         } catch (error) {
             client.logger.error(`[CHATBOT_CONFIG_REPO] Error getting config: ${error}`);
@@ -22,6 +35,28 @@ export class ChatbotConfigRepository {
         }
     };
 
+    getConfigById = async (configId: string): Promise<ChatbotConfig | null> => {
+        try {
+            return await this.configRepo.findOne({
+                where: { id: configId }
+            });
+        } catch (error) {
+            client.logger.error(`[CHATBOT_CONFIG_REPO] Error getting config by ID: ${error}`);
+            return null;
+        }
+    };
+
+    getConfigByChannel = async (channelId: string): Promise<ChatbotConfig | null> => {
+        try {
+            return await this.configRepo.findOne({
+                where: { channelId }
+            });
+        } catch (error) {
+            client.logger.error(`[CHATBOT_CONFIG_REPO] Error getting config by channel: ${error}`);
+            return null;
+        }
+    };
+
     createConfig = async (
         guildId: string,
         channelId: string,
@@ -51,11 +86,11 @@ export class ChatbotConfigRepository {
     };
 
     updateConfig = async (
-        guildId: string,
+        configId: string,
         updates: Partial<ChatbotConfig>
     ): Promise<ChatbotConfig | null> => {
         try {
-            const config = await this.getConfig(guildId);
+            const config = await this.getConfigById(configId);
             if (!config) return null;
 
             Object.assign(config, updates);
@@ -67,9 +102,9 @@ export class ChatbotConfigRepository {
         }
     };
 
-    deleteConfig = async (guildId: string): Promise<boolean> => {
+    deleteConfig = async (configId: string): Promise<boolean> => {
         try {
-            const config = await this.getConfig(guildId);
+            const config = await this.getConfigById(configId);
             if (!config) return false;
 
             await this.configRepo.remove(config);
@@ -79,4 +114,42 @@ export class ChatbotConfigRepository {
             return false;
         }
     };
-}
\ No newline at end of file
+
+    /**
+     * Encrypt API keys stored in plaintext and re-encrypt keys written with a previous
+     * ENCRYPTION_KEY. Only run by the `encrypt-api-keys` script; rows already using the current key are skipped.
+     * @returns Number of rows updated
+     */
+    encryptStoredApiKeys = async (): Promise<number> => {
+        try {
+            const rows: Array<{ id: string; apiKey: string }> = await this.dataSource.query(
+                `SELECT id, "apiKey" FROM chatbot_configs`
+            );
+
+            let updated = 0;
+            for (const row of rows) {
+                if (!row.apiKey || !needsReEncryption(row.apiKey)) continue;
+
+                try {
+                    const plaintext = decrypt(row.apiKey);
+                    await this.dataSource.query(
+                        `UPDATE chatbot_configs SET "apiKey" = $1 WHERE id = $2`,
+                        [encrypt(plaintext), row.id]
+                    );
+                    updated++;
+                } catch (error) {
+                    client.logger.error(`[CHATBOT_CONFIG_REPO] Could not re-encrypt API key for config ${row.id}: ${error}`);
+                }
+            }
+
+            if (updated > 0) {
+                client.logger.info(`[CHATBOT_CONFIG_REPO] Encrypted ${updated} stored API key(s) with the current encryption key`);
+            }
+
+            return updated;
+        } catch (error) {
+            client.logger.error(`[CHATBOT_CONFIG_REPO] Error encrypting stored API keys: ${error}`);
+            return 0;
+        }
+    };
+}
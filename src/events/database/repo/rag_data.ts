@@ -1,13 +1,18 @@
 import client from "../../../salt";
-import { Repository, DataSource, In } from "typeorm";
+import { Repository, DataSource, QueryRunner, In, Not, IsNull } from "typeorm";
 import { RagDocument, RagChunk } from "../entities/rag_data";
-import { IDocument } from "../../../types";
+import { IDocument, IRagMessageDocuments } from "../../../types";
 
 export class RagRepository {
     private documentRepo: Repository<RagDocument>;
     private chunkRepo: Repository<RagChunk>;
     private dataSource: DataSource;
 
+    private static readonly SEARCH_LANGUAGE = 'english';
+    private static readonly RRF_K = 60;
+    private static readonly DOCUMENT_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+    private static searchColumnReady = false;
+
     constructor(dataSource: DataSource) {
         this.dataSource = dataSource;
         this.documentRepo = dataSource.getRepository(RagDocument);
@@ -35,6 +40,8 @@ export class RagRepository {
      */
     initializeVectorColumns = async (): Promise<boolean> => {
         try {
+            await this.ensureSearchColumn();
+
             // Check if there are any existing RAG documents
             const documentCount = await this.documentRepo.count();
 
@@ -198,6 +205,104 @@ export class RagRepository {
         }
     };
 
+    /**
+     * Ensure the full-text search column and its index exist on rag_chunks
+     * The column is generated by Postgres from the chunk content, so it never needs to be written manually
+     */
+    private ensureSearchColumn = async (): Promise<boolean> => {
+        if (RagRepository.searchColumnReady) return true;
+
+        try {
+            const tableInfo = await this.dataSource.query(`SELECT to_regclass('rag_chunks') IS NOT NULL AS exists`);
+            if (!tableInfo[0]?.exists) {
+                return false;
+            }
+
+            const columnInfo = await this.dataSource.query(`
+            SELECT column_name
+            FROM information_schema.columns
+            WHERE table_name = 'rag_chunks' AND column_name = 'search_vector'
+        `);
+
+            if (columnInfo.length === 0) {
+                await this.dataSource.query(`
+                ALTER TABLE rag_chunks
+                ADD COLUMN search_vector tsvector
+                GENERATED ALWAYS AS (to_tsvector('${RagRepository.SEARCH_LANGUAGE}', coalesce(content, ''))) STORED
+            `);
+                client.logger.info('[RAG_REPO] Created search_vector column for full-text search');
+            }
+
+            await this.dataSource.query(`
+            CREATE INDEX IF NOT EXISTS idx_rag_chunks_search_vector
+            ON rag_chunks USING GIN (search_vector)
+        `);
+
+            RagRepository.searchColumnReady = true;
+            return true;
+        } catch (error) {
+            client.logger.warn(`[RAG_REPO] Could not ensure full-text search column: ${error}`);
+            return false;
+        }
+    };
+
+    /**
+     * Build an OR tsquery from free text so any matching keyword (product code, error number, command name) counts
+     * @returns The tsquery string, or null if the text has no usable terms
+     */
+    private buildKeywordQuery = (text: string): string | null => {
+        const terms = Array.from(new Set(
+            (text.toLowerCase().match(/[\p{L}\p{N}][\p{L}\p{N}_\-.]*/gu) || [])
+                .map(term => term.replace(/[.\-]+$/, ''))
+                .filter(term => term.length > 1)
+        )).slice(0, 32);
+
+        if (terms.length === 0) return null;
+        return terms.map(term => `'${term.replace(/'/g, "''")}'`).join(' | ');
+    };
+
+    /**
+     * Save processed chunks (and their vectors when the vector column is ready) for a document
+     * Must be called inside an open transaction
+     */
+    private saveChunks = async (
+        queryRunner: QueryRunner,
+        document: RagDocument,
+        processedDocuments: IDocument[],
+        vectorColumnReady: boolean,
+        sourceMessageId: string | null = null
+    ): Promise<void> => {
+        for (let i = 0; i < processedDocuments.length; i++) {
+            const doc = processedDocuments[i];
+
+            const chunk = new RagChunk();
+            chunk.content = doc.content;
+            chunk.chunkIndex = doc.metadata.chunkIndex;
+            chunk.sourceMessageId = sourceMessageId;
+            chunk.document = document;
+
+            if (doc.embedding) {
+                chunk.embedding = doc.embedding;
+            }
+
+            const savedChunk = await queryRunner.manager.save(chunk);
+
+            if (vectorColumnReady && doc.embedding) {
+                try {
+                    const vectorString = `[${doc.embedding.join(',')}]`;
+                    await queryRunner.query(
+                        `UPDATE rag_chunks SET embedding_vector = $1::vector WHERE id = $2`,
+                        [vectorString, savedChunk.id]
+                    );
+
+                    client.logger.debug(`[RAG_REPO] Stored vector for chunk ${i + 1}/${processedDocuments.length}`);
+                } catch (vectorError) {
+                    client.logger.warn(`[RAG_REPO] Failed to store vector for chunk ${savedChunk.id}: ${vectorError}`);
+                }
+            }
+        }
+    };
+
     /**
      * Check if a guild already has RAG data
      */
@@ -213,6 +318,21 @@ export class RagRepository {
         }
     };
 
+    /**
+     * Check if a guild already has a RAG document with the given file name
+     */
+    hasRagDocument = async (guildId: string, fileName: string): Promise<boolean> => {
+        try {
+            const count = await this.documentRepo.count({
+                where: { guildId, fileName }
+            });
+            return count > 0;
+        } catch (error) {
+            client.logger.error(`[RAG_REPO] Error checking RAG document: ${error}`);
+            return false;
+        }
+    };
+
     /**
      * Store processed documents and chunks
      */
@@ -244,34 +364,7 @@ export class RagRepository {
             document.chunkCount = processedDocuments.length;
             const savedDocument = await queryRunner.manager.save(document);
 
-            for (let i = 0; i < processedDocuments.length; i++) {
-                const doc = processedDocuments[i];
-
-                const chunk = new RagChunk();
-                chunk.content = doc.content;
-                chunk.chunkIndex = doc.metadata.chunkIndex;
-                chunk.document = savedDocument;
-
-                if (doc.embedding) {
-                    chunk.embedding = doc.embedding;
-                }
-
-                const savedChunk = await queryRunner.manager.save(chunk);
-
-                if (vectorColumnReady && doc.embedding) {
-                    try {
-                        const vectorString = `[${doc.embedding.join(',')}]`;
-                        await queryRunner.query(
-                            `UPDATE rag_chunks SET embedding_vector = $1::vector WHERE id = $2`,
-                            [vectorString, savedChunk.id]
-                        );
-
-                        client.logger.debug(`[RAG_REPO] Stored vector for chunk ${i + 1}/${processedDocuments.length}`);
-                    } catch (vectorError) {
-                        client.logger.warn(`[RAG_REPO] Failed to store vector for chunk ${savedChunk.id}: ${vectorError}`);
-                    }
-                }
-            }
+            await this.saveChunks(queryRunner, savedDocument, processedDocuments, vectorColumnReady);
 
             await queryRunner.commitTransaction();
 
@@ -324,17 +417,47 @@ export class RagRepository {
     };
 
     /**
-     * Search for relevant RAG chunks based on embedding similarity
+     * Delete a single RAG document (and its chunks) by ID
+     */
+    deleteRagDocument = async (guildId: string, documentId: string): Promise<RagDocument | null> => {
+        try {
+            const document = await this.documentRepo.findOne({
+                where: { guildId, id: documentId }
+            });
+
+            if (!document) {
+                return null;
+            }
+
+            await this.documentRepo.remove(document);
+            return document;
+        } catch (error) {
+            client.logger.error(`[RAG_REPO] Error deleting RAG document: ${error}`);
+            return null;
+        }
+    };
+
+    /**
+     * Search for relevant RAG chunks with hybrid retrieval
+     * Runs a vector similarity search and, when query text is given, a full-text keyword search,
+     * then merges both rankings with reciprocal rank fusion. Vector matches below the similarity
+     * threshold are dropped, so a query with nothing relevant returns no chunks.
+     * @param guildId - Discord guild ID
+     * @param queryEmbedding - Embedding of the query
+     * @param limit - Maximum number of chunks to return
+     * @param options.queryText - Raw query text for keyword search
+     * @param options.similarityThreshold - Minimum cosine similarity (0-1) for vector matches
      */
     searchSimilarChunks = async (
         guildId: string,
         queryEmbedding: number[],
-        limit: number = 3
+        limit: number = 3,
+        options: { queryText?: string; similarityThreshold?: number } = {}
     ): Promise<RagChunk[]> => {
         try {
             const documents = await this.documentRepo.find({
                 where: { guildId },
-                relations: ['chunks']
+                select: ['id']
             });
 
             if (documents.length === 0) {
@@ -343,101 +466,100 @@ export class RagRepository {
             }
 
             const documentIds = documents.map(doc => doc.id);
-            const vectorColumnReady = await this.ensureVectorColumn(queryEmbedding.length);
+            const candidateLimit = limit * 4;
+            const similarityThreshold = options.similarityThreshold ?? 0;
+
+            let vectorSearchRan = false;
+            let keywordSearchRan = false;
+            let vectorResults: Array<{ id: string; similarity: number }> = [];
+            let keywordResults: Array<{ id: string; rank: number }> = [];
 
+            const vectorColumnReady = await this.ensureVectorColumn(queryEmbedding.length);
             if (vectorColumnReady) {
                 try {
-                    const vectorCount = await this.dataSource.query(`
-                    SELECT COUNT(*) as count
+                    const vectorString = `[${queryEmbedding.join(',')}]`;
+                    const rows = await this.dataSource.query(`
+                    SELECT c.id, 1 - (c.embedding_vector <=> $2::vector) AS similarity
                     FROM rag_chunks c
                     INNER JOIN rag_documents d ON d.id = c."documentId"
                     WHERE d.id = ANY($1) AND c.embedding_vector IS NOT NULL
-                `, [documentIds]);
-
-                    client.logger.debug(`[RAG_REPO] Found ${vectorCount[0].count} chunks with vector data`);
-
-                    if (vectorCount[0].count > 0) {
-                        const vectorString = `[${queryEmbedding.join(',')}]`;
-                        const results = await this.dataSource.query(`
-                        SELECT c.*, d.id as doc_id, d."guildId", d."fileName", d.description, 
-                               d."fileType", d."chunkCount", d."createdAt" as doc_created_at, 
-                               d."updatedAt" as doc_updated_at,
-                               (c.embedding_vector <-> $2::vector) as distance
-                        FROM rag_chunks c
-                        INNER JOIN rag_documents d ON d.id = c."documentId"
-                        WHERE d.id = ANY($1) AND c.embedding_vector IS NOT NULL
-                        ORDER BY c.embedding_vector <-> $2::vector
-                        LIMIT $3
-                    `, [documentIds, vectorString, limit]);
-
-                        if (results.length > 0) {
-                            const chunks: RagChunk[] = [];
-                            for (const row of results) {
-                                const chunk = new RagChunk();
-                                chunk.id = row.id;
-                                chunk.content = row.content;
-                                chunk.chunkIndex = row.chunkIndex;
-                                chunk.embedding = row.embedding ? JSON.parse(row.embedding) : null;
-
-                                const document = new RagDocument();
-                                document.id = row.doc_id;
-                                document.guildId = row.guildId;
-                                document.fileName = row.fileName;
-                                document.description = row.description;
-                                document.fileType = row.fileType;
-                                document.chunkCount = row.chunkCount;
-                                document.createdAt = row.doc_created_at;
-                                document.updatedAt = row.doc_updated_at;
-
-                                chunk.document = document;
-                                chunks.push(chunk);
-                            }
-
-                            client.logger.debug(`[RAG_REPO] Vector search returned ${chunks.length} results with distances`);
-                            return chunks;
-                        } else {
-                            client.logger.warn('[RAG_REPO] Vector search returned no results, checking data...');
-
-                            const debugResults = await this.dataSource.query(`
-                            SELECT c.id, c.content, c.embedding_vector IS NOT NULL as has_vector
-                            FROM rag_chunks c
-                            INNER JOIN rag_documents d ON d.id = c."documentId"
-                            WHERE d.id = ANY($1)
-                            LIMIT 5
-                        `, [documentIds]);
-
-                            client.logger.debug(`[RAG_REPO] Debug - Found ${debugResults.length} chunks, vector status: ${JSON.stringify(debugResults.map((r: { id: number, has_vector: boolean }) => ({ id: r.id, hasVector: r.has_vector })))}`);
-                        }
-                    } else {
-                        client.logger.warn('[RAG_REPO] No vector data available, using fallback search');
-
-                        const debugChunks = await this.dataSource.query(`
-                        SELECT COUNT(*) as total_chunks,
-                               COUNT(c.embedding_vector) as chunks_with_vectors
-                        FROM rag_chunks c
-                        INNER JOIN rag_documents d ON d.id = c."documentId"
-                        WHERE d.id = ANY($1)
-                    `, [documentIds]);
-
-                        client.logger.debug(`[RAG_REPO] Debug info: Total chunks: ${debugChunks[0].total_chunks}, Chunks with vectors: ${debugChunks[0].chunks_with_vectors}`);
-                    }
+                    ORDER BY c.embedding_vector <=> $2::vector
+                    LIMIT $3
+                `, [documentIds, vectorString, candidateLimit]);
+
+                    vectorSearchRan = rows.length > 0;
+                    vectorResults = rows
+                        .map((row: { id: string; similarity: string | number }) => ({ id: row.id, similarity: Number(row.similarity) }))
+                        .filter((row: { similarity: number }) => row.similarity >= similarityThreshold);
+
+                    client.logger.debug(`[RAG_REPO] Vector search returned ${rows.length} candidates, ${vectorResults.length} above threshold ${similarityThreshold}`);
                 } catch (vectorError) {
-                    client.logger.warn(`[RAG_REPO] Vector search failed, falling back to simple search: ${vectorError}`);
+                    client.logger.warn(`[RAG_REPO] Vector search failed: ${vectorError}`);
                 }
             } else {
-                client.logger.info('[RAG_REPO] Vector column not ready, using fallback search');
+                client.logger.info('[RAG_REPO] Vector column not ready, skipping vector search');
             }
 
-            client.logger.debug('[RAG_REPO] Using fallback text-based search method');
-            const fallbackResults = await this.chunkRepo.find({
-                where: { document: { id: In(documentIds) } },
-                relations: ['document'],
-                take: limit,
-                order: { chunkIndex: 'ASC' }
+            const keywordQuery = options.queryText ? this.buildKeywordQuery(options.queryText) : null;
+            if (keywordQuery && await this.ensureSearchColumn()) {
+                try {
+                    const rows = await this.dataSource.query(`
+                    SELECT c.id, ts_rank_cd(c.search_vector, to_tsquery('${RagRepository.SEARCH_LANGUAGE}', $2)) AS rank
+                    FROM rag_chunks c
+                    INNER JOIN rag_documents d ON d.id = c."documentId"
+                    WHERE d.id = ANY($1) AND c.search_vector @@ to_tsquery('${RagRepository.SEARCH_LANGUAGE}', $2)
+                    ORDER BY rank DESC
+                    LIMIT $3
+                `, [documentIds, keywordQuery, candidateLimit]);
+
+                    keywordSearchRan = true;
+                    keywordResults = rows.map((row: { id: string; rank: string | number }) => ({ id: row.id, rank: Number(row.rank) }));
+
+                    client.logger.debug(`[RAG_REPO] Keyword search returned ${keywordResults.length} results`);
+                } catch (keywordError) {
+                    client.logger.warn(`[RAG_REPO] Keyword search failed: ${keywordError}`);
+                }
+            }
+
+            if (!vectorSearchRan && !keywordSearchRan) {
+                client.logger.debug('[RAG_REPO] Using fallback search method');
+                const fallbackResults = await this.chunkRepo.find({
+                    where: { document: { id: In(documentIds) } },
+                    relations: ['document'],
+                    take: limit,
+                    order: { chunkIndex: 'ASC' }
+                });
+
+                client.logger.debug(`[RAG_REPO] Fallback search returned ${fallbackResults.length} results`);
+                return fallbackResults;
+            }
+
+            // Reciprocal rank fusion: score = sum of 1 / (k + rank) over both result lists
+            const scores = new Map<string, number>();
+            vectorResults.forEach((row, index) => {
+                scores.set(row.id, (scores.get(row.id) || 0) + 1 / (RagRepository.RRF_K + index + 1));
+            });
+            keywordResults.forEach((row, index) => {
+                scores.set(row.id, (scores.get(row.id) || 0) + 1 / (RagRepository.RRF_K + index + 1));
+            });
+
+            const rankedIds = Array.from(scores.entries())
+                .sort((a, b) => b[1] - a[1])
+                .slice(0, limit)
+                .map(([id]) => id);
+
+            if (rankedIds.length === 0) {
+                client.logger.debug('[RAG_REPO] No chunks passed the similarity threshold');
+                return [];
+            }
+
+            const chunks = await this.chunkRepo.find({
+                where: { id: In(rankedIds) },
+                relations: ['document']
             });
 
-            client.logger.debug(`[RAG_REPO] Fallback search returned ${fallbackResults.length} results`);
-            return fallbackResults;
+            client.logger.debug(`[RAG_REPO] Hybrid search returned ${chunks.length} results (${vectorResults.length} vector, ${keywordResults.length} keyword)`);
+            return chunks.sort((a, b) => rankedIds.indexOf(a.id) - rankedIds.indexOf(b.id));
         } catch (error) {
             client.logger.error(`[RAG_REPO] Error searching similar chunks: ${error}`);
             return [];
@@ -445,17 +567,185 @@ export class RagRepository {
     };
 
     /**
-     * Get RAG document info for a guild
+     * Get all RAG documents for a guild, newest first
      */
-    getRagDocumentInfo = async (guildId: string): Promise<RagDocument | null> => {
+    getRagDocuments = async (guildId: string): Promise<RagDocument[]> => {
         try {
-            return await this.documentRepo.findOne({
+            return await this.documentRepo.find({
                 where: { guildId },
-                relations: ['chunks']
+                order: { createdAt: 'DESC' }
+            });
+        } catch (error) {
+            client.logger.error(`[RAG_REPO] Error getting RAG documents: ${error}`);
+            return [];
+        }
+    };
+
+    /**
+     * Get a single RAG document for a guild by file name
+     */
+    getRagDocumentInfo = async (guildId: string, fileName: string): Promise<RagDocument | null> => {
+        try {
+            return await this.documentRepo.findOne({
+                where: { guildId, fileName }
             });
         } catch (error) {
             client.logger.error(`[RAG_REPO] Error getting RAG document info: ${error}`);
             return null;
         }
     };
+
+    /**
+     * Get a single RAG document for a guild by ID
+     * Values that are not a document ID return null without querying
+     */
+    getRagDocumentById = async (guildId: string, documentId: string): Promise<RagDocument | null> => {
+        if (!RagRepository.DOCUMENT_ID_PATTERN.test(documentId)) return null;
+
+        try {
+            return await this.documentRepo.findOne({
+                where: { guildId, id: documentId }
+            });
+        } catch (error) {
+            client.logger.error(`[RAG_REPO] Error getting RAG document by ID: ${error}`);
+            return null;
+        }
+    };
+
+    /**
+     * Get the RAG document that mirrors a Discord channel, if the channel is synced
+     */
+    getChannelDocument = async (channelId: string): Promise<RagDocument | null> => {
+        try {
+            return await this.documentRepo.findOne({
+                where: { sourceChannelId: channelId }
+            });
+        } catch (error) {
+            client.logger.error(`[RAG_REPO] Error getting channel RAG document: ${error}`);
+            return null;
+        }
+    };
+
+    /**
+     * Get the IDs of every channel mirrored by a RAG document
+     */
+    getSyncedChannelIds = async (): Promise<string[]> => {
+        try {
+            const documents = await this.documentRepo.find({
+                select: { sourceChannelId: true },
+                where: { sourceChannelId: Not(IsNull()) }
+            });
+            return documents.map(doc => doc.sourceChannelId).filter((channelId): channelId is string => !!channelId);
+        } catch (error) {
+            client.logger.error(`[RAG_REPO] Error getting synced channel IDs: ${error}`);
+            return [];
+        }
+    };
+
+    /**
+     * Store (or fully replace) the RAG document mirroring a Discord channel
+     * Each message's chunks are tagged with the message ID so they can be re-synced individually later
+     * @param guildId - Discord guild ID
+     * @param channelId - The synced channel or forum
+     * @param fileName - Display name of the document
+     * @param description - Optional description of the document
+     * @param messages - Processed chunks grouped by source message
+     */
+    storeChannelData = async (
+        guildId: string,
+        channelId: string,
+        fileName: string,
+        description: string | null,
+        messages: IRagMessageDocuments[]
+    ): Promise<RagDocument | null> => {
+        const queryRunner = this.dataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        try {
+            const firstEmbedding = messages.flatMap(message => message.documents).find(doc => doc.embedding)?.embedding;
+            const vectorColumnReady = await this.ensureVectorColumn(firstEmbedding?.length || 384);
+
+            const existing = await queryRunner.manager.findOne(RagDocument, {
+                where: { sourceChannelId: channelId }
+            });
+            if (existing) {
+                await queryRunner.manager.remove(existing);
+            }
+
+            const document = new RagDocument();
+            document.guildId = guildId;
+            document.fileName = fileName;
+            document.fileType = "channel";
+            document.sourceChannelId = channelId;
+            document.description = description || '';
+            document.chunkCount = messages.reduce((sum, message) => sum + message.documents.length, 0);
+            const savedDocument = await queryRunner.manager.save(document);
+
+            for (const message of messages) {
+                await this.saveChunks(queryRunner, savedDocument, message.documents, vectorColumnReady, message.messageId);
+            }
+
+            await queryRunner.commitTransaction();
+            client.logger.info(`[RAG_REPO] Synced channel ${channelId} into ${savedDocument.chunkCount} chunks from ${messages.length} messages`);
+            return savedDocument;
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            client.logger.error(`[RAG_REPO] Error storing channel RAG data: ${error}`);
+            return null;
+        } finally {
+            await queryRunner.release();
+        }
+    };
+
+    /**
+     * Replace the chunks built from a single message of a synced channel
+     * Passing no documents removes the message from the knowledge base
+     * @returns The updated document, or null if the channel is not synced or the update failed
+     */
+    replaceMessageChunks = async (
+        channelId: string,
+        messageId: string,
+        documents: IDocument[]
+    ): Promise<RagDocument | null> => {
+        const queryRunner = this.dataSource.createQueryRunner();
+        await queryRunner.connect();
+        await queryRunner.startTransaction();
+
+        try {
+            const document = await queryRunner.manager.findOne(RagDocument, {
+                where: { sourceChannelId: channelId }
+            });
+            if (!document) {
+                await queryRunner.rollbackTransaction();
+                return null;
+            }
+
+            const removed = await queryRunner.manager
+                .createQueryBuilder()
+                .delete()
+                .from(RagChunk)
+                .where(`"documentId" = :documentId AND "sourceMessageId" = :messageId`, { documentId: document.id, messageId })
+                .execute();
+
+            let vectorColumnReady = false;
+            if (documents.length > 0) {
+                const firstEmbedding = documents.find(doc => doc.embedding)?.embedding;
+                vectorColumnReady = await this.ensureVectorColumn(firstEmbedding?.length || 384);
+            }
+            await this.saveChunks(queryRunner, document, documents, vectorColumnReady, messageId);
+
+            document.chunkCount = Math.max(0, document.chunkCount - (removed.affected || 0) + documents.length);
+            const savedDocument = await queryRunner.manager.save(document);
+
+            await queryRunner.commitTransaction();
+            return savedDocument;
+        } catch (error) {
+            await queryRunner.rollbackTransaction();
+            client.logger.error(`[RAG_REPO] Error re-syncing message ${messageId}: ${error}`);
+            return null;
+        } finally {
+            await queryRunner.release();
+        }
+    };
 }
\ No newline at end of file
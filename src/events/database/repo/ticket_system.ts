@@ -1,8 +1,8 @@
 import discord from "discord.js";
 import client from "../../../salt";
-import { Repository, DataSource, In } from "typeorm";
-import { GuildConfig, TicketCategory, Ticket, TicketMessage, TicketButton, SelectMenuConfig, ITicketStatus } from "../entities/ticket_system";
-import { IGuildConfig, ITicketCategory, ITicket, ITicketMessage, ITicketButton, ISelectMenuConfig } from "../../../types";
+import { Repository, DataSource, In, IsNull, Not } from "typeorm";
+import { GuildConfig, TicketCategory, Ticket, TicketMessage, TicketButton, SelectMenuConfig, TicketFeedback, TicketNote, TicketPanel, ITicketStatus } from "../entities/ticket_system";
+import { IGuildConfig, ITicketCategory, ITicket, ITicketMessage, ITicketButton, ISelectMenuConfig, ITicketSlaType, ITicketFeedback, ITicketNote, ITicketPanel, IStaffTicketStats, ITicketDashboardStats, ITicketFormQuestion, ITicketMode, ITicketPriority, ITicketSearchFilters, ITicketStaffRole } from "../../../types";
 
 /**
  * Repository class for managing ticket system in PostgreSQL
@@ -16,6 +16,9 @@ export class TicketRepository {
     private ticketMessageRepo: Repository<TicketMessage>;
     private ticketButtonRepo: Repository<TicketButton>;
     private selectMenuRepo: Repository<SelectMenuConfig>;
+    private ticketFeedbackRepo: Repository<TicketFeedback>;
+    private ticketNoteRepo: Repository<TicketNote>;
+    private ticketPanelRepo: Repository<TicketPanel>;
     public dataSource: DataSource;
 
     /**
@@ -30,6 +33,9 @@ export class TicketRepository {
         this.ticketMessageRepo = dataSource.getRepository(TicketMessage);
         this.ticketButtonRepo = dataSource.getRepository(TicketButton);
         this.selectMenuRepo = dataSource.getRepository(SelectMenuConfig);
+        this.ticketFeedbackRepo = dataSource.getRepository(TicketFeedback);
+        this.ticketNoteRepo = dataSource.getRepository(TicketNote);
+        this.ticketPanelRepo = dataSource.getRepository(TicketPanel);
     }
 
     // ============== GUILD CONFIG METHODS ==============
@@ -91,6 +97,8 @@ export class TicketRepository {
         configData: {
             defaultCategoryName?: string;
             isEnabled?: boolean;
+            maxOpenTicketsPerUser?: number;
+            ticketCooldownMinutes?: number;
         }
     ): Promise<IGuildConfig | null> {
         try {
@@ -104,6 +112,14 @@ export class TicketRepository {
                 guildConfig.isEnabled = configData.isEnabled;
             }
 
+            if (configData.maxOpenTicketsPerUser !== undefined) {
+                guildConfig.maxOpenTicketsPerUser = configData.maxOpenTicketsPerUser;
+            }
+
+            if (configData.ticketCooldownMinutes !== undefined) {
+                guildConfig.ticketCooldownMinutes = configData.ticketCooldownMinutes;
+            }
+
             return await this.guildConfigRepo.save(guildConfig as GuildConfig);
         } catch (error) {
             client.logger.error(`[TICKET_REPO] Error updating guild config: ${error}`);
@@ -287,6 +303,20 @@ export class TicketRepository {
             supportRoleId?: string;
             position?: number;
             isEnabled?: boolean;
+            slaFirstResponseMinutes?: number | null;
+            slaClaimMinutes?: number | null;
+            slaEscalationRoleId?: string | null;
+            inactivityHours?: number | null;
+            inactivityGraceHours?: number | null;
+            formQuestions?: ITicketFormQuestion[] | null;
+            maxOpenTicketsPerUser?: number | null;
+            ticketCooldownMinutes?: number | null;
+            ticketMode?: ITicketMode;
+            threadChannelId?: string | null;
+            claimOnlyMessaging?: boolean;
+            staffRoles?: ITicketStaffRole[] | null;
+            allowedRoleIds?: string[];
+            deniedRoleIds?: string[];
         }
     ): Promise<ITicketCategory | null> {
         try {
@@ -302,6 +332,20 @@ export class TicketRepository {
             if (categoryData.supportRoleId !== undefined) category.supportRoleId = categoryData.supportRoleId;
             if (categoryData.position !== undefined) category.position = categoryData.position;
             if (categoryData.isEnabled !== undefined) category.isEnabled = categoryData.isEnabled;
+            if (categoryData.slaFirstResponseMinutes !== undefined) category.slaFirstResponseMinutes = categoryData.slaFirstResponseMinutes;
+            if (categoryData.slaClaimMinutes !== undefined) category.slaClaimMinutes = categoryData.slaClaimMinutes;
+            if (categoryData.slaEscalationRoleId !== undefined) category.slaEscalationRoleId = categoryData.slaEscalationRoleId;
+            if (categoryData.inactivityHours !== undefined) category.inactivityHours = categoryData.inactivityHours;
+            if (categoryData.inactivityGraceHours !== undefined) category.inactivityGraceHours = categoryData.inactivityGraceHours;
+            if (categoryData.formQuestions !== undefined) category.formQuestions = categoryData.formQuestions;
+            if (categoryData.maxOpenTicketsPerUser !== undefined) category.maxOpenTicketsPerUser = categoryData.maxOpenTicketsPerUser;
+            if (categoryData.ticketCooldownMinutes !== undefined) category.ticketCooldownMinutes = categoryData.ticketCooldownMinutes;
+            if (categoryData.ticketMode !== undefined) category.ticketMode = categoryData.ticketMode;
+            if (categoryData.threadChannelId !== undefined) category.threadChannelId = categoryData.threadChannelId;
+            if (categoryData.claimOnlyMessaging !== undefined) category.claimOnlyMessaging = categoryData.claimOnlyMessaging;
+            if (categoryData.staffRoles !== undefined) category.staffRoles = categoryData.staffRoles;
+            if (categoryData.allowedRoleIds !== undefined) category.allowedRoleIds = categoryData.allowedRoleIds;
+            if (categoryData.deniedRoleIds !== undefined) category.deniedRoleIds = categoryData.deniedRoleIds;
 
             return await this.ticketCategoryRepo.save(category as TicketCategory);
         } catch (error) {
@@ -421,6 +465,7 @@ export class TicketRepository {
 
             ticket.claimedById = userId;
             ticket.claimedAt = new Date();
+            ticket.firstClaimedAt = ticket.firstClaimedAt ?? ticket.claimedAt;
 
             return await this.ticketRepo.save(ticket);
         } catch (error) {
@@ -429,8 +474,39 @@ export class TicketRepository {
         }
     }
 
+    /**
+     * Hands the claim of a ticket to another staff member, keeping the original claim time
+     * @param ticketId - Ticket ID
+     * @param userId - ID of the staff member taking over the ticket
+     * @returns Updated ticket
+     */
+    async transferTicketClaim(
+        ticketId: string,
+        userId: string
+    ): Promise<ITicket | null> {
+        try {
+            const ticket = await this.ticketRepo.findOne({
+                where: { id: ticketId }
+            });
+
+            if (!ticket) {
+                return null;
+            }
+
+            ticket.claimedById = userId;
+            ticket.claimedAt = ticket.claimedAt ?? new Date();
+            ticket.firstClaimedAt = ticket.firstClaimedAt ?? ticket.claimedAt;
+
+            return await this.ticketRepo.save(ticket);
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error transferring ticket claim: ${error}`);
+            return null;
+        }
+    }
+
     /**
      * Unclaims a ticket
+     * The first claim time is kept, so the claim SLA stays met after unclaiming
      * @param ticketId - Ticket ID
      * @returns Updated ticket
      */
@@ -485,6 +561,100 @@ export class TicketRepository {
         }
     }
 
+    /**
+     * Updates the priority of a ticket
+     * @param ticketId - Ticket ID
+     * @param priority - New priority level
+     * @returns Updated ticket or null if the operation failed
+     */
+    async updateTicketPriority(
+        ticketId: string,
+        priority: ITicketPriority
+    ): Promise<ITicket | null> {
+        try {
+            const ticket = await this.ticketRepo.findOne({
+                where: { id: ticketId },
+                relations: ['category']
+            });
+
+            if (!ticket) {
+                return null;
+            }
+
+            ticket.priority = priority;
+
+            return await this.ticketRepo.save(ticket);
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error updating ticket priority: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Replaces the tags of a ticket
+     * @param ticketId - Ticket ID
+     * @param tags - New list of tags
+     * @returns Updated ticket or null if the operation failed
+     */
+    async updateTicketTags(
+        ticketId: string,
+        tags: string[]
+    ): Promise<ITicket | null> {
+        try {
+            const ticket = await this.ticketRepo.findOne({
+                where: { id: ticketId },
+                relations: ['category']
+            });
+
+            if (!ticket) {
+                return null;
+            }
+
+            ticket.tags = tags;
+
+            return await this.ticketRepo.save(ticket);
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error updating ticket tags: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Records the log channel message holding the transcript of a ticket
+     * @param ticketId - Ticket ID
+     * @param channelId - ID of the log channel
+     * @param messageId - ID of the transcript message
+     * @returns True if the message was recorded, false otherwise
+     */
+    async recordTranscriptMessage(ticketId: string, channelId: string, messageId: string): Promise<boolean> {
+        try {
+            const result = await this.ticketRepo.update(
+                { id: ticketId },
+                { transcriptChannelId: channelId, transcriptMessageId: messageId }
+            );
+            return (result.affected ?? 0) > 0;
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error recording transcript message: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Records where the archived transcript of a ticket is stored
+     * @param ticketId - Ticket ID
+     * @param transcriptPath - Storage key returned by the transcript storage
+     * @returns True if the path was recorded, false otherwise
+     */
+    async recordTranscriptPath(ticketId: string, transcriptPath: string): Promise<boolean> {
+        try {
+            const result = await this.ticketRepo.update({ id: ticketId }, { transcriptPath });
+            return (result.affected ?? 0) > 0;
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error recording transcript path: ${error}`);
+            return false;
+        }
+    }
+
     /**
      * Gets a ticket by ID
      * @param ticketId - Ticket ID
@@ -504,7 +674,8 @@ export class TicketRepository {
 
     /**
      * Gets a ticket by its channel ID
-     * @param channelId - Discord channel ID
+     * Thread-mode tickets store their thread ID as the channel ID, so thread IDs resolve as well
+     * @param channelId - Discord channel or thread ID
      * @returns Ticket or null if not found
      */
     async getTicketByChannelId(channelId: string): Promise<ITicket | null> {
@@ -519,6 +690,123 @@ export class TicketRepository {
         }
     }
 
+    /**
+     * Gets a ticket by its guild-wide ticket number
+     * @param guildId - Discord guild ID
+     * @param ticketNumber - Ticket number shown to users
+     * @returns Ticket or null if not found
+     */
+    async getTicketByNumber(guildId: string, ticketNumber: number): Promise<ITicket | null> {
+        try {
+            return await this.ticketRepo.findOne({
+                where: {
+                    ticketNumber,
+                    category: { guildConfig: { guildId } }
+                },
+                relations: ['category']
+            });
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting ticket by number: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Gets the tickets a user has created in a guild, newest first
+     * @param guildId - Discord guild ID
+     * @param userId - ID of the ticket creator
+     * @param status - Optional status filter
+     * @returns Array of tickets
+     */
+    async getUserTickets(guildId: string, userId: string, status?: ITicketStatus): Promise<ITicket[]> {
+        try {
+            return await this.ticketRepo.find({
+                where: {
+                    creatorId: userId,
+                    category: { guildConfig: { guildId } },
+                    ...(status ? { status } : {})
+                },
+                relations: ['category'],
+                order: { createdAt: 'DESC' }
+            });
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting user tickets: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Searches the tickets of a guild, newest first
+     * @param guildId - Discord guild ID
+     * @param filters - Search filters, results are limited to the given category IDs
+     * @param page - Zero-based page number
+     * @param pageSize - Number of tickets per page
+     * @returns The tickets of the page and the total number of matches
+     */
+    async searchTickets(
+        guildId: string,
+        filters: ITicketSearchFilters,
+        page: number,
+        pageSize: number
+    ): Promise<{ tickets: ITicket[]; total: number }> {
+        if (filters.categoryIds.length === 0) {
+            return { tickets: [], total: 0 };
+        }
+
+        try {
+            const query = this.ticketRepo.createQueryBuilder("ticket")
+                .innerJoinAndSelect("ticket.category", "category")
+                .innerJoin("category.guildConfig", "guildConfig")
+                .where("guildConfig.guildId = :guildId", { guildId })
+                .andWhere("category.id IN (:...categoryIds)", { categoryIds: filters.categoryIds });
+
+            if (filters.creatorId) query.andWhere("ticket.creatorId = :creatorId", { creatorId: filters.creatorId });
+            if (filters.claimedById) query.andWhere("ticket.claimedById = :claimedById", { claimedById: filters.claimedById });
+            if (filters.categoryId) query.andWhere("category.id = :categoryId", { categoryId: filters.categoryId });
+            if (filters.tag) query.andWhere(":tag = ANY(ticket.tags)", { tag: filters.tag });
+            if (filters.status) query.andWhere("ticket.status = :status", { status: filters.status });
+            if (filters.from) query.andWhere("ticket.createdAt >= :from", { from: filters.from });
+            if (filters.to) query.andWhere("ticket.createdAt <= :to", { to: filters.to });
+
+            const [tickets, total] = await query
+                .orderBy("ticket.createdAt", "DESC")
+                .skip(page * pageSize)
+                .take(pageSize)
+                .getManyAndCount();
+
+            return { tickets, total };
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error searching tickets: ${error}`);
+            return { tickets: [], total: 0 };
+        }
+    }
+
+    /**
+     * Gets the unclaimed open tickets of a guild, most urgent first and oldest first within a priority
+     * @param guildId - Discord guild ID
+     * @returns Array of tickets in queue order
+     */
+    async getTicketQueue(guildId: string): Promise<ITicket[]> {
+        const priorityOrder: ITicketPriority[] = ["urgent", "high", "normal", "low"];
+
+        try {
+            const tickets = await this.ticketRepo.find({
+                where: {
+                    status: ITicketStatus.OPEN,
+                    claimedById: IsNull(),
+                    category: { guildConfig: { guildId } }
+                },
+                relations: ['category'],
+                order: { createdAt: 'ASC' }
+            });
+
+            return tickets.sort((a, b) => priorityOrder.indexOf(a.priority) - priorityOrder.indexOf(b.priority));
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting ticket queue: ${error}`);
+            return [];
+        }
+    }
+
     /**
      * Gets all tickets for a guild
      * @param guildId - Discord guild ID
@@ -602,6 +890,11 @@ export class TicketRepository {
                 ticket.closeReason = reason;
             }
 
+            if (status === ITicketStatus.OPEN) {
+                ticket.lastActivityAt = new Date();
+                ticket.inactivityWarnedAt = null;
+            }
+
             return await this.ticketRepo.save(ticket);
         } catch (error) {
             client.logger.error(`[TICKET_REPO] Error updating ticket status: ${error}`);
@@ -630,6 +923,146 @@ export class TicketRepository {
         }
     }
 
+    // ============== SLA METHODS ==============
+
+    /**
+     * Gets all open tickets whose category has an SLA configured
+     * @returns Array of tickets with their category and guild config
+     */
+    async getOpenSlaTickets(): Promise<ITicket[]> {
+        try {
+            return await this.ticketRepo.createQueryBuilder("ticket")
+                .innerJoinAndSelect("ticket.category", "category")
+                .innerJoinAndSelect("category.guildConfig", "guildConfig")
+                .where("ticket.status = :status", { status: ITicketStatus.OPEN })
+                .andWhere("(category.slaFirstResponseMinutes IS NOT NULL OR category.slaClaimMinutes IS NOT NULL)")
+                .getMany();
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting open SLA tickets: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Records the first response of a staff member in a ticket
+     * Only the first call has an effect, later responses are ignored
+     * @param ticketId - Ticket ID
+     * @returns True if the response was recorded, false otherwise
+     */
+    async recordFirstResponse(ticketId: string): Promise<boolean> {
+        try {
+            const result = await this.ticketRepo.createQueryBuilder()
+                .update(Ticket)
+                .set({ firstResponseAt: new Date() })
+                .where("id = :ticketId", { ticketId })
+                .andWhere('"firstResponseAt" IS NULL')
+                .execute();
+
+            return (result.affected ?? 0) > 0;
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error recording first response: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Records that an SLA warning was sent for a ticket
+     * Only the first call has an effect, so overlapping checks send a single warning
+     * @param ticketId - Ticket ID
+     * @param type - The SLA that is about to be breached
+     * @returns True if the warning was recorded, false if it was already recorded or recording failed
+     */
+    async recordSlaWarning(ticketId: string, type: ITicketSlaType): Promise<boolean> {
+        try {
+            const column = type === "response" ? "slaResponseWarnedAt" : "slaClaimWarnedAt";
+            const result = await this.ticketRepo.createQueryBuilder()
+                .update(Ticket)
+                .set({ [column]: new Date() })
+                .where("id = :ticketId", { ticketId })
+                .andWhere(`"${column}" IS NULL`)
+                .execute();
+
+            return (result.affected ?? 0) > 0;
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error recording SLA warning: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Records an SLA breach on a ticket for reporting
+     * Only the first call has an effect, so overlapping checks escalate once
+     * @param ticketId - Ticket ID
+     * @param type - The SLA that was breached
+     * @returns True if the breach was recorded, false if it was already recorded or recording failed
+     */
+    async recordSlaBreach(ticketId: string, type: ITicketSlaType): Promise<boolean> {
+        try {
+            const column = type === "response" ? "slaResponseBreachedAt" : "slaClaimBreachedAt";
+            const result = await this.ticketRepo.createQueryBuilder()
+                .update(Ticket)
+                .set({ [column]: new Date() })
+                .where("id = :ticketId", { ticketId })
+                .andWhere(`"${column}" IS NULL`)
+                .execute();
+
+            return (result.affected ?? 0) > 0;
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error recording SLA breach: ${error}`);
+            return false;
+        }
+    }
+
+    // ============== INACTIVITY METHODS ==============
+
+    /**
+     * Gets all open tickets whose category has an inactivity policy configured
+     * @returns Array of tickets with their category and guild config
+     */
+    async getOpenInactivityTickets(): Promise<ITicket[]> {
+        try {
+            return await this.ticketRepo.createQueryBuilder("ticket")
+                .innerJoinAndSelect("ticket.category", "category")
+                .innerJoinAndSelect("category.guildConfig", "guildConfig")
+                .where("ticket.status = :status", { status: ITicketStatus.OPEN })
+                .andWhere("category.inactivityHours IS NOT NULL")
+                .getMany();
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting open inactivity tickets: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Records activity on a ticket, resetting its inactivity timer and any pending warning
+     * @param ticketId - Ticket ID
+     * @returns True if the activity was recorded, false otherwise
+     */
+    async recordTicketActivity(ticketId: string): Promise<boolean> {
+        try {
+            await this.ticketRepo.update({ id: ticketId }, { lastActivityAt: new Date(), inactivityWarnedAt: null });
+            return true;
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error recording ticket activity: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Records that an inactivity warning was sent for a ticket
+     * @param ticketId - Ticket ID
+     * @returns True if the warning was recorded, false if it was already recorded or recording failed
+     */
+    async recordInactivityWarning(ticketId: string): Promise<boolean> {
+        try {
+            await this.ticketRepo.update({ id: ticketId }, { inactivityWarnedAt: new Date() });
+            return true;
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error recording inactivity warning: ${error}`);
+            return false;
+        }
+    }
+
     // ============== TICKET MESSAGE METHODS ==============
 
     /**
@@ -754,6 +1187,187 @@ export class TicketRepository {
         }
     }
 
+    /**
+     * Gets the configurations of all enabled guilds with a deployed ticket panel
+     * @returns Array of guild configurations with their ticket button
+     */
+    async getDeployedPanelConfigs(): Promise<IGuildConfig[]> {
+        try {
+            return await this.guildConfigRepo.find({
+                where: {
+                    isEnabled: true,
+                    ticketButton: { messageId: Not(IsNull()), channelId: Not(IsNull()) }
+                },
+                relations: ['ticketButton']
+            });
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting deployed ticket panels: ${error}`);
+            return [];
+        }
+    }
+
+    // ============== PANEL METHODS ==============
+
+    /**
+     * Creates a ticket panel
+     * @param guildId - Discord guild ID
+     * @param panelData - Ticket panel data
+     * @returns Created ticket panel or null if creation failed
+     */
+    async createTicketPanel(
+        guildId: string,
+        panelData: {
+            name: string;
+            label?: string;
+            emoji?: string;
+            style?: string;
+            embedTitle?: string | null;
+            embedDescription?: string | null;
+            embedColor?: string | null;
+            categoryIds?: string[];
+        }
+    ): Promise<ITicketPanel | null> {
+        try {
+            const guildConfig = await this.getOrCreateGuildConfig(guildId);
+
+            const panel = this.ticketPanelRepo.create({
+                ...panelData,
+                guildConfig: guildConfig as GuildConfig
+            });
+
+            return await this.ticketPanelRepo.save(panel);
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error creating ticket panel: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Gets all ticket panels of a guild, sorted by name
+     * @param guildId - Discord guild ID
+     * @returns Array of ticket panels
+     */
+    async getTicketPanels(guildId: string): Promise<ITicketPanel[]> {
+        try {
+            return await this.ticketPanelRepo.find({
+                where: { guildConfig: { guildId } },
+                order: { name: 'ASC' }
+            });
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting ticket panels: ${error}`);
+            return [];
+        }
+    }
+
+    /**
+     * Gets a ticket panel by ID
+     * @param panelId - Ticket panel ID
+     * @returns Ticket panel or null if not found
+     */
+    async getTicketPanel(panelId: string): Promise<ITicketPanel | null> {
+        try {
+            return await this.ticketPanelRepo.findOne({
+                where: { id: panelId },
+                relations: ['guildConfig']
+            });
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting ticket panel: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Gets a ticket panel of a guild by its name, ignoring case
+     * @param guildId - Discord guild ID
+     * @param name - Panel name
+     * @returns Ticket panel or null if not found
+     */
+    async getTicketPanelByName(guildId: string, name: string): Promise<ITicketPanel | null> {
+        try {
+            return await this.ticketPanelRepo.createQueryBuilder("panel")
+                .innerJoin("panel.guildConfig", "guildConfig")
+                .where("guildConfig.guildId = :guildId", { guildId })
+                .andWhere("LOWER(panel.name) = LOWER(:name)", { name })
+                .getOne();
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting ticket panel by name: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Updates a ticket panel
+     * @param panelId - Ticket panel ID
+     * @param panelData - Ticket panel data
+     * @returns Updated ticket panel or null if not found
+     */
+    async updateTicketPanel(
+        panelId: string,
+        panelData: {
+            label?: string;
+            emoji?: string;
+            style?: string;
+            embedTitle?: string | null;
+            embedDescription?: string | null;
+            embedColor?: string | null;
+            categoryIds?: string[];
+            channelId?: string | null;
+            messageId?: string | null;
+        }
+    ): Promise<ITicketPanel | null> {
+        try {
+            const panel = await this.ticketPanelRepo.findOne({
+                where: { id: panelId }
+            });
+
+            if (!panel) {
+                return null;
+            }
+
+            Object.assign(panel, panelData);
+
+            return await this.ticketPanelRepo.save(panel);
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error updating ticket panel: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Deletes a ticket panel
+     * @param panelId - Ticket panel ID
+     * @returns True if the panel was deleted, false otherwise
+     */
+    async deleteTicketPanel(panelId: string): Promise<boolean> {
+        try {
+            const result = await this.ticketPanelRepo.delete({ id: panelId });
+            return !!result.affected;
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error deleting ticket panel: ${error}`);
+            return false;
+        }
+    }
+
+    /**
+     * Gets all deployed ticket panels of enabled guilds
+     * @returns Array of ticket panels with their guild configuration and ticket button
+     */
+    async getDeployedTicketPanels(): Promise<ITicketPanel[]> {
+        try {
+            return await this.ticketPanelRepo.find({
+                where: {
+                    messageId: Not(IsNull()),
+                    channelId: Not(IsNull()),
+                    guildConfig: { isEnabled: true }
+                },
+                relations: ['guildConfig', 'guildConfig.ticketButton']
+            });
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting deployed ticket panels: ${error}`);
+            return [];
+        }
+    }
+
     // ============== SELECT MENU METHODS ==============
 
     /**
@@ -819,8 +1433,271 @@ export class TicketRepository {
         }
     }
 
+    // ============== NOTE METHODS ==============
+
+    /**
+     * Adds an internal staff note to a ticket
+     * @param ticketId - Ticket ID
+     * @param authorId - ID of the staff member writing the note
+     * @param content - Note text
+     * @returns Created note or null if the ticket was not found
+     */
+    async addTicketNote(ticketId: string, authorId: string, content: string): Promise<ITicketNote | null> {
+        try {
+            const ticket = await this.ticketRepo.findOne({
+                where: { id: ticketId }
+            });
+
+            if (!ticket) {
+                return null;
+            }
+
+            const note = this.ticketNoteRepo.create({
+                authorId,
+                content,
+                ticket
+            });
+
+            return await this.ticketNoteRepo.save(note);
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error adding ticket note: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Gets the internal staff notes of a ticket, oldest first
+     * @param ticketId - Ticket ID
+     * @returns Array of notes
+     */
+    async getTicketNotes(ticketId: string): Promise<ITicketNote[]> {
+        try {
+            return await this.ticketNoteRepo.find({
+                where: { ticket: { id: ticketId } },
+                order: { createdAt: 'ASC' }
+            });
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting ticket notes: ${error}`);
+            return [];
+        }
+    }
+
+    // ============== FEEDBACK METHODS ==============
+
+    /**
+     * Saves the creator's rating of a closed ticket, replacing an earlier rating
+     * The rating is linked to the staff member who claimed the ticket
+     * @param ticketId - Ticket ID
+     * @param rating - Rating from 1 to 5
+     * @returns Saved feedback or null if the ticket was not found
+     */
+    async saveTicketFeedback(ticketId: string, rating: number): Promise<ITicketFeedback | null> {
+        try {
+            const ticket = await this.ticketRepo.findOne({
+                where: { id: ticketId },
+                relations: ['category', 'category.guildConfig']
+            });
+
+            if (!ticket) {
+                return null;
+            }
+
+            let feedback = await this.ticketFeedbackRepo.findOne({
+                where: { ticket: { id: ticketId } }
+            });
+
+            if (!feedback) {
+                feedback = this.ticketFeedbackRepo.create({
+                    guildId: ticket.category.guildConfig.guildId,
+                    creatorId: ticket.creatorId,
+                    comment: null,
+                    ticket
+                });
+            }
+
+            feedback.rating = rating;
+            feedback.staffId = ticket.claimedById ?? null;
+
+            return await this.ticketFeedbackRepo.save(feedback);
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error saving ticket feedback: ${error}`);
+            return null;
+        }
+    }
+
+    /**
+     * Adds a comment to the feedback of a ticket
+     * @param ticketId - Ticket ID
+     * @param comment - Comment left by the ticket creator
+     * @returns Updated feedback or null if no rating exists for the ticket
+     */
+    async setTicketFeedbackComment(ticketId: string, comment: string): Promise<ITicketFeedback | null> {
+        try {
+            const feedback = await this.ticketFeedbackRepo.findOne({
+                where: { ticket: { id: ticketId } }
+            });
+
+            if (!feedback) {
+                return null;
+            }
+
+            feedback.comment = comment;
+
+            return await this.ticketFeedbackRepo.save(feedback);
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error saving ticket feedback comment: ${error}`);
+            return null;
+        }
+    }
+
     // ============== STATISTICS METHODS ==============
 
+    /**
+     * Gets time-series statistics for the tickets of a guild over the last days
+     * Day and hour buckets use UTC
+     * @param guildId - Discord guild ID
+     * @param days - Number of days to include, ending today
+     * @returns Daily opened/closed counts, median claim and close times, SLA breaches, and the busiest categories and hours
+     */
+    async getTicketDashboardStats(guildId: string, days: number): Promise<ITicketDashboardStats> {
+        const dayMs = 24 * 60 * 60 * 1000;
+        const today = new Date();
+        today.setUTCHours(0, 0, 0, 0);
+        const since = new Date(today.getTime() - (days - 1) * dayMs);
+
+        const stats: ITicketDashboardStats = {
+            days: Array.from({ length: days }, (_, index) => ({
+                date: new Date(since.getTime() + index * dayMs).toISOString().slice(0, 10),
+                opened: 0,
+                closed: 0
+            })),
+            openedTickets: 0,
+            closedTickets: 0,
+            medianClaimMs: null,
+            medianCloseMs: null,
+            responseSlaBreaches: 0,
+            claimSlaBreaches: 0,
+            categories: [],
+            hours: new Array(24).fill(0)
+        };
+
+        try {
+            const tickets = await this.ticketRepo.createQueryBuilder("ticket")
+                .innerJoinAndSelect("ticket.category", "category")
+                .innerJoin("category.guildConfig", "guildConfig")
+                .where("guildConfig.guildId = :guildId", { guildId })
+                .andWhere("(ticket.createdAt >= :since OR ticket.closedAt >= :since)", { since })
+                .getMany();
+
+            const median = (values: number[]): number | null => {
+                if (values.length === 0) return null;
+                const sorted = [...values].sort((a, b) => a - b);
+                const middle = Math.floor(sorted.length / 2);
+                return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+            };
+
+            const dayIndex = (date: Date): number => Math.floor((date.getTime() - since.getTime()) / dayMs);
+            const categoryCounts = new Map<string, number>();
+            const claimTimes: number[] = [];
+            const closeTimes: number[] = [];
+
+            tickets.forEach(ticket => {
+                const createdAt = new Date(ticket.createdAt);
+                const openedIndex = dayIndex(createdAt);
+
+                if (openedIndex >= 0 && openedIndex < days) {
+                    stats.days[openedIndex].opened++;
+                    stats.openedTickets++;
+                    stats.hours[createdAt.getUTCHours()]++;
+                    categoryCounts.set(ticket.category.name, (categoryCounts.get(ticket.category.name) || 0) + 1);
+                    if (ticket.slaResponseBreachedAt) stats.responseSlaBreaches++;
+                    if (ticket.slaClaimBreachedAt) stats.claimSlaBreaches++;
+
+                    const firstClaimedAt = ticket.firstClaimedAt ?? ticket.claimedAt;
+                    if (firstClaimedAt) {
+                        claimTimes.push(new Date(firstClaimedAt).getTime() - createdAt.getTime());
+                    }
+                }
+
+                if (ticket.closedAt && ticket.status !== ITicketStatus.OPEN) {
+                    const closedIndex = dayIndex(new Date(ticket.closedAt));
+                    if (closedIndex >= 0 && closedIndex < days) {
+                        stats.days[closedIndex].closed++;
+                        stats.closedTickets++;
+                        closeTimes.push(new Date(ticket.closedAt).getTime() - createdAt.getTime());
+                    }
+                }
+            });
+
+            stats.medianClaimMs = median(claimTimes);
+            stats.medianCloseMs = median(closeTimes);
+            stats.categories = Array.from(categoryCounts.entries())
+                .map(([name, count]) => ({ name, count }))
+                .sort((a, b) => b.count - a.count);
+
+            return stats;
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting ticket dashboard stats: ${error}`);
+            return stats;
+        }
+    }
+
+    /**
+     * Gets the ticket volume and average rating per staff member over a date range
+     * Volume counts claimed tickets closed in the range, ratings count feedback left in the range
+     * @param guildId - Discord guild ID
+     * @param from - Start of the date range
+     * @param to - End of the date range
+     * @returns Statistics per staff member, unclaimed tickets are grouped under a null staff ID
+     */
+    async getStaffTicketStats(guildId: string, from: Date, to: Date): Promise<IStaffTicketStats[]> {
+        try {
+            const handled: Array<{ staffId: string; count: string }> = await this.ticketRepo.createQueryBuilder("ticket")
+                .innerJoin("ticket.category", "category")
+                .innerJoin("category.guildConfig", "guildConfig")
+                .select("ticket.claimedById", "staffId")
+                .addSelect("COUNT(*)", "count")
+                .where("guildConfig.guildId = :guildId", { guildId })
+                .andWhere("ticket.claimedById IS NOT NULL")
+                .andWhere("ticket.closedAt BETWEEN :from AND :to", { from, to })
+                .groupBy("ticket.claimedById")
+                .getRawMany();
+
+            const ratings: Array<{ staffId: string | null; count: string; average: string }> = await this.ticketFeedbackRepo.createQueryBuilder("feedback")
+                .select("feedback.staffId", "staffId")
+                .addSelect("COUNT(*)", "count")
+                .addSelect("AVG(feedback.rating)", "average")
+                .where("feedback.guildId = :guildId", { guildId })
+                .andWhere("feedback.createdAt BETWEEN :from AND :to", { from, to })
+                .groupBy("feedback.staffId")
+                .getRawMany();
+
+            const stats = new Map<string | null, IStaffTicketStats>();
+            const getEntry = (staffId: string | null): IStaffTicketStats => {
+                if (!stats.has(staffId)) {
+                    stats.set(staffId, { staffId, handledTickets: 0, ratingCount: 0, averageRating: null });
+                }
+                return stats.get(staffId)!;
+            };
+
+            handled.forEach(row => {
+                getEntry(row.staffId).handledTickets = parseInt(row.count, 10);
+            });
+
+            ratings.forEach(row => {
+                const entry = getEntry(row.staffId);
+                entry.ratingCount = parseInt(row.count, 10);
+                entry.averageRating = row.average !== null ? parseFloat(row.average) : null;
+            });
+
+            return Array.from(stats.values())
+                .sort((a, b) => b.handledTickets - a.handledTickets || b.ratingCount - a.ratingCount);
+        } catch (error) {
+            client.logger.error(`[TICKET_REPO] Error getting staff ticket stats: ${error}`);
+            return [];
+        }
+    }
+
     /**
      * Gets ticket statistics for a guild
      * @param guildId - Discord guild ID
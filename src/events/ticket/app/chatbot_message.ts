@@ -1,6 +1,6 @@
 import discord from "discord.js";
 import { BotEvent } from "../../../types";
-import { ChatbotService } from "../../../utils/ai";
+import { ChatbotService, StreamRenderer } from "../../../utils/ai";
 
 const event: BotEvent = {
     name: discord.Events.MessageCreate,
@@ -23,11 +23,13 @@ const event: BotEvent = {
                 await message.channel.sendTyping();
             }
 
+            const renderer = new StreamRenderer(message);
             const result = await chatbotService.processMessage(
                 message.content,
                 message.author.id,
                 config,
-                message.channelId
+                message.channelId,
+                renderer
             );
 
             if (!result) {
@@ -44,7 +46,7 @@ const event: BotEvent = {
                     components: [result.confirmationButtons],
                     allowedMentions: { repliedUser: false }
                 });
-            } else if (result.response) {
+            } else if (result.response && !result.streamed) {
                 const chunks = chatbotService.splitResponse(result.response);
 
                 for (const chunk of chunks) {
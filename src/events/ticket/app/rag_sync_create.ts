@@ -0,0 +1,24 @@
+import discord from "discord.js";
+import { BotEvent } from "../../../types";
+import { ChannelKnowledgeSync } from "../../../utils/ai";
+
+const event: BotEvent = {
+    name: discord.Events.MessageCreate,
+    execute: async (message: discord.Message, client: discord.Client): Promise<void> => {
+        try {
+            if (!message.guild || message.author.id === client.user?.id) return;
+            if (!(client as any).dataSource) return;
+
+            // Messages outside synced channels, or without indexable text, never touch the database
+            if (!ChannelKnowledgeSync.getSyncedChannelId(message.channel, message.channelId)) return;
+            if (!ChannelKnowledgeSync.formatMessage(message)) return;
+
+            const sync = new ChannelKnowledgeSync((client as any).dataSource);
+            await sync.syncMessage(message);
+        } catch (error) {
+            client.logger.error(`[CHATBOT_RAG] Error syncing new message ${message.id}: ${error}`);
+        }
+    }
+};
+
+export default event;
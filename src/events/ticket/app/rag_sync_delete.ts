@@ -0,0 +1,20 @@
+import discord from "discord.js";
+import { BotEvent } from "../../../types";
+import { ChannelKnowledgeSync } from "../../../utils/ai";
+
+const event: BotEvent = {
+    name: discord.Events.MessageDelete,
+    execute: async (message: discord.Message | discord.PartialMessage, client: discord.Client): Promise<void> => {
+        try {
+            if (!message.guildId || !(client as any).dataSource) return;
+            if (!ChannelKnowledgeSync.getSyncedChannelId(message.channel, message.channelId)) return;
+
+            const sync = new ChannelKnowledgeSync((client as any).dataSource);
+            await sync.removeMessage(message.channel ?? null, message.channelId, message.id);
+        } catch (error) {
+            client.logger.error(`[CHATBOT_RAG] Error removing deleted message ${message.id}: ${error}`);
+        }
+    }
+};
+
+export default event;
@@ -0,0 +1,32 @@
+import discord from "discord.js";
+import { BotEvent } from "../../../types";
+import { ChannelKnowledgeSync } from "../../../utils/ai";
+
+const event: BotEvent = {
+    name: discord.Events.MessageUpdate,
+    execute: async (
+        oldMessage: discord.Message | discord.PartialMessage,
+        newMessage: discord.Message | discord.PartialMessage,
+        client: discord.Client
+    ): Promise<void> => {
+        try {
+            if (!newMessage.guildId || !(client as any).dataSource) return;
+            if (!ChannelKnowledgeSync.getSyncedChannelId(newMessage.channel, newMessage.channelId)) return;
+
+            const message = newMessage.partial ? await newMessage.fetch() : newMessage;
+            if (message.author.id === client.user?.id) return;
+
+            // Link previews and other embed-only updates don't change the indexed text
+            if (!oldMessage.partial && ChannelKnowledgeSync.formatMessage(oldMessage) === ChannelKnowledgeSync.formatMessage(message)) {
+                return;
+            }
+
+            const sync = new ChannelKnowledgeSync((client as any).dataSource);
+            await sync.syncMessage(message);
+        } catch (error) {
+            client.logger.error(`[CHATBOT_RAG] Error re-syncing edited message ${newMessage.id}: ${error}`);
+        }
+    }
+};
+
+export default event;
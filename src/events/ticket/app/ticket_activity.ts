@@ -0,0 +1,39 @@
+import discord from "discord.js";
+import { BotEvent } from "../../../types";
+import { isTicketStaff } from "../../../utils/ticket_permissions";
+import { ITicketStatus } from "../../database/entities/ticket_system";
+import { TicketRepository } from "../../database/repo/ticket_system";
+
+const event: BotEvent = {
+    name: discord.Events.MessageCreate,
+    execute: async (message: discord.Message, client: discord.Client): Promise<void> => {
+        try {
+            if (!message.guild || message.author.bot || message.system) return;
+            if (!(client as any).dataSource) return;
+
+            const ticketRepo = new TicketRepository((client as any).dataSource);
+            const ticket = await ticketRepo.getTicketByChannelId(message.channelId);
+            if (!ticket || ticket.status !== ITicketStatus.OPEN) return;
+
+            if (ticket.creatorId === message.author.id) {
+                if (ticket.category.inactivityHours || ticket.inactivityWarnedAt) {
+                    await ticketRepo.recordTicketActivity(ticket.id);
+                }
+                return;
+            }
+
+            if (ticket.firstResponseAt) return;
+
+            const member = message.member ?? await message.guild.members.fetch(message.author.id).catch(() => null);
+            if (!isTicketStaff(member, ticket.category)) return;
+
+            if (await ticketRepo.recordFirstResponse(ticket.id)) {
+                client.logger.debug(`[TICKET_SLA] Recorded first staff response for ticket #${ticket.ticketNumber} by ${message.author.tag}`);
+            }
+        } catch (error) {
+            client.logger.error(`[TICKET_ACTIVITY] Error recording ticket activity in ${message.channelId}: ${error}`);
+        }
+    }
+};
+
+export default event;
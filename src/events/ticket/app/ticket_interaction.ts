@@ -1,14 +1,16 @@
 import discord from "discord.js";
-import { BotEvent } from "../../../types";
-import { createTicket } from "../../../utils/ticket_utils";
+import { BotEvent, ITicket, ITicketCategory, ITicketChannel, ITicketPriority } from "../../../types";
+import { createTicket, createTicketFormModal, checkTicketCreationLimits, unlockTicketChannel, applyClaimPermissions, updateTicketControls, releaseTicketClaim, reassignTicketClaim, setTicketPriority, TICKET_PRIORITIES } from "../../../utils/ticket_utils";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
 import { ITicketStatus } from "../../../events/database/entities/ticket_system";
-import { createAndSendTranscript } from "../../../utils/transcript";
+import { createAndSendTranscript, getStoredTranscript } from "../../../utils/transcript";
+import { hasTicketStaffLevel, isTicketStaff } from "../../../utils/ticket_permissions";
+import { sendTicketHistory } from "../../../utils/ticket_history";
 
 const event: BotEvent = {
     name: discord.Events.InteractionCreate,
     execute: async (interaction: discord.Interaction, client: discord.Client): Promise<void> => {
-        if (!interaction.isButton() && !interaction.isStringSelectMenu()) {
+        if (!interaction.isButton() && !interaction.isStringSelectMenu() && !interaction.isUserSelectMenu()) {
             return;
         }
 
@@ -21,57 +23,24 @@ const event: BotEvent = {
             const ticketRepo = new TicketRepository((client as any).dataSource);
 
             if (interaction.isButton()) {
-                switch (interaction.customId) {
-                    case "create_ticket":
-                        const categories = await ticketRepo.getTicketCategories(interaction.guildId!);
-                        const enabledCategories = categories.filter(category => category.isEnabled);
+                if (interaction.customId.startsWith("ticket_feedback_")) {
+                    await handleFeedbackButton(interaction, client, ticketRepo);
+                    return;
+                }
 
-                        if (enabledCategories.length === 0) {
-                            await interaction.reply({
-                                embeds: [
-                                    new discord.EmbedBuilder()
-                                        .setTitle("No Categories Available")
-                                        .setDescription("There are no ticket categories available.")
-                                        .setColor("Red")
-                                ],
-                                flags: discord.MessageFlags.Ephemeral
-                            });
-                            return;
-                        }
+                if (interaction.customId.startsWith("create_ticket:")) {
+                    await handleCreateTicketButton(interaction, client, ticketRepo, interaction.customId.split(":")[1]);
+                    return;
+                }
 
-                        if (enabledCategories.length === 1) {
-                            await createTicket(interaction, enabledCategories[0].id);
-                            return;
-                        }
+                if (interaction.customId.startsWith("ticket_transcript_fetch:")) {
+                    await handleTranscriptFetch(interaction, client, ticketRepo);
+                    return;
+                }
 
-                        const selectMenu = new discord.StringSelectMenuBuilder()
-                            .setCustomId("ticket_category_select")
-                            .setPlaceholder("Select a ticket category");
-                        enabledCategories.forEach(category => {
-                            selectMenu.addOptions({
-                                label: category.name,
-                                description: category.description?.substring(0, 100) || `Support for ${category.name}`,
-                                value: category.id,
-                                emoji: category.emoji || "🎫"
-                            });
-                        });
-
-                        const menuConfig = await ticketRepo.getSelectMenuConfig(interaction.guildId!);
-                        const selectEmbed = new discord.EmbedBuilder()
-                            .setTitle(menuConfig?.embedTitle || "Create a Ticket")
-                            .setDescription(menuConfig?.embedDescription || "Please select a category for your ticket")
-                            .setColor((menuConfig?.embedColor || "Blue") as discord.ColorResolvable)
-                            .setFooter({ text: "Powered by Salt Bot", iconURL: client.user?.displayAvatarURL() })
-                            .setTimestamp();
-
-                        const actionRow = new discord.ActionRowBuilder<discord.StringSelectMenuBuilder>()
-                            .addComponents(selectMenu);
-
-                        await interaction.reply({
-                            embeds: [selectEmbed],
-                            components: [actionRow],
-                            flags: discord.MessageFlags.Ephemeral
-                        });
+                switch (interaction.customId) {
+                    case "create_ticket":
+                        await handleCreateTicketButton(interaction, client, ticketRepo);
                         break;
 
                     case "ticket_close":
@@ -103,6 +72,20 @@ const event: BotEvent = {
                             return;
                         }
 
+                        if (closeTicket.creatorId !== interaction.user.id &&
+                            !hasTicketStaffLevel(interaction.member as discord.GuildMember, closeTicket.category, "manage")) {
+                            await interaction.reply({
+                                embeds: [
+                                    new discord.EmbedBuilder()
+                                        .setTitle("Permission Denied")
+                                        .setDescription("You don't have permission to close this ticket.")
+                                        .setColor("Red")
+                                ],
+                                flags: discord.MessageFlags.Ephemeral
+                            });
+                            return;
+                        }
+
                         const closeModal = new discord.ModalBuilder()
                             .setCustomId("ticket_close_modal")
                             .setTitle("Close Ticket");
@@ -137,11 +120,38 @@ const event: BotEvent = {
                     case "ticket_claim":
                         await handleClaimTicket(interaction, client, ticketRepo);
                         break;
+
+                    case "ticket_unclaim":
+                        await handleUnclaimTicket(interaction, client, ticketRepo);
+                        break;
+
+                    case "ticket_transfer_claim":
+                        await handleTransferClaimButton(interaction, client, ticketRepo);
+                        break;
+
+                    case "ticket_keep_open":
+                        await handleKeepOpenTicket(interaction, client, ticketRepo);
+                        break;
+
+                    case "ticket_user_history":
+                        await handleUserHistory(interaction, client, ticketRepo);
+                        break;
                 }
             } else if (interaction.isStringSelectMenu()) {
                 if (interaction.customId === "ticket_category_select") {
                     const categoryId = interaction.values[0];
-                    await createTicket(interaction, categoryId);
+                    const category = await ticketRepo.getTicketCategory(categoryId);
+                    if (!category) {
+                        await createTicket(interaction, categoryId);
+                        return;
+                    }
+                    await startTicketCreation(interaction, category);
+                } else if (interaction.customId === "ticket_priority_select") {
+                    await handlePrioritySelect(interaction, client, ticketRepo);
+                }
+            } else if (interaction.isUserSelectMenu()) {
+                if (interaction.customId.startsWith("ticket_transfer_claim_select:")) {
+                    await handleTransferClaimSelect(interaction, client, ticketRepo);
                 }
             }
         } catch (error) {
@@ -165,6 +175,118 @@ const event: BotEvent = {
     }
 };
 
+/**
+ * Lets a user pick the category of a new ticket, or starts creating it right away when there is only one
+ * Panels other than the default one only offer their own subset of categories
+ */
+const handleCreateTicketButton = async (
+    interaction: discord.ButtonInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository,
+    panelId?: string
+): Promise<void> => {
+    let categories = await ticketRepo.getTicketCategories(interaction.guildId!);
+    if (panelId) {
+        const panel = await ticketRepo.getTicketPanel(panelId);
+        if (!panel) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Panel Not Found")
+                        .setDescription("This ticket panel no longer exists.")
+                        .setColor("Red")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        if (panel.categoryIds.length > 0) {
+            categories = categories.filter(category => panel.categoryIds.includes(category.id));
+        }
+    }
+
+    const enabledCategories = categories.filter(category => category.isEnabled);
+
+    if (enabledCategories.length === 0) {
+        await interaction.reply({
+            embeds: [
+                new discord.EmbedBuilder()
+                    .setTitle("No Categories Available")
+                    .setDescription("There are no ticket categories available.")
+                    .setColor("Red")
+            ],
+            flags: discord.MessageFlags.Ephemeral
+        });
+        return;
+    }
+
+    if (enabledCategories.length === 1) {
+        await startTicketCreation(interaction, enabledCategories[0]);
+        return;
+    }
+
+    const selectMenu = new discord.StringSelectMenuBuilder()
+        .setCustomId("ticket_category_select")
+        .setPlaceholder("Select a ticket category");
+    enabledCategories.forEach(category => {
+        selectMenu.addOptions({
+            label: category.name,
+            description: category.description?.substring(0, 100) || `Support for ${category.name}`,
+            value: category.id,
+            emoji: category.emoji || "🎫"
+        });
+    });
+
+    const menuConfig = await ticketRepo.getSelectMenuConfig(interaction.guildId!);
+    const selectEmbed = new discord.EmbedBuilder()
+        .setTitle(menuConfig?.embedTitle || "Create a Ticket")
+        .setDescription(menuConfig?.embedDescription || "Please select a category for your ticket")
+        .setColor((menuConfig?.embedColor || "Blue") as discord.ColorResolvable)
+        .setFooter({ text: "Powered by Salt Bot", iconURL: client.user?.displayAvatarURL() })
+        .setTimestamp();
+
+    const actionRow = new discord.ActionRowBuilder<discord.StringSelectMenuBuilder>()
+        .addComponents(selectMenu);
+
+    await interaction.reply({
+        embeds: [selectEmbed],
+        components: [actionRow],
+        flags: discord.MessageFlags.Ephemeral
+    });
+};
+
+/**
+ * Show the category's pre-ticket question form, or create the ticket right away if it has none
+ * Ticket limits are checked before the form so users don't fill it in for nothing
+ */
+const startTicketCreation = async (
+    interaction: discord.ButtonInteraction | discord.StringSelectMenuInteraction,
+    category: ITicketCategory
+): Promise<void> => {
+    const formModal = createTicketFormModal(category);
+    if (formModal) {
+        const limitCheck = await checkTicketCreationLimits(interaction.guildId!, interaction.user.id, category);
+        if (!limitCheck.allowed) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle(limitCheck.existingTicket ? "Existing Ticket Found" : "Ticket Cooldown")
+                        .setDescription(limitCheck.message!)
+                        .setColor("Red")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        await interaction.showModal(formModal);
+        return;
+    }
+
+    await createTicket(interaction, category.id);
+};
+
 const handleReopenTicket = async (
     interaction: discord.ButtonInteraction,
     client: discord.Client,
@@ -204,7 +326,7 @@ const handleReopenTicket = async (
             ITicketStatus.OPEN
         );
 
-        const channel = interaction.channel as discord.TextChannel;
+        const channel = interaction.channel as ITicketChannel;
         const reopenEmbed = new discord.EmbedBuilder()
             .setTitle("Ticket Reopened")
             .setDescription("This ticket has been reopened.")
@@ -219,30 +341,7 @@ const handleReopenTicket = async (
         await channel.send({ embeds: [reopenEmbed] });
 
         try {
-            await channel.permissionOverwrites.edit(
-                interaction.guild!.roles.everyone,
-                { SendMessages: null }
-            );
-
-            await channel.permissionOverwrites.edit(
-                ticket.creatorId,
-                {
-                    ViewChannel: true,
-                    SendMessages: true,
-                    ReadMessageHistory: true
-                }
-            );
-
-            if (ticket.category.supportRoleId) {
-                await channel.permissionOverwrites.edit(
-                    ticket.category.supportRoleId,
-                    {
-                        ViewChannel: true,
-                        SendMessages: true,
-                        ReadMessageHistory: true
-                    }
-                );
-            }
+            await unlockTicketChannel(channel, ticket);
 
             const actionRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
                 .addComponents(
@@ -327,7 +426,7 @@ const handleArchiveTicket = async (
             "Ticket archived via button"
         );
 
-        const channel = interaction.channel as discord.TextChannel;
+        const channel = interaction.channel as ITicketChannel;
         const archiveEmbed = new discord.EmbedBuilder()
             .setTitle("Ticket Archived")
             .setDescription("This ticket has been archived and will be stored for reference.")
@@ -348,6 +447,10 @@ const handleArchiveTicket = async (
                     .setColor("Blue")
             ]
         });
+
+        if (channel.isThread()) {
+            await channel.setArchived(true, "Ticket archived");
+        }
     } catch (error) {
         client.logger.error(`[TICKET_ARCHIVE] Error archiving ticket: ${error}`);
         await interaction.editReply({
@@ -428,7 +531,7 @@ const handleDeleteTicket = async (
             if (i.customId === "confirm_delete") {
                 await i.deferUpdate();
 
-                const channel = interaction.channel as discord.TextChannel;
+                const channel = interaction.channel as ITicketChannel;
                 const deleteEmbed = new discord.EmbedBuilder()
                     .setTitle("Ticket Deleted")
                     .setDescription(`Ticket #${ticket.ticketNumber} has been deleted.`)
@@ -533,38 +636,7 @@ const handleClaimTicket = async (
             if (ticket.claimedById === interaction.user.id) {
                 await interaction.deferReply();
 
-                await ticketRepo.unclaimTicket(ticket.id);
-
-                const channel = interaction.channel as discord.TextChannel;
-                const unclaimEmbed = new discord.EmbedBuilder()
-                    .setTitle("Ticket Unclaimed")
-                    .setDescription(`This ticket is no longer being handled by <@${interaction.user.id}>.`)
-                    .setColor("Orange")
-                    .setFooter({ text: `Ticket #${ticket.ticketNumber}` })
-                    .setTimestamp();
-
-                await channel.send({ embeds: [unclaimEmbed] });
-                const actionRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
-                    .addComponents(
-                        new discord.ButtonBuilder()
-                            .setCustomId("ticket_claim")
-                            .setLabel("Claim Ticket")
-                            .setStyle(discord.ButtonStyle.Primary)
-                            .setEmoji("👋"),
-                        new discord.ButtonBuilder()
-                            .setCustomId("ticket_close")
-                            .setLabel("Close Ticket")
-                            .setStyle(discord.ButtonStyle.Danger)
-                            .setEmoji("🔒")
-                    );
-
-                if (interaction.message) {
-                    await interaction.message.edit({
-                        components: [actionRow]
-                    }).catch(err => {
-                        client.logger.warn(`[TICKET_CLAIM] Could not update message: ${err}`);
-                    });
-                }
+                await releaseTicketClaim(ticket, interaction.channel as ITicketChannel, interaction.user, interaction.message);
 
                 await interaction.editReply({
                     embeds: [
@@ -574,8 +646,6 @@ const handleClaimTicket = async (
                             .setColor("Green")
                     ]
                 });
-
-                client.logger.info(`[TICKET_CLAIM] ${interaction.user.tag} unclaimed ticket #${ticket.ticketNumber}`);
             } else {
                 const claimer = await client.users.fetch(ticket.claimedById).catch(() => null);
                 const claimerName = claimer ? claimer.tag : "Unknown";
@@ -600,13 +670,7 @@ const handleClaimTicket = async (
         }
 
         const member = interaction.member as discord.GuildMember;
-        const supportRoleId = ticket.category.supportRoleId;
-
-        const hasPermission =
-            member.permissions.has(discord.PermissionFlagsBits.ManageChannels) ||
-            (supportRoleId && member.roles.cache.has(supportRoleId));
-
-        if (!hasPermission) {
+        if (!hasTicketStaffLevel(member, ticket.category, "respond")) {
             interaction.reply({
                 embeds: [
                     new discord.EmbedBuilder()
@@ -622,7 +686,7 @@ const handleClaimTicket = async (
         await interaction.deferReply();
 
         await ticketRepo.claimTicket(ticket.id, interaction.user.id);
-        const channel = interaction.channel as discord.TextChannel;
+        const channel = interaction.channel as ITicketChannel;
         const claimEmbed = new discord.EmbedBuilder()
             .setTitle("Ticket Claimed")
             .setDescription(`This ticket is now being handled by <@${interaction.user.id}>.`)
@@ -634,28 +698,10 @@ const handleClaimTicket = async (
             .setFooter({ text: `Ticket #${ticket.ticketNumber}` })
             .setTimestamp();
 
+        await applyClaimPermissions(channel, ticket, interaction.user.id);
         await channel.send({ embeds: [claimEmbed] });
-        const actionRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
-            .addComponents(
-                new discord.ButtonBuilder()
-                    .setCustomId("ticket_claim")
-                    .setLabel("Unclaim Ticket")
-                    .setStyle(discord.ButtonStyle.Secondary)
-                    .setEmoji("🔄"),
-                new discord.ButtonBuilder()
-                    .setCustomId("ticket_close")
-                    .setLabel("Close Ticket")
-                    .setStyle(discord.ButtonStyle.Danger)
-                    .setEmoji("🔒")
-            );
+        await updateTicketControls(channel, true, interaction.message);
 
-        if (interaction.message) {
-            await interaction.message.edit({
-                components: [actionRow]
-            }).catch(err => {
-                client.logger.warn(`[TICKET_CLAIM] Could not update message: ${err}`);
-            });
-        }
         await interaction.editReply({
             embeds: [
                 new discord.EmbedBuilder()
@@ -695,4 +741,600 @@ const handleClaimTicket = async (
     }
 };
 
+/**
+ * Checks whether a member may unclaim or transfer a claimed ticket: the claimer or a ticket manager
+ */
+const canManageClaim = (interaction: discord.MessageComponentInteraction, ticket: ITicket): boolean => {
+    return ticket.claimedById === interaction.user.id ||
+        hasTicketStaffLevel(interaction.member as discord.GuildMember, ticket.category, "manage");
+};
+
+const handleUnclaimTicket = async (
+    interaction: discord.ButtonInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    try {
+        const ticket = await ticketRepo.getTicketByChannelId(interaction.channelId);
+
+        if (!ticket || !ticket.claimedById) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Not Claimed")
+                        .setDescription("This ticket is not claimed.")
+                        .setColor("Red")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        if (!canManageClaim(interaction, ticket)) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Permission Denied")
+                        .setDescription("Only the staff member who claimed this ticket or a ticket manager can unclaim it.")
+                        .setColor("Red")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        await interaction.deferReply({ flags: discord.MessageFlags.Ephemeral });
+
+        const updatedTicket = await releaseTicketClaim(ticket, interaction.channel as ITicketChannel, interaction.user, interaction.message);
+
+        await interaction.editReply({
+            embeds: [
+                new discord.EmbedBuilder()
+                    .setTitle(updatedTicket ? "Ticket Unclaimed" : "Error")
+                    .setDescription(updatedTicket ? "The ticket has been unclaimed." : "Failed to unclaim the ticket.")
+                    .setColor(updatedTicket ? "Green" : "Red")
+            ]
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_CLAIM] Error unclaiming ticket: ${error}`);
+        try {
+            if (interaction.deferred) {
+                await interaction.editReply({
+                    embeds: [
+                        new discord.EmbedBuilder()
+                            .setTitle("Error")
+                            .setDescription("An error occurred while unclaiming the ticket.")
+                            .setColor("Red")
+                    ]
+                });
+            } else if (!interaction.replied) {
+                await interaction.reply({
+                    embeds: [
+                        new discord.EmbedBuilder()
+                            .setTitle("Error")
+                            .setDescription("An error occurred while unclaiming the ticket.")
+                            .setColor("Red")
+                    ],
+                    flags: discord.MessageFlags.Ephemeral
+                });
+            }
+        } catch (responseError) {
+            client.logger.error(`[TICKET_CLAIM] Failed to send error response: ${responseError}`);
+        }
+    }
+};
+
+/**
+ * Asks the claimer which staff member should take over the ticket
+ * The control message ID is carried in the select menu so its buttons can be updated afterwards
+ */
+const handleTransferClaimButton = async (
+    interaction: discord.ButtonInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    const ticket = await ticketRepo.getTicketByChannelId(interaction.channelId);
+
+    if (!ticket || !ticket.claimedById) {
+        await interaction.reply({
+            embeds: [
+                new discord.EmbedBuilder()
+                    .setTitle("Not Claimed")
+                    .setDescription("This ticket is not claimed.")
+                    .setColor("Red")
+            ],
+            flags: discord.MessageFlags.Ephemeral
+        });
+        return;
+    }
+
+    if (!canManageClaim(interaction, ticket)) {
+        await interaction.reply({
+            embeds: [
+                new discord.EmbedBuilder()
+                    .setTitle("Permission Denied")
+                    .setDescription("Only the staff member who claimed this ticket or a ticket manager can transfer its claim.")
+                    .setColor("Red")
+            ],
+            flags: discord.MessageFlags.Ephemeral
+        });
+        return;
+    }
+
+    await interaction.reply({
+        content: "Select the staff member who should take over this ticket:",
+        components: [
+            new discord.ActionRowBuilder<discord.UserSelectMenuBuilder>().addComponents(
+                new discord.UserSelectMenuBuilder()
+                    .setCustomId(`ticket_transfer_claim_select:${interaction.message.id}`)
+                    .setPlaceholder("Select a staff member")
+            )
+        ],
+        flags: discord.MessageFlags.Ephemeral
+    });
+};
+
+const handleTransferClaimSelect = async (
+    interaction: discord.UserSelectMenuInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    await interaction.deferUpdate();
+
+    try {
+        const ticket = await ticketRepo.getTicketByChannelId(interaction.channelId);
+        const targetId = interaction.values[0];
+
+        const fail = async (description: string): Promise<void> => {
+            await interaction.editReply({
+                content: null,
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Transfer Failed")
+                        .setDescription(description)
+                        .setColor("Red")
+                ],
+                components: []
+            });
+        };
+
+        if (!ticket || !ticket.claimedById) {
+            await fail("This ticket is not claimed.");
+            return;
+        }
+
+        if (!canManageClaim(interaction, ticket)) {
+            await fail("Only the staff member who claimed this ticket or a ticket manager can transfer its claim.");
+            return;
+        }
+
+        if (targetId === ticket.claimedById) {
+            await fail(`<@${targetId}> has already claimed this ticket.`);
+            return;
+        }
+
+        const targetMember = await interaction.guild!.members.fetch(targetId).catch(() => null);
+        if (!targetMember || targetMember.user.bot || !hasTicketStaffLevel(targetMember, ticket.category, "respond")) {
+            await fail(`<@${targetId}> is not part of the support team for this ticket.`);
+            return;
+        }
+
+        const channel = interaction.channel as ITicketChannel;
+        const controlMessageId = interaction.customId.split(":")[1];
+        const controlMessage = await channel.messages.fetch(controlMessageId).catch(() => null);
+
+        const updatedTicket = await reassignTicketClaim(ticket, channel, targetId, interaction.user, controlMessage);
+        if (!updatedTicket) {
+            await fail("Failed to transfer the claim of the ticket.");
+            return;
+        }
+
+        await interaction.editReply({
+            content: null,
+            embeds: [
+                new discord.EmbedBuilder()
+                    .setTitle("Claim Transferred")
+                    .setDescription(`The claim of this ticket has been transferred to <@${targetId}>.`)
+                    .setColor("Green")
+            ],
+            components: []
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_CLAIM] Error transferring ticket claim: ${error}`);
+        await interaction.editReply({
+            content: null,
+            embeds: [
+                new discord.EmbedBuilder()
+                    .setTitle("Error")
+                    .setDescription("An error occurred while transferring the claim of the ticket.")
+                    .setColor("Red")
+            ],
+            components: []
+        }).catch(() => { });
+    }
+};
+
+const handleKeepOpenTicket = async (
+    interaction: discord.ButtonInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    try {
+        const ticket = await ticketRepo.getTicketByChannelId(interaction.channelId);
+
+        if (!ticket || ticket.status !== ITicketStatus.OPEN) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Ticket Not Open")
+                        .setDescription("This ticket is no longer open.")
+                        .setColor("Red")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        const member = interaction.member as discord.GuildMember;
+        if (ticket.creatorId !== interaction.user.id && !isTicketStaff(member, ticket.category)) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Permission Denied")
+                        .setDescription("Only the ticket creator or the support team can keep this ticket open.")
+                        .setColor("Red")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        await ticketRepo.recordTicketActivity(ticket.id);
+
+        await interaction.update({
+            embeds: [
+                new discord.EmbedBuilder()
+                    .setTitle("Ticket Kept Open")
+                    .setDescription(`<@${interaction.user.id}> chose to keep this ticket open. The inactivity timer has been reset.`)
+                    .setColor("Green")
+                    .setFooter({ text: `Ticket #${ticket.ticketNumber}` })
+                    .setTimestamp()
+            ],
+            components: []
+        });
+
+        client.logger.info(`[TICKET_INACTIVITY] ${interaction.user.tag} kept ticket #${ticket.ticketNumber} open`);
+    } catch (error) {
+        client.logger.error(`[TICKET_INACTIVITY] Error keeping ticket open: ${error}`);
+        try {
+            if (!interaction.replied && !interaction.deferred) {
+                await interaction.reply({
+                    embeds: [
+                        new discord.EmbedBuilder()
+                            .setTitle("Error")
+                            .setDescription("An error occurred while keeping the ticket open.")
+                            .setColor("Red")
+                    ],
+                    flags: discord.MessageFlags.Ephemeral
+                });
+            }
+        } catch (responseError) {
+            client.logger.error(`[TICKET_INACTIVITY] Failed to send error response: ${responseError}`);
+        }
+    }
+};
+
+const handlePrioritySelect = async (
+    interaction: discord.StringSelectMenuInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    try {
+        const ticket = await ticketRepo.getTicketByChannelId(interaction.channelId);
+
+        if (!ticket || ticket.status !== ITicketStatus.OPEN) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Ticket Not Open")
+                        .setDescription("Priority can only be changed on open tickets.")
+                        .setColor("Red")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        const member = interaction.member as discord.GuildMember;
+        if (!isTicketStaff(member, ticket.category)) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Permission Denied")
+                        .setDescription("Only the support team can change the priority of a ticket.")
+                        .setColor("Red")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        const priority = interaction.values[0] as ITicketPriority;
+        if (ticket.priority === priority) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Priority Unchanged")
+                        .setDescription(`This ticket already has ${TICKET_PRIORITIES[priority].emoji} **${TICKET_PRIORITIES[priority].label}** priority.`)
+                        .setColor("Yellow")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        await interaction.deferReply({ flags: discord.MessageFlags.Ephemeral });
+
+        const updatedTicket = await setTicketPriority(ticket, interaction.channel as ITicketChannel, priority, interaction.user);
+        await interaction.editReply({
+            embeds: [
+                updatedTicket ?
+                    new discord.EmbedBuilder()
+                        .setTitle("Priority Updated")
+                        .setDescription(`The ticket priority has been set to ${TICKET_PRIORITIES[priority].emoji} **${TICKET_PRIORITIES[priority].label}**.`)
+                        .setColor("Green") :
+                    new discord.EmbedBuilder()
+                        .setTitle("Error")
+                        .setDescription("Failed to update the ticket priority.")
+                        .setColor("Red")
+            ]
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_PRIORITY] Error changing ticket priority: ${error}`);
+        try {
+            if (interaction.deferred) {
+                await interaction.editReply({
+                    embeds: [
+                        new discord.EmbedBuilder()
+                            .setTitle("Error")
+                            .setDescription("An error occurred while changing the ticket priority.")
+                            .setColor("Red")
+                    ]
+                });
+            } else if (!interaction.replied) {
+                await interaction.reply({
+                    embeds: [
+                        new discord.EmbedBuilder()
+                            .setTitle("Error")
+                            .setDescription("An error occurred while changing the ticket priority.")
+                            .setColor("Red")
+                    ],
+                    flags: discord.MessageFlags.Ephemeral
+                });
+            }
+        } catch (responseError) {
+            client.logger.error(`[TICKET_PRIORITY] Failed to send error response: ${responseError}`);
+        }
+    }
+};
+
+const handleTranscriptFetch = async (
+    interaction: discord.ButtonInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    await interaction.deferReply({ flags: discord.MessageFlags.Ephemeral });
+
+    try {
+        const ticketId = interaction.customId.split(":")[1];
+        const ticket = await ticketRepo.getTicket(ticketId);
+
+        if (!ticket) {
+            await interaction.editReply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Ticket Not Found")
+                        .setDescription("This ticket no longer exists.")
+                        .setColor("Red")
+                ]
+            });
+            return;
+        }
+
+        if (!isTicketStaff(interaction.member as discord.GuildMember, ticket.category)) {
+            await interaction.editReply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Permission Denied")
+                        .setDescription("Only the support team can view ticket transcripts.")
+                        .setColor("Red")
+                ]
+            });
+            return;
+        }
+
+        const transcript = await getStoredTranscript(ticket);
+        if (!transcript) {
+            await interaction.editReply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("No Transcript Available")
+                        .setDescription(`No transcript was stored for ticket #${ticket.ticketNumber} and its channel no longer exists.`)
+                        .setColor("Yellow")
+                ]
+            });
+            return;
+        }
+
+        await interaction.editReply({
+            embeds: [
+                new discord.EmbedBuilder()
+                    .setTitle(`Ticket #${ticket.ticketNumber} Transcript`)
+                    .setDescription(`Opened by <@${ticket.creatorId}> in ${ticket.category.emoji || "🎫"} **${ticket.category.name}**.`)
+                    .setColor("Blue")
+            ],
+            files: [transcript]
+        });
+    } catch (error) {
+        client.logger.error(`[TICKET_TRANSCRIPT] Error fetching stored transcript: ${error}`);
+        await interaction.editReply({
+            embeds: [
+                new discord.EmbedBuilder()
+                    .setTitle("Error")
+                    .setDescription("An error occurred while fetching the transcript.")
+                    .setColor("Red")
+            ]
+        });
+    }
+};
+
+const handleUserHistory = async (
+    interaction: discord.ButtonInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    await interaction.deferReply({ flags: discord.MessageFlags.Ephemeral });
+
+    try {
+        const ticket = await ticketRepo.getTicketByChannelId(interaction.channelId);
+        if (!ticket) {
+            await interaction.editReply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Ticket Not Found")
+                        .setDescription("This ticket no longer exists.")
+                        .setColor("Red")
+                ]
+            });
+            return;
+        }
+
+        const creator = await client.users.fetch(ticket.creatorId);
+        await sendTicketHistory(interaction, client, creator);
+    } catch (error) {
+        client.logger.error(`[TICKET_HISTORY] Error showing ticket history: ${error}`);
+        await interaction.editReply({
+            embeds: [
+                new discord.EmbedBuilder()
+                    .setTitle("Error")
+                    .setDescription("An error occurred while loading the ticket history.")
+                    .setColor("Red")
+            ]
+        });
+    }
+};
+
+const handleFeedbackButton = async (
+    interaction: discord.ButtonInteraction,
+    client: discord.Client,
+    ticketRepo: TicketRepository
+): Promise<void> => {
+    try {
+        const [action, ticketId, value] = interaction.customId.split(":");
+        const ticket = ticketId ? await ticketRepo.getTicket(ticketId) : null;
+
+        if (!ticket) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Ticket Not Found")
+                        .setDescription("This ticket no longer exists.")
+                        .setColor("Red")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        if (ticket.creatorId !== interaction.user.id) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Permission Denied")
+                        .setDescription("Only the ticket creator can leave feedback for this ticket.")
+                        .setColor("Red")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        if (action === "ticket_feedback_comment") {
+            const commentModal = new discord.ModalBuilder()
+                .setCustomId(`ticket_feedback_modal:${ticket.id}`)
+                .setTitle(`Feedback for Ticket #${ticket.ticketNumber}`);
+
+            const commentInput = new discord.TextInputBuilder()
+                .setCustomId("ticket_feedback_comment")
+                .setLabel("Anything you'd like to tell us?")
+                .setPlaceholder("Tell us what went well or what we could improve...")
+                .setRequired(true)
+                .setMaxLength(1000)
+                .setStyle(discord.TextInputStyle.Paragraph);
+
+            commentModal.addComponents(
+                new discord.ActionRowBuilder<discord.TextInputBuilder>().addComponents(commentInput)
+            );
+
+            await interaction.showModal(commentModal);
+            return;
+        }
+
+        const rating = parseInt(value, 10);
+        if (action !== "ticket_feedback_rate" || isNaN(rating) || rating < 1 || rating > 5) return;
+
+        const feedback = await ticketRepo.saveTicketFeedback(ticket.id, rating);
+        if (!feedback) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle("Error")
+                        .setDescription("Your rating could not be saved. Please try again later.")
+                        .setColor("Red")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        const thanksEmbed = new discord.EmbedBuilder()
+            .setTitle("Thanks for your feedback!")
+            .setDescription(`You rated ticket #${ticket.ticketNumber} ${"⭐".repeat(rating)} (${rating}/5).\n\nYou can still add a comment below.`)
+            .setColor("Green");
+
+        const commentRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
+            .addComponents(
+                new discord.ButtonBuilder()
+                    .setCustomId(`ticket_feedback_comment:${ticket.id}`)
+                    .setLabel("Add a comment")
+                    .setStyle(discord.ButtonStyle.Primary)
+                    .setEmoji("💬")
+            );
+
+        await interaction.update({
+            embeds: [...interaction.message.embeds.slice(0, 1), thanksEmbed],
+            components: [commentRow]
+        });
+
+        client.logger.info(`[TICKET_FEEDBACK] ${interaction.user.tag} rated ticket #${ticket.ticketNumber} ${rating}/5`);
+    } catch (error) {
+        client.logger.error(`[TICKET_FEEDBACK] Error handling feedback: ${error}`);
+        try {
+            if (!interaction.replied && !interaction.deferred) {
+                await interaction.reply({
+                    embeds: [
+                        new discord.EmbedBuilder()
+                            .setTitle("Error")
+                            .setDescription("An error occurred while saving your feedback.")
+                            .setColor("Red")
+                    ],
+                    flags: discord.MessageFlags.Ephemeral
+                });
+            }
+        } catch (responseError) {
+            client.logger.error(`[TICKET_FEEDBACK] Failed to send error response: ${responseError}`);
+        }
+    }
+};
+
 export default event;
\ No newline at end of file
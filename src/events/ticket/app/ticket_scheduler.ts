@@ -0,0 +1,57 @@
+import discord from "discord.js";
+import { BotEvent } from "../../../types";
+import { checkTicketSlas } from "../../../utils/ticket_sla";
+import { checkInactiveTickets } from "../../../utils/ticket_inactivity";
+import { checkTicketPanels } from "../../../utils/ticket_panel";
+
+const DEFAULT_CHECK_INTERVAL = 60000;
+const DEFAULT_WARNING_THRESHOLD = 0.75;
+const DEFAULT_PANEL_CHECK_INTERVAL = 600000;
+
+const event: BotEvent = {
+    name: discord.Events.ClientReady,
+    execute: async (client: discord.Client): Promise<void> => {
+        const ticketConfig = (client as any).config.ticket;
+        const interval = ticketConfig?.scheduler?.check_interval || DEFAULT_CHECK_INTERVAL;
+        const warningThreshold = ticketConfig?.sla?.warning_threshold || DEFAULT_WARNING_THRESHOLD;
+        const panelInterval = ticketConfig?.scheduler?.panel_check_interval || DEFAULT_PANEL_CHECK_INTERVAL;
+
+        let running = false;
+        setInterval(async () => {
+            if (running) return;
+            running = true;
+
+            try {
+                await checkTicketSlas(warningThreshold);
+            } catch (error) {
+                client.logger.error(`[TICKET_SLA] Error running SLA check: ${error}`);
+            }
+
+            try {
+                await checkInactiveTickets();
+            } catch (error) {
+                client.logger.error(`[TICKET_INACTIVITY] Error running inactivity check: ${error}`);
+            } finally {
+                running = false;
+            }
+        }, interval);
+
+        let checkingPanels = false;
+        setInterval(async () => {
+            if (checkingPanels) return;
+            checkingPanels = true;
+
+            try {
+                await checkTicketPanels();
+            } catch (error) {
+                client.logger.error(`[TICKET_PANEL] Error running panel check: ${error}`);
+            } finally {
+                checkingPanels = false;
+            }
+        }, panelInterval);
+
+        client.logger.info(`[TICKET_SCHEDULER] Ticket scheduler started (every ${Math.round(interval / 1000)}s, panels every ${Math.round(panelInterval / 1000)}s)`);
+    }
+};
+
+export default event;
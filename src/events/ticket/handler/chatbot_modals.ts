@@ -0,0 +1,97 @@
+import discord from "discord.js";
+import { BotEvent } from "../../../types";
+import { EmbedTemplate } from "../../../utils/embed_template";
+import { ChatbotConfigRepository } from "../../database/repo/chatbot_config";
+import { findUnknownPlaceholders, PROMPT_PLACEHOLDERS } from "../../../utils/ai/prompt_template";
+
+const event: BotEvent = {
+    name: discord.Events.InteractionCreate,
+    execute: async (interaction: discord.Interaction, client: discord.Client): Promise<void> => {
+        if (!interaction.isModalSubmit()) return;
+        if (!interaction.customId.startsWith("chatbot_prompt_modal_")) return;
+
+        try {
+            if (!(client as any).dataSource) {
+                client.logger.error("[CHATBOT_MODAL] Database connection is not available");
+                return;
+            }
+
+            await handlePromptModal(interaction, client);
+        } catch (error) {
+            client.logger.error(`[CHATBOT_MODAL] Error handling modal submission: ${error}`);
+            if (!interaction.replied && !interaction.deferred) {
+                try {
+                    await interaction.reply({
+                        embeds: [new EmbedTemplate(client).error("An error occurred while processing your request.")],
+                        flags: discord.MessageFlags.Ephemeral,
+                    });
+                } catch (replyError) {
+                    client.logger.error(`[CHATBOT_MODAL] Error sending error response: ${replyError}`);
+                }
+            }
+        }
+    }
+};
+
+/**
+ * Handle the prompt template modal submission
+ */
+const handlePromptModal = async (
+    interaction: discord.ModalSubmitInteraction,
+    client: discord.Client
+) => {
+    if (!interaction.guildId || !interaction.memberPermissions?.has(discord.PermissionFlagsBits.Administrator)) {
+        await interaction.reply({
+            embeds: [new EmbedTemplate(client).error("You need Administrator permission to edit the chatbot prompt.")],
+            flags: discord.MessageFlags.Ephemeral
+        });
+        return;
+    }
+
+    await interaction.deferReply({ flags: discord.MessageFlags.Ephemeral });
+
+    const template = interaction.fields.getTextInputValue("chatbot_prompt_template").trim();
+    const unknownPlaceholders = findUnknownPlaceholders(template);
+
+    if (unknownPlaceholders.length > 0) {
+        await interaction.editReply({
+            embeds: [
+                new EmbedTemplate(client).error("Unknown placeholders in prompt template.")
+                    .setDescription(
+                        `Unknown: ${unknownPlaceholders.map(name => `\`{${name}}\``).join(", ")}\n` +
+                        `Supported: ${Object.keys(PROMPT_PLACEHOLDERS).map(name => `\`{${name}}\``).join(", ")}\n\n` +
+                        `Your template was not saved. Here it is so you can fix it:\n\`\`\`\n${template.replace(/```/g, "ʼʼʼ").slice(0, 3500)}\n\`\`\``
+                    )
+            ]
+        });
+        return;
+    }
+
+    const chatbotRepo = new ChatbotConfigRepository((client as any).dataSource);
+    const configId = interaction.customId.replace("chatbot_prompt_modal_", "");
+    const existingConfig = await chatbotRepo.getConfigById(configId);
+    const updatedConfig = existingConfig && existingConfig.guildId === interaction.guildId
+        ? await chatbotRepo.updateConfig(existingConfig.id, { promptTemplate: template })
+        : null;
+
+    if (!updatedConfig) {
+        await interaction.editReply({
+            embeds: [
+                new EmbedTemplate(client).error("Failed to save the chatbot prompt.")
+                    .setDescription("Make sure a chatbot is set up with `/chatbot setup`.")
+            ]
+        });
+        return;
+    }
+
+    await interaction.editReply({
+        embeds: [
+            new EmbedTemplate(client).success("Chatbot prompt updated!")
+                .setDescription(`The chatbot in <#${updatedConfig.channelId}> will use your prompt template. Use \`/chatbot prompt view\` to review it.`)
+        ]
+    });
+
+    client.logger.info(`[CHATBOT_PROMPT] Updated prompt template for chatbot in channel ${updatedConfig.channelId} (guild ${interaction.guildId})`);
+};
+
+export default event;
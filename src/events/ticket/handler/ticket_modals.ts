@@ -1,9 +1,8 @@
 import discord from "discord.js";
-import { BotEvent } from "../../../types";
-import { ITicketStatus } from "../../../events/database/entities/ticket_system";
+import { BotEvent, ITicketChannel } from "../../../types";
 import { TicketRepository } from "../../../events/database/repo/ticket_system";
 import { EmbedTemplate } from "../../../utils/embed_template";
-import { createAndSendTranscript } from '../../../utils/transcript';
+import { closeTicketChannel, createTicket, getTicketFormAnswers } from '../../../utils/ticket_utils';
 
 const event: BotEvent = {
     name: discord.Events.InteractionCreate,
@@ -17,6 +16,10 @@ const event: BotEvent = {
             }
             if (interaction.customId === "ticket_close_modal") {
                 await handleTicketCloseModal(interaction, client);
+            } else if (interaction.customId.startsWith("ticket_feedback_modal:")) {
+                await handleFeedbackModal(interaction, client);
+            } else if (interaction.customId.startsWith("ticket_form_modal:")) {
+                await handleTicketFormModal(interaction, client);
             }
         } catch (error) {
             client.logger.error(`[TICKET_MODAL] Error handling modal submission: ${error}`);
@@ -59,104 +62,13 @@ const handleTicketCloseModal = async (
         const reason = interaction.fields.getTextInputValue("ticket_close_reason") || "No reason provided";
         client.logger.info(`[TICKET_CLOSE] Closing ticket #${ticket.ticketNumber} with reason: ${reason}`);
 
-        await ticketRepo.updateTicketStatus(
-            ticket.id,
-            ITicketStatus.CLOSED,
-            interaction.user.id,
-            reason
+        await closeTicketChannel(
+            ticket,
+            interaction.channel as ITicketChannel,
+            interaction.user,
+            reason,
+            (options) => interaction.deferred ? interaction.followUp(options) : interaction.reply(options)
         );
-
-        const ticketMessage = await ticketRepo.getTicketMessage(ticket.category.id);
-        const category = ticket.category;
-        const closeEmbed = new discord.EmbedBuilder()
-            .setTitle(`Ticket #${ticket.ticketNumber} Closed`)
-            .setDescription(ticketMessage?.closeMessage || "This ticket has been closed.")
-            .addFields(
-                { name: "Ticket ID", value: `#${ticket.ticketNumber}`, inline: true },
-                { name: "Category", value: `${category.emoji || "🎫"} ${category.name}`, inline: true },
-                { name: "Status", value: `🔴 Closed`, inline: true },
-                { name: "Closed By", value: `<@${interaction.user.id}>`, inline: true },
-                { name: "Closed At", value: `<t:${Math.floor(Date.now() / 1000)}:F>`, inline: true },
-                { name: "Reason", value: reason, inline: false }
-            )
-            .setColor("Red")
-            .setFooter({ text: `Use /ticket reopen to reopen this ticket | ID: ${ticket.id}` })
-            .setTimestamp();
-
-        const channel = interaction.channel as discord.TextChannel;
-        await channel.send({ embeds: [closeEmbed] }).catch(sendError => {
-            client.logger.error(`[TICKET_CLOSE] Error sending close message: ${sendError}`);
-        });
-
-        try {
-            await channel.permissionOverwrites.create(
-                interaction.guild!.roles.everyone,
-                { SendMessages: false }
-            );
-
-            const actionRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
-                .addComponents(
-                    new discord.ButtonBuilder()
-                        .setCustomId("ticket_reopen")
-                        .setLabel("Reopen")
-                        .setStyle(discord.ButtonStyle.Success),
-                    new discord.ButtonBuilder()
-                        .setCustomId("ticket_archive")
-                        .setLabel("Archive")
-                        .setStyle(discord.ButtonStyle.Secondary),
-                    new discord.ButtonBuilder()
-                        .setCustomId("ticket_delete")
-                        .setLabel("Delete")
-                        .setStyle(discord.ButtonStyle.Danger)
-                );
-
-            try {
-                if (interaction.deferred) {
-                    await interaction.followUp({
-                        embeds: [new EmbedTemplate(client).success("Ticket closed successfully.")],
-                        components: [actionRow]
-                    });
-                } else {
-                    await interaction.reply({
-                        embeds: [new EmbedTemplate(client).success("Ticket closed successfully.")],
-                        components: [actionRow]
-                    });
-                }
-            } catch (replyError) {
-                client.logger.warn(`[TICKET_CLOSE] Could not send confirmation: ${replyError}`);
-                await channel.send({
-                    embeds: [new EmbedTemplate(client).success("Ticket closed successfully.")],
-                    components: [actionRow]
-                }).catch(channelError => {
-                    client.logger.error(`[TICKET_CLOSE] Also failed to send to channel: ${channelError}`);
-                });
-            }
-
-            try {
-                await createAndSendTranscript(
-                    channel,
-                    interaction.user,
-                    reason,
-                    ticket.id,
-                    ticketRepo.dataSource
-                );
-            } catch (transcriptError) {
-                client.logger.error(`[TICKET_CLOSE] Error creating transcript: ${transcriptError}`);
-            }
-        } catch (error) {
-            client.logger.error(`[TICKET_CLOSE] Error updating permissions: ${error}`);
-
-            try {
-                await channel.send({
-                    embeds: [
-                        new EmbedTemplate(client).warning("Ticket marked as closed, but could not update channel permissions.")
-                            .setDescription("Make sure the bot has the necessary permissions to modify channel permissions.")
-                    ]
-                });
-            } catch (sendError) {
-                client.logger.error(`[TICKET_CLOSE] Failed to send permission error to channel: ${sendError}`);
-            }
-        }
     } catch (error) {
         client.logger.error(`[TICKET_MODAL] Error handling close modal: ${error}`);
 
@@ -175,7 +87,7 @@ const handleTicketCloseModal = async (
         } catch (responseError) {
             client.logger.error(`[TICKET_MODAL] Failed to send error response: ${responseError}`);
             try {
-                const channel = interaction.channel as discord.TextChannel;
+                const channel = interaction.channel as ITicketChannel;
                 if (channel) {
                     await channel.send({
                         embeds: [new EmbedTemplate(client).error("An error occurred while processing the ticket close request.")]
@@ -188,4 +100,85 @@ const handleTicketCloseModal = async (
     }
 };
 
+/**
+ * Handle the feedback comment modal submission
+ */
+const handleFeedbackModal = async (
+    interaction: discord.ModalSubmitInteraction,
+    client: discord.Client
+) => {
+    try {
+        const ticketId = interaction.customId.split(":")[1];
+        const ticketRepo = new TicketRepository((client as any).dataSource);
+        const ticket = await ticketRepo.getTicket(ticketId);
+        if (!ticket || ticket.creatorId !== interaction.user.id) {
+            await interaction.reply({
+                embeds: [new EmbedTemplate(client).error("You can't leave feedback for this ticket.")],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        const comment = interaction.fields.getTextInputValue("ticket_feedback_comment").trim();
+        const feedback = await ticketRepo.setTicketFeedbackComment(ticket.id, comment);
+        if (!feedback) {
+            await interaction.reply({
+                embeds: [new EmbedTemplate(client).error("Please rate the ticket before adding a comment.")],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
+        }
+
+        const thanksEmbed = new discord.EmbedBuilder()
+            .setTitle("Thanks for your feedback!")
+            .setDescription(`You rated ticket #${ticket.ticketNumber} ${"⭐".repeat(feedback.rating)} (${feedback.rating}/5).`)
+            .addFields({ name: "Your Comment", value: comment.length > 1024 ? comment.substring(0, 1021) + "..." : comment })
+            .setColor("Green");
+
+        if (interaction.isFromMessage()) {
+            await interaction.update({
+                embeds: [...interaction.message.embeds.slice(0, 1), thanksEmbed],
+                components: []
+            });
+        } else {
+            await interaction.reply({ embeds: [thanksEmbed] });
+        }
+
+        client.logger.info(`[TICKET_FEEDBACK] ${interaction.user.tag} commented on ticket #${ticket.ticketNumber}`);
+    } catch (error) {
+        client.logger.error(`[TICKET_MODAL] Error handling feedback modal: ${error}`);
+        if (!interaction.replied && !interaction.deferred) {
+            await interaction.reply({
+                embeds: [new EmbedTemplate(client).error("An error occurred while saving your feedback.")],
+                flags: discord.MessageFlags.Ephemeral
+            }).catch(replyError => {
+                client.logger.error(`[TICKET_MODAL] Failed to send error response: ${replyError}`);
+            });
+        }
+    }
+};
+
+/**
+ * Handle the pre-ticket question form submission
+ */
+const handleTicketFormModal = async (
+    interaction: discord.ModalSubmitInteraction,
+    client: discord.Client
+) => {
+    const categoryId = interaction.customId.split(":")[1];
+    const ticketRepo = new TicketRepository((client as any).dataSource);
+    const category = await ticketRepo.getTicketCategory(categoryId);
+
+    if (!category || !category.isEnabled) {
+        await interaction.reply({
+            embeds: [new EmbedTemplate(client).error("This ticket category is no longer available.")],
+            flags: discord.MessageFlags.Ephemeral
+        });
+        return;
+    }
+
+    const answers = getTicketFormAnswers(interaction, category);
+    await createTicket(interaction, category.id, answers);
+};
+
 export default event;
\ No newline at end of file
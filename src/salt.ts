@@ -36,6 +36,7 @@ const createClient = (): discord.Client => {
             discord.GatewayIntentBits.GuildMessages,
             discord.GatewayIntentBits.MessageContent,
         ],
+        partials: [discord.Partials.Message],
         shards: "auto",
     });
 
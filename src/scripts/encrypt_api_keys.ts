@@ -0,0 +1,31 @@
+import 'reflect-metadata';
+import Logger from "../utils/logger";
+import { AppDataSource } from "../events/database/connect/connect_postgres";
+import { ChatbotConfigRepository } from "../events/database/repo/chatbot_config";
+
+const logger = new Logger();
+
+/**
+ * One-off migration that encrypts chatbot API keys stored in plaintext
+ * Run it once after upgrading, and again after rotating ENCRYPTION_KEY to re-encrypt keys written
+ * with a key now listed in ENCRYPTION_KEY_PREVIOUS:
+ *
+ *   yarn build && yarn encrypt-api-keys
+ */
+const run = async (): Promise<void> => {
+    const dataSource = await AppDataSource.initialize();
+
+    try {
+        const updated = await new ChatbotConfigRepository(dataSource).encryptStoredApiKeys();
+        logger.success(`[ENCRYPT_API_KEYS] Encrypted ${updated} stored API key(s) with the current encryption key`);
+    } finally {
+        await dataSource.destroy();
+    }
+};
+
+run()
+    .then(() => process.exit(0))
+    .catch((error: Error) => {
+        logger.error(`[ENCRYPT_API_KEYS] Migration failed: ${error}`);
+        process.exit(1);
+    });
@@ -1,4 +1,5 @@
 import discord from "discord.js";
+import { DataSource } from "typeorm";
 import { CommandLogger } from "./utils/command_logger";
 
 //-----------COMMANDS-----------//
@@ -97,7 +98,18 @@ export interface IConfig {
                 embed_title: string;
                 embed_description: string;
             };
-        }
+        };
+        scheduler: {
+            check_interval: number;
+            panel_check_interval: number;
+        };
+        sla: {
+            warning_threshold: number;
+        };
+        transcript: {
+            storage: string;
+            path: string;
+        };
     }
 }
 
@@ -110,6 +122,8 @@ declare global {
             TOKEN: string;
             POSTGRES_URI: string;
             FEEDBACK_WEBHOOK: string;
+            ENCRYPTION_KEY: string;
+            ENCRYPTION_KEY_PREVIOUS?: string;
         }
     }
 }
@@ -189,6 +203,8 @@ export interface IGuildConfig {
     defaultCategoryName: string;
     globalTicketCount: number;
     isEnabled: boolean;
+    maxOpenTicketsPerUser: number;
+    ticketCooldownMinutes: number;
     createdAt: Date;
     updatedAt: Date;
     ticketCategories: ITicketCategory[];
@@ -206,6 +222,20 @@ export interface ITicketCategory {
     ticketCount: number;
     isEnabled: boolean;
     position: number;
+    slaFirstResponseMinutes?: number | null;
+    slaClaimMinutes?: number | null;
+    slaEscalationRoleId?: string | null;
+    inactivityHours?: number | null;
+    inactivityGraceHours?: number | null;
+    formQuestions?: ITicketFormQuestion[] | null;
+    maxOpenTicketsPerUser?: number | null;
+    ticketCooldownMinutes?: number | null;
+    ticketMode: ITicketMode;
+    threadChannelId?: string | null;
+    claimOnlyMessaging: boolean;
+    staffRoles?: ITicketStaffRole[] | null;
+    allowedRoleIds: string[];
+    deniedRoleIds: string[];
     createdAt: Date;
     updatedAt: Date;
     guildConfig: IGuildConfig;
@@ -222,6 +252,19 @@ export interface ITicket {
     closedAt?: Date;
     claimedById?: string | null;
     claimedAt?: Date | null;
+    firstClaimedAt?: Date | null;
+    firstResponseAt?: Date | null;
+    slaResponseWarnedAt?: Date | null;
+    slaResponseBreachedAt?: Date | null;
+    slaClaimWarnedAt?: Date | null;
+    slaClaimBreachedAt?: Date | null;
+    lastActivityAt?: Date | null;
+    inactivityWarnedAt?: Date | null;
+    priority: ITicketPriority;
+    tags: string[];
+    transcriptChannelId?: string | null;
+    transcriptMessageId?: string | null;
+    transcriptPath?: string | null;
     status: ITicketStatus;
     closeReason?: string;
     createdAt: Date;
@@ -229,6 +272,55 @@ export interface ITicket {
     category: ITicketCategory;
 }
 
+export type ITicketSlaType = "response" | "claim";
+
+export type ITicketMode = "channel" | "thread";
+
+export type ITicketStaffLevel = "view" | "respond" | "manage";
+
+export interface ITicketStaffRole {
+    roleId: string;
+    level: ITicketStaffLevel;
+}
+
+export type ITicketChannel = discord.TextChannel | discord.PrivateThreadChannel;
+
+export type ITicketPriority = "low" | "normal" | "high" | "urgent";
+
+export interface ITranscriptStorage {
+    save(ticketId: string, html: Buffer): Promise<string>;
+    load(location: string): Promise<Buffer | null>;
+}
+
+export interface ITicketSearchFilters {
+    categoryIds: string[];
+    creatorId?: string;
+    claimedById?: string;
+    categoryId?: string;
+    tag?: string;
+    status?: ITicketStatus;
+    from?: Date;
+    to?: Date;
+}
+
+export interface ITicketFormQuestion {
+    label: string;
+    style: "short" | "paragraph";
+    required: boolean;
+    placeholder?: string;
+}
+
+export interface ITicketLimitCheck {
+    allowed: boolean;
+    message?: string;
+    existingTicket?: ITicket;
+}
+
+export interface ITicketFormAnswer {
+    question: string;
+    answer: string;
+}
+
 export interface ITicketMessage {
     id: string;
     welcomeMessage?: string;
@@ -239,6 +331,45 @@ export interface ITicketMessage {
     category: ITicketCategory;
 }
 
+export interface ITicketFeedback {
+    id: string;
+    guildId: string;
+    creatorId: string;
+    staffId: string | null;
+    rating: number;
+    comment: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+    ticket: ITicket;
+}
+
+export interface ITicketNote {
+    id: string;
+    authorId: string;
+    content: string;
+    createdAt: Date;
+    ticket: ITicket;
+}
+
+export interface IStaffTicketStats {
+    staffId: string | null;
+    handledTickets: number;
+    ratingCount: number;
+    averageRating: number | null;
+}
+
+export interface ITicketDashboardStats {
+    days: Array<{ date: string; opened: number; closed: number }>;
+    openedTickets: number;
+    closedTickets: number;
+    medianClaimMs: number | null;
+    medianCloseMs: number | null;
+    responseSlaBreaches: number;
+    claimSlaBreaches: number;
+    categories: Array<{ name: string; count: number }>;
+    hours: number[];
+}
+
 export interface ITicketButton {
     id: string;
     label: string;
@@ -255,6 +386,23 @@ export interface ITicketButton {
     guildConfig: IGuildConfig;
 }
 
+export interface ITicketPanel {
+    id: string;
+    name: string;
+    label: string;
+    emoji: string;
+    style: string;
+    embedTitle?: string | null;
+    embedDescription?: string | null;
+    embedColor?: string | null;
+    categoryIds: string[];
+    channelId?: string | null;
+    messageId?: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+    guildConfig: IGuildConfig;
+}
+
 export interface ISelectMenuConfig {
     id: string;
     placeholder: string;
@@ -277,17 +425,21 @@ export interface IChatbotConfig {
     baseUrl: string;
     chatbotName: string;
     responseType: string;
+    promptTemplate: string | null;
+    ragSimilarityThreshold: number;
     cooldown: number;
     enabled: boolean;
     createdAt: Date;
     updatedAt: Date;
 }
 
+type IRagSourceType = 'txt' | 'md' | 'pdf' | 'docx' | 'html' | 'json' | 'csv';
+
 interface IMetadata {
     source: {
         name: string;
         path: string;
-        type: 'txt' | 'md';
+        type: IRagSourceType;
     };
     createdAt: Date;
     updatedAt: Date;
@@ -305,6 +457,11 @@ interface IDocument {
     embedding?: number[];
 }
 
+interface IRagMessageDocuments {
+    messageId: string;
+    documents: IDocument[];
+}
+
 interface IProcessingOptions {
     chunkSize?: number;
     chunkOverlap?: number;
@@ -338,4 +495,31 @@ interface OpenAIFunction {
             additionalProperties: boolean;
         };
     };
+}
+
+interface IChatbotToolContext {
+    dataSource: DataSource;
+    config: IChatbotConfig;
+    guild: discord.Guild;
+    member: discord.GuildMember | null;
+    userId: string;
+    channelId: string;
+    userMessage: string;
+}
+
+interface IChatbotToolResult {
+    content: string;
+    ticketRequest?: {
+        categoryId: string;
+        categoryName: string;
+        message: string;
+    };
+}
+
+interface IChatbotTool {
+    name: string;
+    permissions: Array<discord.PermissionResolvable>;
+    isAvailable?: (context: IChatbotToolContext) => Promise<boolean>;
+    getDefinition: (context: IChatbotToolContext) => Promise<OpenAIFunction>;
+    execute: (args: Record<string, any>, context: IChatbotToolContext) => Promise<IChatbotToolResult>;
 }
\ No newline at end of file
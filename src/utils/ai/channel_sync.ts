@@ -0,0 +1,310 @@
+import discord from "discord.js";
+import { DataSource } from "typeorm";
+
+import RAG from "./rag";
+import client from "../../salt";
+import { Embedding } from "./llm";
+import { RagDocument } from "../../events/database/entities/rag_data";
+import { RagRepository } from "../../events/database/repo/rag_data";
+import { IProcessingOptions, IRagMessageDocuments } from "../../types";
+
+type SyncableChannel = discord.TextChannel | discord.NewsChannel | discord.ForumChannel;
+
+/**
+ * Keeps a knowledge base document in step with the messages of a Discord channel or forum
+ * A full sync reads the most recent messages of the channel, after which single messages are re-synced as they change
+ * The IDs of synced channels are kept in memory, so message listeners skip every other channel without a query
+ */
+class ChannelKnowledgeSync {
+    public static readonly MAX_MESSAGES = 2000;
+    private static readonly syncedChannelIds = new Set<string>();
+    private static readonly runningSyncs = new Set<string>();
+    private static readonly PROGRESS_INTERVAL = 100;
+    private static readonly PROCESSING_OPTIONS: IProcessingOptions = {
+        chunkSize: 500,
+        chunkOverlap: 50,
+        deduplicate: true
+    };
+
+    private readonly rag: RAG;
+    private readonly ragRepo: RagRepository;
+
+    constructor(dataSource: DataSource) {
+        this.rag = new RAG(new Embedding());
+        this.ragRepo = new RagRepository(dataSource);
+    }
+
+    /**
+     * Load the IDs of every synced channel, replacing the in-memory set
+     * Called once the database connection is ready
+     */
+    public static loadSyncedChannels = async (dataSource: DataSource): Promise<number> => {
+        const channelIds = await new RagRepository(dataSource).getSyncedChannelIds();
+
+        ChannelKnowledgeSync.syncedChannelIds.clear();
+        channelIds.forEach(channelId => ChannelKnowledgeSync.syncedChannelIds.add(channelId));
+        return channelIds.length;
+    };
+
+    /**
+     * Stop tracking a channel whose knowledge document was deleted
+     */
+    public static forgetChannel = (channelId: string): void => {
+        ChannelKnowledgeSync.syncedChannelIds.delete(channelId);
+    };
+
+    /**
+     * Check whether a full sync of a channel is currently running
+     */
+    public static isSyncRunning = (channelId: string): boolean => {
+        return ChannelKnowledgeSync.runningSyncs.has(channelId);
+    };
+
+    /**
+     * Check whether a channel can be synced into the knowledge base
+     */
+    public static isSyncableChannel = (channel: discord.Channel | null | undefined): channel is SyncableChannel => {
+        return !!channel && (
+            channel.type === discord.ChannelType.GuildText ||
+            channel.type === discord.ChannelType.GuildAnnouncement ||
+            channel.type === discord.ChannelType.GuildForum
+        );
+    };
+
+    /**
+     * Resolve the channel whose knowledge document a message belongs to
+     * Messages in forum posts belong to the forum, everything else to its own channel
+     */
+    public static getSourceChannelId = (channel: discord.Channel | null | undefined, channelId: string): string | null => {
+        if (!channel) return channelId;
+        if (channel.isThread()) {
+            return channel.parent?.type === discord.ChannelType.GuildForum ? channel.parentId : null;
+        }
+        return channelId;
+    };
+
+    /**
+     * Build the text indexed for a message from its content and embeds
+     * @param message - The Discord message
+     * @param threadName - Title of the forum post the message belongs to
+     * @returns The text to index, or null if the message has nothing worth indexing
+     */
+    public static formatMessage = (message: discord.Message, threadName?: string): string | null => {
+        if (message.system || message.author.id === client.user?.id) return null;
+
+        const parts: string[] = [];
+        if (message.content?.trim()) {
+            parts.push(message.content.trim());
+        }
+
+        for (const embed of message.embeds) {
+            const embedParts = [
+                embed.title,
+                embed.description,
+                ...embed.fields.map(field => `${field.name}: ${field.value}`)
+            ].filter((part): part is string => !!part && !!part.trim());
+
+            if (embedParts.length > 0) {
+                parts.push(embedParts.join("\n"));
+            }
+        }
+
+        if (parts.length === 0) return null;
+
+        const text = parts.join("\n\n");
+        return threadName ? `Topic: ${threadName}\n\n${text}` : text;
+    };
+
+    /**
+     * Fetch the most recent messages of a channel or thread, oldest first
+     * @returns The messages, and whether older messages were left out because of the limit
+     */
+    private fetchMessages = async (
+        channel: discord.TextChannel | discord.NewsChannel | discord.ThreadChannel,
+        limit: number
+    ): Promise<{ messages: discord.Message[]; hasMore: boolean }> => {
+        const messages: discord.Message[] = [];
+        let before: string | undefined;
+
+        while (messages.length < limit) {
+            const requested = Math.min(100, limit - messages.length);
+            const batch = await channel.messages.fetch({ limit: requested, before });
+            if (batch.size === 0) break;
+
+            messages.push(...batch.values());
+            before = batch.last()?.id;
+
+            if (batch.size < requested) {
+                return { messages: messages.reverse(), hasMore: false };
+            }
+        }
+
+        // The limit was reached exactly, so check whether an older page exists
+        const hasMore = messages.length > 0 && (await channel.messages.fetch({ limit: 1, before })).size > 0;
+        return { messages: messages.reverse(), hasMore };
+    };
+
+    /**
+     * Fetch every active and archived post of a forum
+     */
+    private fetchForumThreads = async (forum: discord.ForumChannel): Promise<discord.ThreadChannel[]> => {
+        const threads = new Map<string, discord.ThreadChannel>();
+
+        const active = await forum.threads.fetchActive();
+        active.threads.forEach(thread => threads.set(thread.id, thread));
+
+        let before: string | undefined;
+        while (true) {
+            const archived = await forum.threads.fetchArchived({ type: "public", limit: 100, before });
+            archived.threads.forEach(thread => threads.set(thread.id, thread));
+
+            if (!archived.hasMore || archived.threads.size === 0) break;
+            before = archived.threads.last()?.id;
+        }
+
+        return Array.from(threads.values());
+    };
+
+    /**
+     * Chunk and embed a single message
+     */
+    private processMessage = async (message: discord.Message, threadName?: string): Promise<IRagMessageDocuments> => {
+        const text = ChannelKnowledgeSync.formatMessage(message, threadName);
+        if (!text) {
+            return { messageId: message.id, documents: [] };
+        }
+
+        const documents = await this.rag.processText(
+            text,
+            { name: `message-${message.id}`, type: "md" },
+            ChannelKnowledgeSync.PROCESSING_OPTIONS
+        );
+
+        return { messageId: message.id, documents };
+    };
+
+    /**
+     * Read a whole channel or forum and store it as a knowledge document, replacing a previous sync
+     * @param channel - The channel or forum to sync
+     * @param description - Optional description of the document
+     * @param onProgress - Called after every batch of embedded messages with the processed and total message counts
+     * @returns The stored document with the number of indexed messages, or null if storing failed
+     */
+    public syncChannel = async (
+        channel: SyncableChannel,
+        description: string | null,
+        onProgress?: (processed: number, total: number) => Promise<void>
+    ): Promise<{ document: RagDocument; messageCount: number; truncated: boolean } | null> => {
+        ChannelKnowledgeSync.runningSyncs.add(channel.id);
+        try {
+            return await this.runChannelSync(channel, description, onProgress);
+        } finally {
+            ChannelKnowledgeSync.runningSyncs.delete(channel.id);
+        }
+    };
+
+    /**
+     * Fetch, embed and store the messages of a channel for a full sync
+     */
+    private runChannelSync = async (
+        channel: SyncableChannel,
+        description: string | null,
+        onProgress?: (processed: number, total: number) => Promise<void>
+    ): Promise<{ document: RagDocument; messageCount: number; truncated: boolean } | null> => {
+        const sources: Array<{ message: discord.Message; threadName?: string }> = [];
+        let remaining = ChannelKnowledgeSync.MAX_MESSAGES;
+        let truncated = false;
+
+        if (channel.type === discord.ChannelType.GuildForum) {
+            const threads = await this.fetchForumThreads(channel);
+            for (const thread of threads) {
+                if (remaining <= 0) {
+                    truncated = true;
+                    break;
+                }
+
+                const { messages, hasMore } = await this.fetchMessages(thread, remaining);
+                messages.forEach(message => sources.push({ message, threadName: thread.name }));
+                remaining -= messages.length;
+                truncated = hasMore;
+            }
+        } else {
+            const { messages, hasMore } = await this.fetchMessages(channel, remaining);
+            messages.forEach(message => sources.push({ message }));
+            truncated = hasMore;
+        }
+
+        const processed: IRagMessageDocuments[] = [];
+        for (const [index, source] of sources.entries()) {
+            const result = await this.processMessage(source.message, source.threadName);
+            if (result.documents.length > 0) {
+                processed.push(result);
+            }
+
+            if (onProgress && (index + 1) % ChannelKnowledgeSync.PROGRESS_INTERVAL === 0) {
+                await onProgress(index + 1, sources.length);
+            }
+        }
+
+        const document = await this.ragRepo.storeChannelData(
+            channel.guildId,
+            channel.id,
+            `#${channel.name}`,
+            description,
+            processed
+        );
+
+        if (!document) return null;
+
+        ChannelKnowledgeSync.syncedChannelIds.add(channel.id);
+        return { document, messageCount: processed.length, truncated };
+    };
+
+    /**
+     * Resolve the synced channel a message in a channel belongs to
+     * Only checks the in-memory set, so listeners can call it before any other work
+     * @returns The synced source channel ID, or null if the message is not in a synced channel
+     */
+    public static getSyncedChannelId = (channel: discord.Channel | null | undefined, channelId: string): string | null => {
+        const sourceChannelId = ChannelKnowledgeSync.getSourceChannelId(channel, channelId);
+        return sourceChannelId && ChannelKnowledgeSync.syncedChannelIds.has(sourceChannelId) ? sourceChannelId : null;
+    };
+
+    /**
+     * Re-index a single new or edited message of a synced channel
+     * @returns Whether the message belonged to a synced channel and was updated
+     */
+    public syncMessage = async (message: discord.Message): Promise<boolean> => {
+        const sourceChannelId = ChannelKnowledgeSync.getSyncedChannelId(message.channel, message.channelId);
+        if (!sourceChannelId) return false;
+
+        const threadName = message.channel.isThread() ? message.channel.name : undefined;
+        const { documents } = await this.processMessage(message, threadName);
+        const updated = await this.ragRepo.replaceMessageChunks(sourceChannelId, message.id, documents);
+
+        if (updated) {
+            client.logger.debug(`[CHATBOT_RAG] Re-synced message ${message.id} in ${updated.fileName} (${documents.length} chunks)`);
+        }
+
+        return !!updated;
+    };
+
+    /**
+     * Remove a deleted message of a synced channel from the knowledge base
+     * @returns Whether the message belonged to a synced channel and was removed
+     */
+    public removeMessage = async (channel: discord.Channel | null, channelId: string, messageId: string): Promise<boolean> => {
+        const sourceChannelId = ChannelKnowledgeSync.getSyncedChannelId(channel, channelId);
+        if (!sourceChannelId) return false;
+
+        const updated = await this.ragRepo.replaceMessageChunks(sourceChannelId, messageId, []);
+
+        if (updated) {
+            client.logger.debug(`[CHATBOT_RAG] Removed message ${messageId} from ${updated.fileName}`);
+        }
+
+        return !!updated;
+    };
+}
+
+export default ChannelKnowledgeSync;
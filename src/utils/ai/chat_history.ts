@@ -10,19 +10,22 @@ class ChatHistory {
     private readonly maxHistoryLength: number;
     private readonly userId: string;
     private readonly guildId: string;
+    private readonly channelId: string;
 
     /**
      * Creates a new ChatHistory instance.
      * @param {DataSource} dataSource - TypeORM DataSource for database operations.
      * @param {string} userId - The user's Discord ID.
      * @param {string} guildId - The guild's Discord ID.
+     * @param {string} channelId - The chatbot channel's Discord ID.
      * @param {number} maxHistoryLength - Maximum number of messages to keep in history.
      */
-    constructor(dataSource: DataSource, userId: string, guildId: string, maxHistoryLength: number = 50) {
+    constructor(dataSource: DataSource, userId: string, guildId: string, channelId: string, maxHistoryLength: number = 50) {
         this.repository = new ChatHistoryRepository(dataSource);
         this.maxHistoryLength = maxHistoryLength;
         this.userId = userId;
         this.guildId = guildId;
+        this.channelId = channelId;
     }
 
     /**
@@ -56,6 +59,7 @@ class ChatHistory {
     private async addMessage(message: OpenAI.Chat.Completions.ChatCompletionMessageParam): Promise<void> {
         await this.repository.addMessage(
             this.guildId,
+            this.channelId,
             this.userId,
             message.role,
             message.content as string
@@ -63,6 +67,7 @@ class ChatHistory {
 
         await this.repository.trimHistory(
             this.guildId,
+            this.channelId,
             this.userId,
             this.maxHistoryLength
         );
@@ -73,7 +78,7 @@ class ChatHistory {
      * @returns {Promise<OpenAI.Chat.Completions.ChatCompletionMessageParam[]>} - The conversation history.
      */
     public async getHistory(): Promise<OpenAI.Chat.Completions.ChatCompletionMessageParam[]> {
-        const entries = await this.repository.getHistory(this.guildId, this.userId);
+        const entries = await this.repository.getHistory(this.guildId, this.channelId, this.userId);
         return this.repository.convertToOpenAIMessages(entries);
     }
 
@@ -83,7 +88,7 @@ class ChatHistory {
      * @returns {Promise<OpenAI.Chat.Completions.ChatCompletionMessageParam[]>} - The most recent messages.
      */
     public async getRecentMessages(count: number): Promise<OpenAI.Chat.Completions.ChatCompletionMessageParam[]> {
-        const entries = await this.repository.getRecentMessages(this.guildId, this.userId, count);
+        const entries = await this.repository.getRecentMessages(this.guildId, this.channelId, this.userId, count);
         return this.repository.convertToOpenAIMessages(entries.reverse());
     }
 
@@ -92,7 +97,7 @@ class ChatHistory {
      * @param {boolean} keepSystemMessages - Whether to keep system messages.
      */
     public async clearHistory(keepSystemMessages: boolean = true): Promise<void> {
-        await this.repository.clearHistory(this.guildId, this.userId, keepSystemMessages);
+        await this.repository.clearHistory(this.guildId, this.channelId, this.userId, keepSystemMessages);
     }
 
     /**
@@ -110,6 +115,14 @@ class ChatHistory {
     public getGuildId(): string {
         return this.guildId;
     }
+
+    /**
+     * Gets the chatbot channel ID associated with this chat history.
+     * @returns {string} - The channel ID.
+     */
+    public getChannelId(): string {
+        return this.channelId;
+    }
 }
 
 export default ChatHistory;
\ No newline at end of file
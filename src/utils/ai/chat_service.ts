@@ -2,12 +2,17 @@ import RAG from "./rag";
 import { DataSource } from "typeorm";
 import { LLM, Embedding } from "./llm";
 import ChatHistory from "./chat_history";
-import { createDynamicTicketTool } from "./tools";
+import StreamRenderer from "./stream_renderer";
+import { renderPromptTemplate } from "./prompt_template";
+import { OpenAI } from "openai";
+import { ToolRegistry, createDefaultToolRegistry } from "./tools";
 import { TicketRepository } from "../../events/database/repo/ticket_system";
+import { checkTicketCreationLimits, createTicketActionRow, createTicketChannel, createTicketPriorityRow, getTicketWelcomeMentions } from "../ticket_utils";
 import { ChatbotConfig } from "../../events/database/entities/chatbot_config";
 import { RagRepository } from "../../events/database/repo/rag_data";
 import discord from "discord.js";
 import client from "../../salt";
+import { IChatbotToolContext, IChatbotToolResult } from "../../types";
 
 /**
  * Service class for handling chatbot interactions with RAG integration and tool support
@@ -26,6 +31,15 @@ export class ChatbotService {
         toolMessage: string;
     }> = new Map();
 
+    private static nonStreamingProviders: Set<string> = new Set();
+
+    private static readonly MAX_TOOL_STEPS = 4;
+
+    /**
+     * Tools available to the chatbot; register additional tools here
+     */
+    public static toolRegistry: ToolRegistry = createDefaultToolRegistry();
+
     constructor(dataSource: DataSource) {
         this.dataSource = dataSource;
         this.ragRepo = new RagRepository(dataSource);
@@ -38,8 +52,9 @@ export class ChatbotService {
      */
     public getConfigByChannelId = async (channelId: string): Promise<ChatbotConfig | null> => {
         try {
-            const configs = await this.dataSource.getRepository(ChatbotConfig).find();
-            return configs.find(config => config.channelId === channelId) || null;
+            return await this.dataSource.getRepository(ChatbotConfig).findOne({
+                where: { channelId }
+            });
         } catch (error) {
             client.logger.error(`[CHATBOT_SERVICE] Error finding config by channel ID: ${error}`);
             return null;
@@ -49,10 +64,11 @@ export class ChatbotService {
     /**
      * Search for relevant context from RAG data
      * @param query - User's query
-     * @param guildId - Discord guild ID
-     * @returns Relevant context or null if no RAG data available
+     * @param config - Chatbot configuration (guild and similarity threshold)
+     * @returns Relevant context or null if no relevant RAG data is available
      */
-    private searchRagContext = async (query: string, guildId: string): Promise<string | null> => {
+    private searchRagContext = async (query: string, config: ChatbotConfig): Promise<string | null> => {
+        const guildId = config.guildId;
         try {
             const hasRagData = await this.ragRepo.hasRagData(guildId);
             if (!hasRagData) {
@@ -66,7 +82,8 @@ export class ChatbotService {
             const similarChunks = await this.ragRepo.searchSimilarChunks(
                 guildId,
                 queryEmbedding,
-                5
+                5,
+                { queryText: query, similarityThreshold: config.ragSimilarityThreshold }
             );
 
             if (similarChunks.length === 0) {
@@ -74,7 +91,10 @@ export class ChatbotService {
             }
 
             const context = similarChunks
-                .map((chunk, index) => `[Context ${index + 1}]\n${chunk.content}`)
+                .map((chunk, index) => {
+                    const source = chunk.document?.fileName ? ` (Source: ${chunk.document.fileName})` : '';
+                    return `[Context ${index + 1}]${source}\n${chunk.content}`;
+                })
                 .join('\n\n');
 
             return context;
@@ -89,16 +109,30 @@ export class ChatbotService {
      * @param config - Chatbot configuration
      * @param ragContext - RAG context if available
      * @param includeTools - Whether to include tool instructions
+     * @param promptValues - Values for the placeholders of a custom prompt template
      * @returns System prompt string
      */
-    private buildSystemPrompt = (config: ChatbotConfig, ragContext: string | null, includeTools: boolean = false): string => {
-        let systemPrompt = `You are ${config.chatbotName}, an AI assistant in a Discord server. `;
+    private buildSystemPrompt = (
+        config: ChatbotConfig,
+        ragContext: string | null,
+        includeTools: boolean = false,
+        promptValues: Record<string, string> = {}
+    ): string => {
+        let systemPrompt: string;
+
+        if (config.promptTemplate && config.promptTemplate.trim().length > 0) {
+            systemPrompt = renderPromptTemplate(config.promptTemplate, {
+                chatbot_name: config.chatbotName,
+                ...promptValues
+            });
+        } else {
+            systemPrompt = `You are ${config.chatbotName}, an AI assistant in a Discord server. `;
 
-        if (config.responseType && config.responseType.trim().length > 0) {
-            systemPrompt += `Your personality and response style: ${config.responseType}. `;
-        }
+            if (config.responseType && config.responseType.trim().length > 0) {
+                systemPrompt += `Your personality and response style: ${config.responseType}. `;
+            }
 
-        systemPrompt += `
+            systemPrompt += `
         Guidelines:
         - Be helpful, informative, and engaging
         - Keep responses concise but thorough
@@ -106,9 +140,14 @@ export class ChatbotService {
         - If you don't know something, say so honestly
         - Stay in character as ${config.chatbotName}
         - Answer questions directly without suggesting tickets unless explicitly needed`;
+        }
 
         if (includeTools) {
             systemPrompt += `
+            Tools:
+            You can call tools to look up the user's tickets, check a ticket's status, search the server's knowledge base, or offer to create a ticket.
+            Call a tool only when it helps answer the current message. Tool results are returned to you; use them to answer the user.
+
             IMPORTANT - Ticket Creation Tool Guidelines:
             ONLY use the create_ticket tool when:
             - User EXPLICITLY asks to "create a ticket", "open a ticket", "talk to support", or "contact staff"
@@ -137,44 +176,148 @@ export class ChatbotService {
                 - Reference the information naturally in your response
                 - If the context is relevant, use it to provide accurate, detailed answers
                 - If the context doesn't relate to the question, you can still provide general help
+                - Each context block names the document it came from; cite that document if the user asks where the information comes from
                 - Don't mention that you're using "context" or "knowledge base" explicitly`;
         }
 
         return systemPrompt;
     };
     /**
-     * Get available ticket categories for tool usage
-     * @param guildId - Discord guild ID
-     * @returns Array of category IDs and names
+     * Build the context tools run in
+     * @param config - Chatbot configuration
+     * @param userId - Discord user ID
+     * @param channelId - Discord channel ID
+     * @param userMessage - The user's message content
+     * @returns Tool context or null if the guild is unavailable
      */
-    private getTicketCategories = async (guildId: string): Promise<Array<{ id: string; name: string }>> => {
-        try {
-            const ticketRepo = new TicketRepository(this.dataSource);
-            const categories = await ticketRepo.getTicketCategories(guildId);
-            return categories
-                .filter(cat => cat.isEnabled)
-                .map(cat => ({ id: cat.id, name: cat.name }));
-        } catch (error) {
-            client.logger.error(`[CHATBOT_SERVICE] Error getting ticket categories: ${error}`);
-            return [];
-        }
+    private buildToolContext = async (
+        config: ChatbotConfig,
+        userId: string,
+        channelId: string,
+        userMessage: string
+    ): Promise<IChatbotToolContext | null> => {
+        const guild = client.guilds.cache.get(config.guildId);
+        if (!guild) return null;
+
+        const member = await guild.members.fetch(userId).catch(() => null);
+
+        return {
+            dataSource: this.dataSource,
+            config,
+            guild,
+            member,
+            userId,
+            channelId,
+            userMessage
+        };
+    };
+
+    /**
+     * Collect the values for the placeholders of a custom prompt template
+     * @param config - Chatbot configuration
+     * @param context - Tool context with the guild and member, if available
+     * @returns Placeholder values
+     */
+    private getPromptValues = async (
+        config: ChatbotConfig,
+        context: IChatbotToolContext | null
+    ): Promise<Record<string, string>> => {
+        const ticketRepo = new TicketRepository(this.dataSource);
+        const categories = await ticketRepo.getTicketCategories(config.guildId);
+        const channel = context?.guild.channels.cache.get(config.channelId);
+
+        return {
+            guild_name: context?.guild.name ?? "this server",
+            user: context?.member?.displayName ?? "the user",
+            categories: categories.filter(cat => cat.isEnabled).map(cat => cat.name).join(", ") || "none",
+            channel: channel ? channel.name : "this channel"
+        };
+    };
+
+    /**
+     * Store a pending ticket creation and build the confirmation prompt shown to the user
+     * @param ticketRequest - Category and message chosen by the create_ticket tool
+     * @param userMessage - The user's message content
+     * @param config - Chatbot configuration
+     * @param channelId - Discord channel ID
+     * @param userId - Discord user ID
+     * @returns Confirmation embed and buttons
+     */
+    private createTicketConfirmation = (
+        ticketRequest: NonNullable<IChatbotToolResult["ticketRequest"]>,
+        userMessage: string,
+        config: ChatbotConfig,
+        channelId: string,
+        userId: string
+    ): {
+        needsConfirmation: boolean;
+        confirmationEmbed: discord.EmbedBuilder;
+        confirmationButtons: discord.ActionRowBuilder<discord.ButtonBuilder>;
+    } => {
+        const confirmationId = `ticket_confirm_${userId}_${Date.now()}`;
+
+        this.cleanupOldConfirmations();
+
+        ChatbotService.pendingTicketCreations.set(confirmationId, {
+            categoryId: ticketRequest.categoryId,
+            userMessage,
+            guildId: config.guildId,
+            channelId,
+            userId,
+            toolMessage: ticketRequest.message
+        });
+
+        client.logger.debug(`[CHATBOT_SERVICE] Stored pending ticket creation with ID: ${confirmationId}`);
+
+        const confirmationEmbed = new discord.EmbedBuilder()
+            .setTitle("🎫 Create Ticket Confirmation")
+            .setDescription(
+                `${ticketRequest.message}\n\n` +
+                `**Category:** ${ticketRequest.categoryName}\n` +
+                `**Your message:** ${userMessage.length > 100 ? userMessage.substring(0, 100) + "..." : userMessage}`
+            )
+            .setColor("Blue")
+            .setFooter({ text: "This will create a private support channel for you" });
+
+        const confirmationButtons = new discord.ActionRowBuilder<discord.ButtonBuilder>()
+            .addComponents(
+                new discord.ButtonBuilder()
+                    .setCustomId(`ticket_confirm_yes_${confirmationId}`)
+                    .setLabel("Create Ticket")
+                    .setStyle(discord.ButtonStyle.Success)
+                    .setEmoji("✅"),
+                new discord.ButtonBuilder()
+                    .setCustomId(`ticket_confirm_no_${confirmationId}`)
+                    .setLabel("Cancel")
+                    .setStyle(discord.ButtonStyle.Secondary)
+                    .setEmoji("❌")
+            );
+
+        return {
+            needsConfirmation: true,
+            confirmationEmbed,
+            confirmationButtons
+        };
     };
 
     /**
-     * Process a user message and generate a response with two-stage LLM invocation
+     * Process a user message: a tool loop (stage 1) followed by the final response (stage 2)
      * @param userMessage - The user's message content
      * @param userId - Discord user ID
      * @param config - Chatbot configuration
      * @param channelId - Discord channel ID
+     * @param renderer - Optional renderer to stream the response into; falls back to a regular completion if the provider can't stream
      * @returns Generated response, confirmation button, or null if failed
      */
     public processMessage = async (
         userMessage: string,
         userId: string,
         config: ChatbotConfig,
-        channelId: string
+        channelId: string,
+        renderer?: StreamRenderer
     ): Promise<{
         response?: string;
+        streamed?: boolean;
         needsConfirmation?: boolean;
         confirmationEmbed?: discord.EmbedBuilder;
         confirmationButtons?: discord.ActionRowBuilder<discord.ButtonBuilder>;
@@ -186,110 +329,105 @@ export class ChatbotService {
                 this.dataSource,
                 userId,
                 config.guildId,
+                config.channelId,
                 20
             );
 
-            const ragContext = await this.searchRagContext(userMessage, config.guildId);
-            const categories = await this.getTicketCategories(config.guildId);
-
-            // Stage 1: Check if tools need to be executed
-            if (categories.length > 0) {
-                const toolSystemPrompt = this.buildSystemPrompt(config, ragContext, true);
-                const history = await chatHistory.getHistory();
-                const filteredHistory = history.filter(msg => msg.role !== 'system');
-
-                const toolMessages = [
-                    { role: 'system' as const, content: toolSystemPrompt },
-                    ...filteredHistory,
-                    { role: 'user' as const, content: userMessage }
-                ];
-
-                const categoryIds = categories.map(cat => cat.id);
-                const tools = createDynamicTicketTool(categories);
-
-                const toolResponse = await llm.invoke(toolMessages, config.modelName, {
-                    max_tokens: 2000,
-                    temperature: 0.3,
-                    tools: tools,
-                    tool_choice: "auto"
-                });
-
-                const toolCalls = toolResponse.choices[0]?.message?.tool_calls;
-
-                if (toolCalls && toolCalls.length > 0) {
-                    const toolCall = toolCalls[0];
-
-                    if (toolCall.function.name === "create_ticket") {
-                        const args = JSON.parse(toolCall.function.arguments);
-                        const selectedCategory = categories.find(cat => cat.name === args.ticket_category);
-
-                        if (selectedCategory) {
-                            const confirmationId = `ticket_confirm_${userId}_${Date.now()}`;
-
-                            this.cleanupOldConfirmations();
-
-                            ChatbotService.pendingTicketCreations.set(confirmationId, {
-                                categoryId: selectedCategory.id,
-                                userMessage,
-                                guildId: config.guildId,
-                                channelId,
-                                userId,
-                                toolMessage: args.message || "A ticket will be created to assist you with your request."
-                            });
-
-                            client.logger.debug(`[CHATBOT_SERVICE] Stored pending ticket creation with ID: ${confirmationId}`);
-
-                            const confirmationEmbed = new discord.EmbedBuilder()
-                                .setTitle("🎫 Create Ticket Confirmation")
-                                .setDescription(
-                                    `${args.message || "I'd like to create a ticket to better assist you with your request."}\n\n` +
-                                    `**Category:** ${selectedCategory.name}\n` +
-                                    `**Your message:** ${userMessage.length > 100 ? userMessage.substring(0, 100) + "..." : userMessage}`
-                                )
-                                .setColor("Blue")
-                                .setFooter({ text: "This will create a private support channel for you" });
-
-                            const confirmationButtons = new discord.ActionRowBuilder<discord.ButtonBuilder>()
-                                .addComponents(
-                                    new discord.ButtonBuilder()
-                                        .setCustomId(`ticket_confirm_yes_${confirmationId}`)
-                                        .setLabel("Create Ticket")
-                                        .setStyle(discord.ButtonStyle.Success)
-                                        .setEmoji("✅"),
-                                    new discord.ButtonBuilder()
-                                        .setCustomId(`ticket_confirm_no_${confirmationId}`)
-                                        .setLabel("Cancel")
-                                        .setStyle(discord.ButtonStyle.Secondary)
-                                        .setEmoji("❌")
-                                );
-
-                            return {
-                                needsConfirmation: true,
-                                confirmationEmbed,
-                                confirmationButtons
-                            };
+            const ragContext = await this.searchRagContext(userMessage, config);
+            const history = await chatHistory.getHistory();
+            const filteredHistory = history.filter(msg => msg.role !== 'system');
+
+            const toolContext = await this.buildToolContext(config, userId, channelId, userMessage);
+            const promptValues = config.promptTemplate ? await this.getPromptValues(config, toolContext) : {};
+            const tools = toolContext ? await ChatbotService.toolRegistry.getAvailableTools(toolContext) : [];
+            const toolDefinitions = toolContext && tools.length > 0
+                ? await ChatbotService.toolRegistry.getDefinitions(tools, toolContext)
+                : [];
+            const toolExchange: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [];
+
+            // Stage 1: Let the model call tools, feeding results back until it has what it needs
+            if (toolContext && toolDefinitions.length > 0) {
+                const toolSystemPrompt = this.buildSystemPrompt(config, ragContext, true, promptValues);
+
+                for (let step = 0; step < ChatbotService.MAX_TOOL_STEPS; step++) {
+                    const toolMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+                        { role: 'system', content: toolSystemPrompt },
+                        ...filteredHistory,
+                        { role: 'user', content: userMessage },
+                        ...toolExchange
+                    ];
+
+                    const toolResponse = await llm.invoke(toolMessages, config.modelName, {
+                        max_tokens: 2000,
+                        temperature: 0.3,
+                        tools: toolDefinitions,
+                        tool_choice: "auto"
+                    });
+
+                    const assistantToolMessage = toolResponse.choices[0]?.message;
+                    const toolCalls = assistantToolMessage?.tool_calls;
+
+                    if (!toolCalls || toolCalls.length === 0) {
+                        break;
+                    }
+
+                    toolExchange.push({
+                        role: 'assistant',
+                        content: assistantToolMessage.content ?? null,
+                        tool_calls: toolCalls
+                    });
+
+                    for (const toolCall of toolCalls) {
+                        client.logger.debug(`[CHATBOT_SERVICE] Executing tool ${toolCall.function.name} (step ${step + 1})`);
+
+                        const result = await ChatbotService.toolRegistry.execute(
+                            toolCall.function.name,
+                            toolCall.function.arguments,
+                            toolContext
+                        );
+
+                        if (result.ticketRequest) {
+                            return this.createTicketConfirmation(result.ticketRequest, userMessage, config, channelId, userId);
                         }
+
+                        toolExchange.push({
+                            role: 'tool',
+                            tool_call_id: toolCall.id,
+                            content: result.content
+                        });
                     }
                 }
             }
 
-            // Stage 2: Normal response generation (no tools needed)
-            const normalSystemPrompt = this.buildSystemPrompt(config, ragContext, false);
-            const history = await chatHistory.getHistory();
-            const filteredHistory = history.filter(msg => msg.role !== 'system');
+            // Stage 2: Normal response generation, including any tool results gathered above
+            const normalSystemPrompt = this.buildSystemPrompt(config, ragContext, false, promptValues);
 
-            const normalMessages = [
-                { role: 'system' as const, content: normalSystemPrompt },
+            const normalMessages: OpenAI.Chat.Completions.ChatCompletionMessageParam[] = [
+                { role: 'system', content: normalSystemPrompt },
                 ...filteredHistory,
-                { role: 'user' as const, content: userMessage }
+                { role: 'user', content: userMessage },
+                ...toolExchange
             ];
 
-            const response = await llm.invoke(normalMessages, config.modelName, {
+            const llmOptions: Record<string, any> = {
                 max_tokens: 2000,
-                temperature: 0.7
-            });
+                temperature: 0.7,
+                ...(toolExchange.length > 0 ? { tools: toolDefinitions, tool_choice: "none" } : {})
+            };
 
-            const assistantMessage = response.choices[0]?.message?.content;
+            let assistantMessage: string | null = null;
+            let streamed = false;
+
+            if (renderer && !ChatbotService.nonStreamingProviders.has(config.baseUrl)) {
+                const streamResult = await this.streamResponse(llm, normalMessages, config, llmOptions, renderer);
+                assistantMessage = streamResult;
+                streamed = streamResult !== null;
+            }
+
+            if (!assistantMessage) {
+                const response = await llm.invoke(normalMessages, config.modelName, llmOptions);
+                assistantMessage = response.choices[0]?.message?.content || null;
+            }
 
             if (!assistantMessage) {
                 client.logger.error('[CHATBOT_SERVICE] No response content from LLM');
@@ -299,7 +437,7 @@ export class ChatbotService {
             await chatHistory.addUserMessage(userMessage);
             await chatHistory.addAssistantMessage(assistantMessage);
 
-            return { response: assistantMessage };
+            return { response: assistantMessage, streamed };
 
         } catch (error) {
             client.logger.error(`[CHATBOT_SERVICE] Error processing message: ${error}`);
@@ -307,6 +445,50 @@ export class ChatbotService {
         }
     };
 
+    /**
+     * Stream a completion into the renderer
+     * @param llm - LLM client for the guild's provider
+     * @param messages - Messages to send
+     * @param config - Chatbot configuration
+     * @param options - Completion options
+     * @param renderer - Renderer that edits the Discord reply as tokens arrive
+     * @returns The streamed text, or null if the provider can't stream and nothing was sent
+     */
+    private streamResponse = async (
+        llm: LLM,
+        messages: Parameters<LLM["invoke"]>[0],
+        config: ChatbotConfig,
+        options: Record<string, any>,
+        renderer: StreamRenderer
+    ): Promise<string | null> => {
+        try {
+            for await (const delta of llm.stream(messages, config.modelName, options)) {
+                renderer.push(delta);
+            }
+            await renderer.finish();
+        } catch (error: any) {
+            if (renderer.hasOutput || renderer.content.length > 0) {
+                await renderer.finish();
+                throw error;
+            }
+
+            if (![401, 403, 429].includes(error?.status) && !(error?.status >= 500)) {
+                ChatbotService.nonStreamingProviders.add(config.baseUrl);
+            }
+
+            client.logger.warn(`[CHATBOT_SERVICE] Streaming failed for ${config.baseUrl}, falling back to regular completion: ${error}`);
+            return null;
+        }
+
+        if (!renderer.content.trim()) {
+            ChatbotService.nonStreamingProviders.add(config.baseUrl);
+            client.logger.warn(`[CHATBOT_SERVICE] Provider ${config.baseUrl} returned an empty stream, falling back to regular completion`);
+            return null;
+        }
+
+        return renderer.content;
+    };
+
     /**
      * Handle ticket creation confirmation
      * @param confirmationId - The confirmation ID
@@ -333,6 +515,7 @@ export class ChatbotService {
                 this.dataSource,
                 pendingCreation.userId,
                 pendingCreation.guildId,
+                pendingCreation.channelId,
                 20
             );
 
@@ -353,6 +536,14 @@ export class ChatbotService {
                 return { success: false, message: "The selected ticket category no longer exists." };
             }
 
+            const limitCheck = await checkTicketCreationLimits(pendingCreation.guildId, pendingCreation.userId, category);
+            if (!limitCheck.allowed) {
+                await chatHistory.addUserMessage(pendingCreation.userMessage);
+                await chatHistory.addAssistantMessage(`I couldn't create a new ticket for you yet. ${limitCheck.message}`);
+
+                return { success: false, message: limitCheck.message! };
+            }
+
             const guild = client.guilds.cache.get(pendingCreation.guildId);
             if (!guild) {
                 await chatHistory.addUserMessage(pendingCreation.userMessage);
@@ -361,35 +552,7 @@ export class ChatbotService {
                 return { success: false, message: "Server not found." };
             }
 
-            const tempChannelName = `ticket-new`;
-            const newTicketChannel = await guild.channels.create({
-                name: tempChannelName,
-                type: discord.ChannelType.GuildText,
-                parent: category.categoryId,
-                permissionOverwrites: [
-                    {
-                        id: guild.roles.everyone,
-                        deny: [discord.PermissionFlagsBits.ViewChannel]
-                    },
-                    {
-                        id: client.user!.id,
-                        allow: [
-                            discord.PermissionFlagsBits.ViewChannel,
-                            discord.PermissionFlagsBits.SendMessages,
-                            discord.PermissionFlagsBits.ManageChannels,
-                            discord.PermissionFlagsBits.ReadMessageHistory
-                        ]
-                    },
-                    {
-                        id: pendingCreation.userId,
-                        allow: [
-                            discord.PermissionFlagsBits.ViewChannel,
-                            discord.PermissionFlagsBits.SendMessages,
-                            discord.PermissionFlagsBits.ReadMessageHistory
-                        ]
-                    }
-                ]
-            });
+            const newTicketChannel = await createTicketChannel(guild, category, pendingCreation.userId);
 
             const ticket = await ticketRepo.createTicket(
                 pendingCreation.guildId,
@@ -401,21 +564,6 @@ export class ChatbotService {
             const channelName = `ticket-${ticket.ticketNumber.toString().padStart(4, '0')}`;
             await newTicketChannel.setName(channelName);
 
-            if (category.supportRoleId) {
-                try {
-                    await newTicketChannel.permissionOverwrites.create(
-                        category.supportRoleId,
-                        {
-                            ViewChannel: true,
-                            SendMessages: true,
-                            ReadMessageHistory: true
-                        }
-                    );
-                } catch (permissionError) {
-                    client.logger.warn(`[CHATBOT_SERVICE] Could not set permissions for support role: ${permissionError}`);
-                }
-            }
-
             const ticketMessage = category.ticketMessage;
             const welcomeMessage = ticketMessage?.welcomeMessage ||
                 `Welcome to your ticket in the **${category.name}** category!\n\nOriginal question: *${pendingCreation.userMessage}*\n\nPlease provide any additional details, and a staff member will assist you shortly.`;
@@ -436,26 +584,12 @@ export class ChatbotService {
                 .setFooter({ text: `Use /ticket close to close this ticket | ID: ${ticket.id}` })
                 .setTimestamp();
 
-            const actionRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
-                .addComponents(
-                    new discord.ButtonBuilder()
-                        .setCustomId("ticket_claim")
-                        .setLabel("Claim Ticket")
-                        .setStyle(discord.ButtonStyle.Primary)
-                        .setEmoji("👋"),
-                    new discord.ButtonBuilder()
-                        .setCustomId("ticket_close")
-                        .setLabel("Close Ticket")
-                        .setStyle(discord.ButtonStyle.Danger)
-                        .setEmoji("🔒")
-                );
+            const actionRow = createTicketActionRow();
 
             await newTicketChannel.send({
-                content: ticketMessage?.includeSupportTeam && category.supportRoleId ?
-                    `<@${pendingCreation.userId}> | <@&${category.supportRoleId}>` :
-                    `<@${pendingCreation.userId}>`,
+                content: getTicketWelcomeMentions(category, pendingCreation.userId),
                 embeds: [welcomeEmbed],
-                components: [actionRow]
+                components: [actionRow, createTicketPriorityRow()]
             });
 
             await chatHistory.addUserMessage(pendingCreation.userMessage);
@@ -555,14 +689,15 @@ export class ChatbotService {
     };
 
     /**
-     * Clear chat history for a user
+     * Clear a user's chat history with the chatbot of one channel
      * @param userId - Discord user ID
      * @param guildId - Discord guild ID
+     * @param channelId - Chatbot channel ID
      * @returns True if successful, false otherwise
      */
-    public clearUserHistory = async (userId: string, guildId: string): Promise<boolean> => {
+    public clearUserHistory = async (userId: string, guildId: string, channelId: string): Promise<boolean> => {
         try {
-            const chatHistory = new ChatHistory(this.dataSource, userId, guildId);
+            const chatHistory = new ChatHistory(this.dataSource, userId, guildId, channelId);
             await chatHistory.clearHistory(false);
             return true;
         } catch (error) {
@@ -0,0 +1,240 @@
+import pdf from "pdf-parse";
+import mammoth from "mammoth";
+import { parse as parseHtml } from "node-html-parser";
+
+import { IRagSourceType } from "../../types";
+
+/**
+ * File extensions accepted for knowledge base ingestion, mapped to their source type
+ */
+export const SUPPORTED_RAG_EXTENSIONS: Record<string, IRagSourceType> = {
+    txt: "txt",
+    md: "md",
+    pdf: "pdf",
+    docx: "docx",
+    html: "html",
+    htm: "html",
+    json: "json",
+    csv: "csv"
+};
+
+/**
+ * Source types stored as binary data that can't be read as plain text
+ */
+export const BINARY_RAG_TYPES: IRagSourceType[] = ["pdf", "docx"];
+
+/**
+ * Elements that never carry useful help-center content
+ */
+const HTML_IGNORED_ELEMENTS = ["script", "style", "noscript", "nav", "header", "footer", "aside", "form", "iframe", "svg"];
+
+const QUESTION_KEYS = ["question", "q", "title", "prompt"];
+const ANSWER_KEYS = ["answer", "a", "response", "content"];
+
+/**
+ * Resolve the source type of a file name
+ * @param fileName - Name of the uploaded file
+ * @returns The source type, or null if the extension is not supported
+ */
+export const getRagSourceType = (fileName: string): IRagSourceType | null => {
+    const extension = fileName.split(".").pop()?.toLowerCase();
+    if (!extension) return null;
+    return SUPPORTED_RAG_EXTENSIONS[extension] ?? null;
+};
+
+/**
+ * Find the value of the first matching key in a record, ignoring case
+ */
+const pickField = (record: Record<string, any>, keys: string[]): string | null => {
+    for (const [key, value] of Object.entries(record)) {
+        if (keys.includes(key.toLowerCase()) && value !== null && value !== undefined && String(value).trim()) {
+            return String(value).trim();
+        }
+    }
+    return null;
+};
+
+/**
+ * Format a question/answer pair as a self-contained block so it stays together when chunked
+ */
+const formatFaqEntry = (question: string, answer: string): string => `Q: ${question}\nA: ${answer}`;
+
+/**
+ * Extract text from a PDF document
+ */
+const extractPdf = async (buffer: Buffer): Promise<string> => {
+    const result = await pdf(buffer);
+    return result.text;
+};
+
+/**
+ * Extract raw text from a Word (.docx) document
+ */
+const extractDocx = async (buffer: Buffer): Promise<string> => {
+    const result = await mammoth.extractRawText({ buffer });
+    return result.value;
+};
+
+/**
+ * Extract readable text from an HTML page, dropping navigation, scripts and styling
+ */
+const extractHtml = (html: string): string => {
+    const root = parseHtml(html);
+    root.querySelectorAll(HTML_IGNORED_ELEMENTS.join(",")).forEach((element) => element.remove());
+
+    const body = root.querySelector("main") || root.querySelector("article") || root.querySelector("body") || root;
+    const title = root.querySelector("title")?.text.trim();
+    const text = body.structuredText.replace(/\n{3,}/g, "\n\n").trim();
+
+    return title && !text.startsWith(title) ? `${title}\n\n${text}` : text;
+};
+
+/**
+ * Flatten an arbitrary JSON value into "path: value" lines
+ */
+const flattenJson = (value: any, prefix: string, lines: string[]): void => {
+    if (value === null || value === undefined) return;
+
+    if (Array.isArray(value)) {
+        value.forEach((item, index) => flattenJson(item, `${prefix}[${index}]`, lines));
+        return;
+    }
+
+    if (typeof value === "object") {
+        for (const [key, child] of Object.entries(value)) {
+            flattenJson(child, prefix ? `${prefix}.${key}` : key, lines);
+        }
+        return;
+    }
+
+    const text = String(value).trim();
+    if (text) lines.push(prefix ? `${prefix}: ${text}` : text);
+};
+
+/**
+ * Extract text from a JSON file. FAQ-style arrays of question/answer objects are
+ * rendered as Q/A blocks, anything else is flattened into key/value lines.
+ */
+const extractJson = (raw: string): string => {
+    let data: any;
+    try {
+        data = JSON.parse(raw);
+    } catch (error: Error | any) {
+        throw new Error(`Invalid JSON file: ${error.message}`);
+    }
+
+    const entries = Array.isArray(data)
+        ? data
+        : (data && typeof data === "object" ? Object.values(data).find((value) => Array.isArray(value)) : null);
+
+    if (Array.isArray(entries) && entries.length > 0) {
+        const faqEntries = entries
+            .filter((entry) => entry && typeof entry === "object")
+            .map((entry) => ({ question: pickField(entry, QUESTION_KEYS), answer: pickField(entry, ANSWER_KEYS) }))
+            .filter((entry): entry is { question: string; answer: string } => !!entry.question && !!entry.answer);
+
+        if (faqEntries.length === entries.length) {
+            return faqEntries.map((entry) => formatFaqEntry(entry.question, entry.answer)).join("\n\n");
+        }
+    }
+
+    const lines: string[] = [];
+    flattenJson(data, "", lines);
+    return lines.join("\n");
+};
+
+/**
+ * Parse CSV content into rows, supporting quoted fields, escaped quotes and embedded newlines
+ */
+const parseCsv = (raw: string): string[][] => {
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = "";
+    let inQuotes = false;
+
+    for (let i = 0; i < raw.length; i++) {
+        const char = raw[i];
+
+        if (inQuotes) {
+            if (char === "\"" && raw[i + 1] === "\"") {
+                field += "\"";
+                i++;
+            } else if (char === "\"") {
+                inQuotes = false;
+            } else {
+                field += char;
+            }
+            continue;
+        }
+
+        if (char === "\"") {
+            inQuotes = true;
+        } else if (char === ",") {
+            row.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && raw[i + 1] === "\n") i++;
+            row.push(field);
+            rows.push(row);
+            row = [];
+            field = "";
+        } else {
+            field += char;
+        }
+    }
+
+    if (field || row.length > 0) {
+        row.push(field);
+        rows.push(row);
+    }
+
+    return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+/**
+ * Extract text from a CSV file. Files with question/answer columns are rendered as
+ * Q/A blocks, other files produce one "header: value" block per row.
+ */
+const extractCsv = (raw: string): string => {
+    const rows = parseCsv(raw.replace(/^\uFEFF/, ""));
+    if (rows.length === 0) return "";
+
+    const headers = rows[0].map((header) => header.trim());
+    const normalized = headers.map((header) => header.toLowerCase());
+    const questionIndex = normalized.findIndex((header) => QUESTION_KEYS.includes(header));
+    const answerIndex = normalized.findIndex((header) => ANSWER_KEYS.includes(header));
+
+    return rows.slice(1).map((cells) => {
+        if (questionIndex !== -1 && answerIndex !== -1 && cells[questionIndex]?.trim() && cells[answerIndex]?.trim()) {
+            return formatFaqEntry(cells[questionIndex].trim(), cells[answerIndex].trim());
+        }
+
+        return headers
+            .map((header, index) => cells[index]?.trim() ? `${header || `Column ${index + 1}`}: ${cells[index].trim()}` : null)
+            .filter(Boolean)
+            .join("\n");
+    }).filter(Boolean).join("\n\n");
+};
+
+/**
+ * Extract plain text from an uploaded knowledge file
+ * @param buffer - Raw file contents
+ * @param type - Source type of the file
+ * @returns The extracted text
+ */
+export const extractText = async (buffer: Buffer, type: IRagSourceType): Promise<string> => {
+    switch (type) {
+        case "pdf":
+            return extractPdf(buffer);
+        case "docx":
+            return extractDocx(buffer);
+        case "html":
+            return extractHtml(buffer.toString("utf-8"));
+        case "json":
+            return extractJson(buffer.toString("utf-8"));
+        case "csv":
+            return extractCsv(buffer.toString("utf-8"));
+        default:
+            return buffer.toString("utf-8");
+    }
+};
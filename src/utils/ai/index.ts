@@ -1,7 +1,9 @@
 import { LLM, Embedding } from "./llm";
 import RAG from "./rag";
 import ChatHistory from "./chat_history";
+import StreamRenderer from "./stream_renderer";
+import ChannelKnowledgeSync from "./channel_sync";
 import { ChatbotService } from "./chat_service";
-import { createDynamicTicketTool } from "./tools";
+import { createDynamicTicketTool, ToolRegistry, createDefaultToolRegistry } from "./tools";
 
-export { LLM, Embedding, ChatHistory, RAG, ChatbotService, createDynamicTicketTool };
\ No newline at end of file
+export { LLM, Embedding, ChatHistory, RAG, ChatbotService, StreamRenderer, ChannelKnowledgeSync, createDynamicTicketTool, ToolRegistry, createDefaultToolRegistry };
\ No newline at end of file
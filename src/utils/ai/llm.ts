@@ -60,6 +60,59 @@ class LLM {
             }
         }
     }
+
+    /**
+     * Streams the LLM completion for the given messages and model.
+     * Only the initial request is retried; once tokens start flowing errors are thrown as-is.
+     * @param {OpenAI.Chat.Completions.ChatCompletionMessageParam[]} messages - The messages to send to the LLM.
+     * @param {string} model - The model to use for the LLM.
+     * @param {object} options - Additional options for the API call.
+     * @returns {AsyncGenerator<string>} - The content deltas as they arrive.
+     * @throws {Error} - Throws an error if the API request fails or the provider does not support streaming.
+     */
+    public async *stream(
+        messages: OpenAI.Chat.Completions.ChatCompletionMessageParam[],
+        model: string,
+        options?: Record<string, any>
+    ): AsyncGenerator<string> {
+        let retries = 0;
+        let stream: AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>;
+
+        while (true) {
+            try {
+                stream = await this.openai_client.chat.completions.create({
+                    ...(options || {}),
+                    model: model,
+                    messages: messages,
+                    stream: true
+                }) as AsyncIterable<OpenAI.Chat.Completions.ChatCompletionChunk>;
+
+                if (!stream || typeof (stream as any)[Symbol.asyncIterator] !== "function") {
+                    throw new Error("Provider did not return a stream");
+                }
+
+                break;
+            } catch (error: any) {
+                retries++;
+
+                if (retries <= this.maxRetries &&
+                    (error.status === 429 || error.status >= 500)) {
+                    const delay = this.retryDelayMs * Math.pow(2, retries - 1);
+                    console.warn(`API stream request failed, retrying in ${delay}ms: ${error.message}`);
+                    await new Promise(resolve => setTimeout(resolve, delay));
+                } else {
+                    throw error;
+                }
+            }
+        }
+
+        for await (const chunk of stream) {
+            const delta = chunk.choices?.[0]?.delta?.content;
+            if (delta) {
+                yield delta;
+            }
+        }
+    }
 }
 
 /**
@@ -0,0 +1,64 @@
+/**
+ * Placeholders staff can use in a custom chatbot prompt template
+ */
+export const PROMPT_PLACEHOLDERS: Record<string, string> = {
+    guild_name: "The name of this server",
+    user: "The display name of the member talking to the bot",
+    categories: "Comma-separated list of enabled ticket categories",
+    chatbot_name: "The chatbot's configured name",
+    channel: "The name of the chatbot channel"
+};
+
+/**
+ * Maximum length of a prompt template (Discord modal text input limit)
+ */
+export const MAX_PROMPT_TEMPLATE_LENGTH = 4000;
+
+/**
+ * Starter template shown when a guild has no custom prompt yet
+ */
+export const DEFAULT_PROMPT_TEMPLATE =
+    "You are {chatbot_name}, the assistant of the {guild_name} Discord server.\n" +
+    "You are talking to {user}.\n\n" +
+    "Tone: friendly and concise.\n" +
+    "Do not discuss: politics, other servers.\n" +
+    "If the user needs staff help, mention that tickets can be opened for: {categories}.";
+
+/**
+ * Only lowercase identifiers count as placeholders, so literal braces such as JSON in product facts are kept as text
+ */
+const PLACEHOLDER_PATTERN = /\{([a-z_]+)\}/g;
+
+/**
+ * Names of the supported placeholders, kept apart from the object so inherited keys like `constructor` never match
+ */
+const SUPPORTED_PLACEHOLDERS = new Set(Object.keys(PROMPT_PLACEHOLDERS));
+
+/**
+ * Find placeholders in a template that are not supported
+ * @param template - The prompt template
+ * @returns Unknown placeholder names (without braces), deduplicated
+ */
+export const findUnknownPlaceholders = (template: string): string[] => {
+    const unknown = new Set<string>();
+
+    for (const match of template.matchAll(PLACEHOLDER_PATTERN)) {
+        if (!SUPPORTED_PLACEHOLDERS.has(match[1])) {
+            unknown.add(match[1]);
+        }
+    }
+
+    return Array.from(unknown);
+};
+
+/**
+ * Replace the supported placeholders in a template; unknown placeholders are left untouched
+ * @param template - The prompt template
+ * @param values - Values for each placeholder
+ * @returns The rendered prompt
+ */
+export const renderPromptTemplate = (template: string, values: Partial<Record<keyof typeof PROMPT_PLACEHOLDERS, string>>): string => {
+    return template.replace(PLACEHOLDER_PATTERN, (placeholder, name: string) => {
+        return SUPPORTED_PLACEHOLDERS.has(name) ? values[name] ?? "" : placeholder;
+    });
+};
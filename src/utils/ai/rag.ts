@@ -2,11 +2,12 @@ import path from 'path';
 import fs from 'fs/promises';
 import { Embedding } from './llm';
 import { RecursiveCharacterTextSplitter } from "@langchain/textsplitters";
-import { IProcessingOptions, IMetadata, IDocument } from '../../types';
+import { extractText, getRagSourceType, SUPPORTED_RAG_EXTENSIONS } from './extractors';
+import { IProcessingOptions, IMetadata, IDocument, IRagSourceType } from '../../types';
 
 /**
  * Retrieval-Augmented Generation document processor
- * Handles text file processing, chunking, and embedding generation
+ * Handles text extraction, chunking, and embedding generation
  */
 class RAG {
     private readonly embedding: Embedding;
@@ -28,27 +29,29 @@ class RAG {
      * Validates if the file has a supported extension
      */
     private validateFile = (filePath: string): void => {
-        const validExtensions = ['.txt', '.md'];
-        const ext = path.extname(filePath).toLowerCase();
+        const validExtensions = Object.keys(SUPPORTED_RAG_EXTENSIONS).map((ext) => `.${ext}`);
 
-        if (!validExtensions.includes(ext)) {
+        if (!getRagSourceType(filePath)) {
             throw new Error(`Invalid file extension. Supported extensions are: ${validExtensions.join(', ')}`);
         }
     };
 
     /**
-     * Safely reads file content with proper error handling
+     * Safely reads file content with proper error handling, extracting text from rich formats
      */
     private readFile = async (filePath: string): Promise<string> => {
+        let buffer: Buffer;
         try {
             await fs.access(filePath);
-            return await fs.readFile(filePath, 'utf-8');
+            buffer = await fs.readFile(filePath);
         } catch (error: Error | any) {
             if (error.code === 'ENOENT') {
                 throw new Error(`File not found: ${filePath}`);
             }
             throw new Error(`Failed to read file: ${error.message}`);
         }
+
+        return extractText(buffer, getRagSourceType(filePath)!);
     };
 
     /**
@@ -96,7 +99,7 @@ class RAG {
             source: {
                 name: path.basename(filePath),
                 path: filePath,
-                type: path.extname(filePath).toLowerCase().slice(1) as 'txt' | 'md'
+                type: getRagSourceType(filePath) || 'txt'
             },
             createdAt: now,
             updatedAt: now,
@@ -223,7 +226,7 @@ class RAG {
      */
     public processText = async (
         text: string,
-        source: { name: string; type: 'txt' | 'md' },
+        source: { name: string; type: IRagSourceType },
         options?: IProcessingOptions
     ): Promise<IDocument[]> => {
         const mergedOptions = {
@@ -238,6 +241,21 @@ class RAG {
         return this.processChunksInBatches(chunks, virtualFilePath, mergedOptions);
     };
 
+    /**
+     * Process raw file contents (e.g. a downloaded attachment) without writing them to disk
+     * Text is extracted according to the source type before chunking
+     */
+    public processBuffer = async (
+        buffer: Buffer,
+        source: { name: string; type: IRagSourceType },
+        options?: IProcessingOptions
+    ): Promise<IDocument[]> => {
+        const text = await extractText(buffer, source.type);
+        if (!text || text.trim().length === 0) return [];
+
+        return this.processText(text, source, options);
+    };
+
     /**
      * Get embedding for a single query text
      * Useful for search operations
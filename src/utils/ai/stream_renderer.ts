@@ -0,0 +1,157 @@
+import discord from "discord.js";
+import client from "../../salt";
+
+/**
+ * Renders a streamed LLM response into Discord by progressively editing reply messages.
+ * Edits are throttled to stay within Discord's rate limits, and the output rolls over
+ * into a new reply whenever the current message would exceed the character limit.
+ */
+class StreamRenderer {
+    private readonly message: discord.Message;
+    private readonly throttleMs: number;
+    private readonly maxLength: number;
+    private readonly cursor: string = " ▌";
+
+    private current: discord.Message | null = null;
+    private buffer: string = "";
+    private fullText: string = "";
+    private lastRendered: string = "";
+    private lastEditAt: number = 0;
+    private pendingEdit: NodeJS.Timeout | null = null;
+    private queue: Promise<void> = Promise.resolve();
+    private sentMessages: number = 0;
+
+    /**
+     * @param message - The user message the response replies to
+     * @param throttleMs - Minimum delay between two edits of the same message
+     * @param maxLength - Maximum characters per Discord message
+     */
+    constructor(message: discord.Message, throttleMs: number = 1500, maxLength: number = 2000) {
+        this.message = message;
+        this.throttleMs = throttleMs;
+        this.maxLength = maxLength;
+    }
+
+    /**
+     * The complete text received so far
+     */
+    public get content(): string {
+        return this.fullText;
+    }
+
+    /**
+     * Whether anything has been sent to Discord yet
+     */
+    public get hasOutput(): boolean {
+        return this.sentMessages > 0;
+    }
+
+    /**
+     * Append a content delta from the stream
+     * @param delta - Text received from the LLM
+     */
+    public push = (delta: string): void => {
+        this.fullText += delta;
+        this.buffer += delta;
+
+        while (this.buffer.length > this.maxLength) {
+            const splitIndex = this.findSplitIndex(this.buffer);
+            const head = this.buffer.slice(0, splitIndex).trimEnd();
+            this.buffer = this.buffer.slice(splitIndex).trimStart();
+
+            this.enqueue(async () => {
+                await this.render(head, false);
+                this.current = null;
+                this.lastRendered = "";
+            });
+        }
+
+        this.scheduleRender();
+    };
+
+    /**
+     * Flush the remaining content and wait for all pending Discord operations
+     */
+    public finish = async (): Promise<void> => {
+        if (this.pendingEdit) {
+            clearTimeout(this.pendingEdit);
+            this.pendingEdit = null;
+        }
+
+        this.enqueue(() => this.render(this.buffer.trim(), false));
+        await this.queue;
+    };
+
+    /**
+     * Find a natural place to split text that exceeds the message limit
+     * @param text - The text to split
+     * @returns Index to split at
+     */
+    private findSplitIndex = (text: string): number => {
+        const window = text.slice(0, this.maxLength);
+        const candidates = [window.lastIndexOf("\n\n"), window.lastIndexOf("\n"), window.lastIndexOf(". "), window.lastIndexOf(" ")];
+
+        for (const index of candidates) {
+            if (index > this.maxLength / 2) {
+                return index + 1;
+            }
+        }
+
+        return this.maxLength;
+    };
+
+    /**
+     * Schedule a throttled edit of the current message
+     */
+    private scheduleRender = (): void => {
+        if (this.pendingEdit) return;
+
+        const delay = Math.max(0, this.lastEditAt + this.throttleMs - Date.now());
+        this.pendingEdit = setTimeout(() => {
+            this.pendingEdit = null;
+            this.enqueue(() => this.render(this.buffer, true));
+        }, delay);
+    };
+
+    /**
+     * Run Discord operations one after another so edits never overtake each other
+     * @param task - The operation to run
+     */
+    private enqueue = (task: () => Promise<void>): void => {
+        this.queue = this.queue
+            .then(task)
+            .catch((error) => {
+                client.logger.warn(`[STREAM_RENDERER] Failed to render streamed response: ${error}`);
+            });
+    };
+
+    /**
+     * Send or edit the current message with the given content
+     * @param text - Content to display
+     * @param streaming - Whether more content is expected (adds a cursor)
+     */
+    private render = async (text: string, streaming: boolean): Promise<void> => {
+        if (!text.trim()) return;
+
+        const display = streaming && text.length + this.cursor.length <= this.maxLength
+            ? text + this.cursor
+            : text;
+
+        if (display === this.lastRendered) return;
+
+        if (!this.current) {
+            this.current = await this.message.reply({
+                content: display,
+                allowedMentions: { repliedUser: false }
+            });
+            this.sentMessages++;
+        } else {
+            await this.current.edit({ content: display });
+        }
+
+        this.lastRendered = display;
+        this.lastEditAt = Date.now();
+    };
+}
+
+export default StreamRenderer;
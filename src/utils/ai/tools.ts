@@ -1,5 +1,11 @@
-import { OpenAIFunction } from "../../types";
-
+import discord from "discord.js";
+import client from "../../salt";
+import RAG from "./rag";
+import { Embedding } from "./llm";
+import { RagRepository } from "../../events/database/repo/rag_data";
+import { TicketRepository } from "../../events/database/repo/ticket_system";
+import { ITicketStatus } from "../../events/database/entities/ticket_system";
+import { OpenAIFunction, IChatbotTool, IChatbotToolContext, IChatbotToolResult } from "../../types";
 
 /**
  * Creates tools for ticket management with dynamic category support
@@ -32,4 +38,297 @@ export const createDynamicTicketTool = (availableCategories: Array<{ id: string;
             }
         }
     }];
-};
\ No newline at end of file
+};
+
+/**
+ * Registry of tools the chatbot can call
+ * Each tool declares its schema, the permissions a member needs to use it, and an executor
+ */
+export class ToolRegistry {
+    private tools: Map<string, IChatbotTool> = new Map();
+
+    /**
+     * Register a tool, replacing any existing tool with the same name
+     * @param tool - Tool to register
+     * @returns The registry for chaining
+     */
+    public register = (tool: IChatbotTool): ToolRegistry => {
+        this.tools.set(tool.name, tool);
+        return this;
+    };
+
+    /**
+     * Get the tools the member in the given context is allowed to use
+     * @param context - Tool execution context
+     * @returns Array of usable tools
+     */
+    public getAvailableTools = async (context: IChatbotToolContext): Promise<IChatbotTool[]> => {
+        const available: IChatbotTool[] = [];
+
+        for (const tool of this.tools.values()) {
+            if (!this.hasPermissions(tool, context)) continue;
+
+            try {
+                if (tool.isAvailable && !(await tool.isAvailable(context))) continue;
+                available.push(tool);
+            } catch (error) {
+                client.logger.warn(`[CHATBOT_TOOLS] Could not check availability of ${tool.name}: ${error}`);
+            }
+        }
+
+        return available;
+    };
+
+    /**
+     * Build the OpenAI function definitions for the given tools
+     * @param tools - Tools to describe
+     * @param context - Tool execution context
+     * @returns Array of function definitions
+     */
+    public getDefinitions = async (tools: IChatbotTool[], context: IChatbotToolContext): Promise<OpenAIFunction[]> => {
+        return Promise.all(tools.map(tool => tool.getDefinition(context)));
+    };
+
+    /**
+     * Execute a tool call requested by the model
+     * @param name - Tool name
+     * @param rawArgs - JSON-encoded arguments from the model
+     * @param context - Tool execution context
+     * @returns Tool result to feed back to the model
+     */
+    public execute = async (name: string, rawArgs: string, context: IChatbotToolContext): Promise<IChatbotToolResult> => {
+        const tool = this.tools.get(name);
+        if (!tool) {
+            return { content: JSON.stringify({ error: `Unknown tool: ${name}` }) };
+        }
+
+        if (!this.hasPermissions(tool, context)) {
+            return { content: JSON.stringify({ error: "The user does not have permission to use this tool." }) };
+        }
+
+        let args: Record<string, any>;
+        try {
+            args = rawArgs ? JSON.parse(rawArgs) : {};
+        } catch {
+            return { content: JSON.stringify({ error: "Invalid tool arguments, expected JSON." }) };
+        }
+
+        try {
+            return await tool.execute(args, context);
+        } catch (error) {
+            client.logger.error(`[CHATBOT_TOOLS] Error executing ${name}: ${error}`);
+            return { content: JSON.stringify({ error: `The ${name} tool failed to run.` }) };
+        }
+    };
+
+    /**
+     * Check whether the member in the context has every permission a tool requires
+     */
+    private hasPermissions = (tool: IChatbotTool, context: IChatbotToolContext): boolean => {
+        if (tool.permissions.length === 0) return true;
+        if (!context.member) return false;
+        return context.member.permissions.has(tool.permissions);
+    };
+}
+
+/**
+ * Get the enabled ticket categories for a guild
+ */
+const getEnabledCategories = async (context: IChatbotToolContext) => {
+    const ticketRepo = new TicketRepository(context.dataSource);
+    const categories = await ticketRepo.getTicketCategories(context.guild.id);
+    return categories.filter(cat => cat.isEnabled);
+};
+
+/**
+ * Messages that plausibly ask about existing tickets, e.g. "my ticket" or "#42"
+ */
+const TICKET_QUESTION_PATTERN = /\btickets?\b|#\d+/i;
+
+/**
+ * Check whether the ticket lookup tools are worth offering for a message
+ * Offering a tool costs an extra model call, so they are only offered when the ticket
+ * system is enabled and the message mentions tickets
+ */
+const canLookUpTickets = async (context: IChatbotToolContext): Promise<boolean> => {
+    if (!TICKET_QUESTION_PATTERN.test(context.userMessage)) return false;
+
+    const guildConfig = await new TicketRepository(context.dataSource).getGuildConfig(context.guild.id);
+    return !!guildConfig?.isEnabled;
+};
+
+/**
+ * Format a ticket for tool output
+ */
+const formatTicket = (ticket: { ticketNumber: number; status: string; createdAt: Date; claimedById?: string | null; closedAt?: Date | null; closeReason?: string | null; channelId: string; category?: { name: string } }) => ({
+    ticket_number: ticket.ticketNumber,
+    status: ticket.status,
+    category: ticket.category?.name ?? null,
+    channel: ticket.status === ITicketStatus.OPEN ? `<#${ticket.channelId}>` : null,
+    claimed_by_staff: !!ticket.claimedById,
+    created_at: ticket.createdAt.toISOString(),
+    closed_at: ticket.closedAt ? ticket.closedAt.toISOString() : null,
+    close_reason: ticket.closeReason ?? null
+});
+
+/**
+ * Offer to open a ticket; the service asks the user to confirm before anything is created
+ */
+export const createTicketTool: IChatbotTool = {
+    name: "create_ticket",
+    permissions: [],
+    isAvailable: async (context) => (await getEnabledCategories(context)).length > 0,
+    getDefinition: async (context) => {
+        const categories = await getEnabledCategories(context);
+        return createDynamicTicketTool(categories.map(cat => ({ id: cat.id, name: cat.name })))[0];
+    },
+    execute: async (args, context) => {
+        const categories = await getEnabledCategories(context);
+        const category = categories.find(cat => cat.name === args.ticket_category);
+
+        if (!category) {
+            return { content: JSON.stringify({ error: `Unknown ticket category: ${args.ticket_category}` }) };
+        }
+
+        return {
+            content: JSON.stringify({ status: "awaiting_user_confirmation" }),
+            ticketRequest: {
+                categoryId: category.id,
+                categoryName: category.name,
+                message: args.message || "A ticket will be created to assist you with your request."
+            }
+        };
+    }
+};
+
+/**
+ * List the open tickets of the user talking to the chatbot
+ */
+export const getMyOpenTicketsTool: IChatbotTool = {
+    name: "get_my_open_tickets",
+    permissions: [],
+    isAvailable: canLookUpTickets,
+    getDefinition: async () => ({
+        type: "function",
+        function: {
+            name: "get_my_open_tickets",
+            description: "Look up the support tickets the user currently has open in this server. Use this when the user asks about their open tickets or whether they already have a ticket.",
+            parameters: {
+                type: "object",
+                properties: {},
+                required: [],
+                additionalProperties: false
+            }
+        }
+    }),
+    execute: async (_args, context) => {
+        const ticketRepo = new TicketRepository(context.dataSource);
+        const tickets = await ticketRepo.getUserTickets(context.guild.id, context.userId, ITicketStatus.OPEN);
+
+        return { content: JSON.stringify({ open_tickets: tickets.slice(0, 10).map(formatTicket), total: tickets.length }) };
+    }
+};
+
+/**
+ * Get the status of a ticket by its number; members without Manage Channels can only see their own tickets
+ */
+export const getTicketStatusTool: IChatbotTool = {
+    name: "get_ticket_status",
+    permissions: [],
+    isAvailable: canLookUpTickets,
+    getDefinition: async () => ({
+        type: "function",
+        function: {
+            name: "get_ticket_status",
+            description: "Get the current status of a support ticket by its ticket number (for example 42 for ticket #0042).",
+            parameters: {
+                type: "object",
+                properties: {
+                    ticket_number: {
+                        type: "integer",
+                        description: "The ticket number without the leading # or zeros."
+                    }
+                },
+                required: ["ticket_number"],
+                additionalProperties: false
+            }
+        }
+    }),
+    execute: async (args, context) => {
+        const ticketNumber = Number(args.ticket_number);
+        if (!Number.isInteger(ticketNumber) || ticketNumber <= 0) {
+            return { content: JSON.stringify({ error: "ticket_number must be a positive integer." }) };
+        }
+
+        const ticketRepo = new TicketRepository(context.dataSource);
+        const ticket = await ticketRepo.getTicketByNumber(context.guild.id, ticketNumber);
+
+        const isStaff = context.member?.permissions.has(discord.PermissionFlagsBits.ManageChannels) ?? false;
+        if (!ticket || (ticket.creatorId !== context.userId && !isStaff)) {
+            return { content: JSON.stringify({ error: `No ticket #${ticketNumber} found for this user.` }) };
+        }
+
+        return { content: JSON.stringify(formatTicket(ticket)) };
+    }
+};
+
+/**
+ * Search the guild's knowledge base for a specific query
+ */
+export const searchKnowledgeBaseTool: IChatbotTool = {
+    name: "search_knowledge_base",
+    permissions: [],
+    isAvailable: async (context) => new RagRepository(context.dataSource).hasRagData(context.guild.id),
+    getDefinition: async () => ({
+        type: "function",
+        function: {
+            name: "search_knowledge_base",
+            description: "Search this server's knowledge base documents (FAQ, rules, guides...) for information. Use this when the provided context does not answer the question or a more specific search is needed.",
+            parameters: {
+                type: "object",
+                properties: {
+                    query: {
+                        type: "string",
+                        description: "What to search for, phrased as a short question or keywords."
+                    }
+                },
+                required: ["query"],
+                additionalProperties: false
+            }
+        }
+    }),
+    execute: async (args, context) => {
+        if (!args.query || typeof args.query !== "string") {
+            return { content: JSON.stringify({ error: "query is required." }) };
+        }
+
+        const ragRepo = new RagRepository(context.dataSource);
+        const rag = new RAG(new Embedding());
+        const queryEmbedding = await rag.getQueryEmbedding(args.query);
+        const chunks = await ragRepo.searchSimilarChunks(context.guild.id, queryEmbedding, 5, {
+            queryText: args.query,
+            similarityThreshold: context.config.ragSimilarityThreshold
+        });
+
+        return {
+            content: JSON.stringify({
+                results: chunks.map(chunk => ({
+                    source: chunk.document?.fileName ?? null,
+                    content: chunk.content
+                }))
+            })
+        };
+    }
+};
+
+/**
+ * Create the registry with all first-party chatbot tools
+ * @returns Tool registry
+ */
+export const createDefaultToolRegistry = (): ToolRegistry => {
+    return new ToolRegistry()
+        .register(createTicketTool)
+        .register(getMyOpenTicketsTool)
+        .register(getTicketStatusTool)
+        .register(searchKnowledgeBaseTool);
+};
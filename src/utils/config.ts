@@ -16,6 +16,10 @@ const EnvSchema = z.object({
         return val;
     }),
     FEEDBACK_WEBHOOK: z.string(),
+    ENCRYPTION_KEY: z.string().min(32),
+    ENCRYPTION_KEY_PREVIOUS: z.string().optional().transform((val) => {
+        return (val || "").split(",").map((key) => key.trim()).filter((key) => key.length > 0);
+    }),
 });
 
 /**
@@ -56,11 +60,15 @@ export class ConfigManager {
                 POSTGRES_URI: process.env.POSTGRES_URI,
                 DEBUG_MODE: process.env.DEBUG_MODE || false,
                 FEEDBACK_WEBHOOK: process.env.FEEDBACK_WEBHOOK,
+                ENCRYPTION_KEY: process.env.ENCRYPTION_KEY,
+                ENCRYPTION_KEY_PREVIOUS: process.env.ENCRYPTION_KEY_PREVIOUS,
             });
         } catch (error) {
             if (error instanceof z.ZodError) {
                 const missingVars = error.issues.map((issue) =>
-                    issue.path.join(".")
+                    issue.code === "too_small"
+                        ? `${issue.path.join(".")} (${issue.message})`
+                        : issue.path.join(".")
                 );
                 throw new Error(
                     `Missing required environment variables: ${missingVars.join(
@@ -124,4 +132,20 @@ export class ConfigManager {
     public getFeedbackWebhook(): string {
         return this.config.FEEDBACK_WEBHOOK;
     }
+
+    /**
+     * Gets the key used to encrypt secrets stored in the database
+     * @returns {string} The current encryption key from environment variables
+     */
+    public getEncryptionKey(): string {
+        return this.config.ENCRYPTION_KEY;
+    }
+
+    /**
+     * Gets the previous encryption keys, used to decrypt secrets during key rotation
+     * @returns {string[]} The previous encryption keys, newest first
+     */
+    public getPreviousEncryptionKeys(): string[] {
+        return this.config.ENCRYPTION_KEY_PREVIOUS;
+    }
 }
@@ -0,0 +1,102 @@
+import crypto from "crypto";
+import { ValueTransformer } from "typeorm";
+import { ConfigManager } from "./config";
+
+const configManager = ConfigManager.getInstance();
+
+const ALGORITHM = "aes-256-gcm";
+const PREFIX = "enc:v1";
+
+interface IEncryptionKey {
+    id: string;
+    key: Buffer;
+}
+
+/**
+ * Derive a 256-bit key and a short identifier from a configured secret
+ * The identifier is stored with each value so the right key can be picked after a rotation
+ * @param secret - The configured encryption key
+ * @returns The derived key and its identifier
+ */
+const deriveKey = (secret: string): IEncryptionKey => {
+    const key = crypto.createHash("sha256").update(secret).digest();
+    const id = crypto.createHash("sha256").update(key).digest("hex").slice(0, 8);
+    return { id, key };
+};
+
+const currentKey = deriveKey(configManager.getEncryptionKey());
+const previousKeys = configManager.getPreviousEncryptionKeys().map(deriveKey);
+
+/**
+ * Check whether a stored value was produced by encrypt()
+ * @param value - The stored value
+ * @returns True if the value is encrypted
+ */
+export const isEncrypted = (value: string): boolean => {
+    return value.startsWith(`${PREFIX}:`);
+};
+
+/**
+ * Check whether a stored value should be (re-)encrypted with the current key
+ * @param value - The stored value
+ * @returns True if the value is plaintext or encrypted with a previous key
+ */
+export const needsReEncryption = (value: string): boolean => {
+    if (!isEncrypted(value)) return true;
+    return value.split(":")[2] !== currentKey.id;
+};
+
+/**
+ * Encrypt a secret with the current encryption key
+ * @param plaintext - The secret to encrypt
+ * @returns The encrypted value in the format `enc:v1:<keyId>:<iv>:<tag>:<ciphertext>`
+ */
+export const encrypt = (plaintext: string): string => {
+    const iv = crypto.randomBytes(12);
+    const cipher = crypto.createCipheriv(ALGORITHM, currentKey.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, "utf8"), cipher.final()]);
+    const tag = cipher.getAuthTag();
+
+    return [PREFIX, currentKey.id, iv.toString("base64"), tag.toString("base64"), ciphertext.toString("base64")].join(":");
+};
+
+/**
+ * Decrypt a value produced by encrypt(), using the current or a previous key
+ * Plaintext values (stored before encryption was enabled) are returned unchanged
+ * @param value - The stored value
+ * @returns The decrypted secret
+ * @throws {Error} If the value was encrypted with an unknown key or has been tampered with
+ */
+export const decrypt = (value: string): string => {
+    if (!isEncrypted(value)) return value;
+
+    const [, , keyId, iv, tag, ciphertext] = value.split(":");
+    const encryptionKey = [currentKey, ...previousKeys].find((candidate) => candidate.id === keyId);
+    if (!encryptionKey) {
+        throw new Error(`No encryption key available for key ID ${keyId}; add it to ENCRYPTION_KEY_PREVIOUS`);
+    }
+
+    const decipher = crypto.createDecipheriv(ALGORITHM, encryptionKey.key, Buffer.from(iv, "base64"));
+    decipher.setAuthTag(Buffer.from(tag, "base64"));
+
+    return Buffer.concat([decipher.update(Buffer.from(ciphertext, "base64")), decipher.final()]).toString("utf8");
+};
+
+/**
+ * Mask a secret for display, keeping only the last four characters
+ * @param secret - The secret to mask
+ * @returns The masked secret
+ */
+export const maskSecret = (secret: string | null | undefined): string => {
+    if (!secret) return "Not set";
+    if (secret.length <= 8) return "••••••••";
+    return "••••••••" + secret.slice(-4);
+};
+
+/**
+ * TypeORM column transformer that encrypts values on write and decrypts them on read
+ */
+export const encryptedColumnTransformer: ValueTransformer = {
+    to: (value: string | null | undefined) => (value === null || value === undefined ? value : encrypt(value)),
+    from: (value: string | null) => (value === null ? value : decrypt(value))
+};
@@ -132,4 +132,17 @@ const setSafeTimeout = (callback: () => void, delayMs: number): NodeJS.Timeout =
     }
 };
 
-export { wait, sendTempMessage, setSafeTimeout };
\ No newline at end of file
+/**
+ * Parses a YYYY-MM-DD command option as a UTC date.
+ * @param value - The option value, or null if the option was not given.
+ * @returns The date, undefined if no value was given, or null if the value is not a valid date.
+ */
+const parseDateOption = (value: string | null): Date | null | undefined => {
+    if (!value) return undefined;
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return null;
+
+    const date = new Date(`${value}T00:00:00.000Z`);
+    return isNaN(date.getTime()) ? null : date;
+};
+
+export { wait, sendTempMessage, setSafeTimeout, parseDateOption };
\ No newline at end of file
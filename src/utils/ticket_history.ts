@@ -0,0 +1,148 @@
+import discord from "discord.js";
+import Formatter from "./format";
+import { EmbedTemplate } from "./embed_template";
+import { isTicketStaff } from "./ticket_permissions";
+import { TicketRepository } from "../events/database/repo/ticket_system";
+import { ITicket, ITicketSearchFilters } from "../types";
+
+const PAGE_SIZE = 5;
+const COLLECTOR_TIMEOUT = 5 * 60 * 1000;
+
+const STATUS_LABELS: Record<string, string> = {
+    open: "🟢 Open",
+    closed: "🔴 Closed",
+    archived: "🔵 Archived"
+};
+
+/**
+ * Formats how long a ticket was open, or has been open so far
+ */
+const formatTicketDuration = (ticket: ITicket): string => {
+    const end = ticket.closedAt ? new Date(ticket.closedAt).getTime() : Date.now();
+    const duration = Formatter.formatUptime(Math.floor((end - new Date(ticket.createdAt).getTime()) / 1000));
+    return ticket.closedAt ? `Took ${duration}` : `Open for ${duration}`;
+};
+
+/**
+ * Build the embed listing one page of a user's tickets
+ */
+const createHistoryEmbed = (user: discord.User, tickets: ITicket[], total: number, page: number): discord.EmbedBuilder => {
+    const totalPages = Math.max(1, Math.ceil(total / PAGE_SIZE));
+
+    return new discord.EmbedBuilder()
+        .setTitle(`📚 Ticket History of ${user.tag}`)
+        .setDescription(`<@${user.id}> has opened **${total}** ticket${total === 1 ? "" : "s"} in this server.`)
+        .setThumbnail(user.displayAvatarURL())
+        .addFields(tickets.map(ticket => {
+            const details = [
+                `${STATUS_LABELS[ticket.status] ?? ticket.status} · Opened <t:${Math.floor(new Date(ticket.createdAt).getTime() / 1000)}:d> · ${formatTicketDuration(ticket)}`,
+                ticket.claimedById ? `Claimed by <@${ticket.claimedById}>` : "Unclaimed",
+                ticket.closeReason ? `Reason: ${ticket.closeReason.substring(0, 100)}` : null
+            ].filter(Boolean);
+
+            return {
+                name: `#${ticket.ticketNumber} · ${ticket.category.emoji || "🎫"} ${ticket.category.name}`,
+                value: details.join("\n")
+            };
+        }))
+        .setColor("Blue")
+        .setFooter({ text: `Page ${page + 1} of ${totalPages}` })
+        .setTimestamp();
+};
+
+/**
+ * Build the page navigation for a user's ticket history
+ */
+const createHistoryComponents = (total: number, page: number): discord.ActionRowBuilder<discord.ButtonBuilder>[] => {
+    const totalPages = Math.ceil(total / PAGE_SIZE);
+    if (totalPages <= 1) return [];
+
+    return [
+        new discord.ActionRowBuilder<discord.ButtonBuilder>().addComponents(
+            new discord.ButtonBuilder()
+                .setCustomId("ticket_history_prev")
+                .setLabel("Previous")
+                .setStyle(discord.ButtonStyle.Primary)
+                .setDisabled(page === 0),
+            new discord.ButtonBuilder()
+                .setCustomId("ticket_history_next")
+                .setLabel("Next")
+                .setStyle(discord.ButtonStyle.Primary)
+                .setDisabled(page >= totalPages - 1)
+        )
+    ];
+};
+
+/**
+ * Shows the paginated ticket history of a user to a staff member
+ * Only tickets of categories the staff member supports are listed. The interaction must already be deferred.
+ *
+ * @param interaction - The deferred command or button interaction
+ * @param client - The Discord client
+ * @param user - The user whose tickets to list
+ */
+export const sendTicketHistory = async (
+    interaction: discord.ChatInputCommandInteraction | discord.ButtonInteraction,
+    client: discord.Client,
+    user: discord.User
+): Promise<void> => {
+    const ticketRepo = new TicketRepository((client as any).dataSource);
+    const member = interaction.member as discord.GuildMember;
+
+    const categories = await ticketRepo.getTicketCategories(interaction.guildId!);
+    const staffCategoryIds = categories
+        .filter(category => isTicketStaff(member, category))
+        .map(category => category.id);
+
+    if (staffCategoryIds.length === 0) {
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).error("Only the support team can view the ticket history of users.")]
+        });
+        return;
+    }
+
+    const filters: ITicketSearchFilters = { categoryIds: staffCategoryIds, creatorId: user.id };
+
+    let page = 0;
+    let { tickets, total } = await ticketRepo.searchTickets(interaction.guildId!, filters, page, PAGE_SIZE);
+
+    if (total === 0) {
+        await interaction.editReply({
+            embeds: [new EmbedTemplate(client).info(`${user.tag} has not opened any tickets yet.`)]
+        });
+        return;
+    }
+
+    const message = await interaction.editReply({
+        embeds: [createHistoryEmbed(user, tickets, total, page)],
+        components: createHistoryComponents(total, page)
+    });
+
+    if (total <= PAGE_SIZE) return;
+
+    const collector = message.createMessageComponentCollector({
+        filter: (i): i is discord.ButtonInteraction =>
+            i.isButton() && i.user.id === interaction.user.id &&
+            (i.customId === "ticket_history_prev" || i.customId === "ticket_history_next"),
+        time: COLLECTOR_TIMEOUT
+    });
+
+    collector.on('collect', async i => {
+        try {
+            await i.deferUpdate();
+            page += i.customId === "ticket_history_next" ? 1 : -1;
+            ({ tickets, total } = await ticketRepo.searchTickets(interaction.guildId!, filters, page, PAGE_SIZE));
+
+            await interaction.editReply({
+                embeds: [createHistoryEmbed(user, tickets, total, page)],
+                components: createHistoryComponents(total, page)
+            });
+        } catch (error) {
+            client.logger.error(`[TICKET_HISTORY] Error changing history page: ${error}`);
+        }
+    });
+
+    collector.on('end', async () => {
+        await interaction.editReply({ components: [] }).catch(() => { });
+    });
+};
@@ -0,0 +1,88 @@
+import discord from "discord.js";
+import client from "../salt";
+import { closeTicketChannel, isTicketChannel } from "./ticket_utils";
+import { TicketRepository } from "../events/database/repo/ticket_system";
+import { ITicket, ITicketChannel } from "../types";
+
+const DEFAULT_GRACE_HOURS = 24;
+const HOUR_MS = 60 * 60 * 1000;
+
+const INACTIVITY_CLOSE_REASON = "Inactive";
+
+/**
+ * Posts the inactivity warning with a "Keep open" button, pinging the ticket creator
+ */
+const sendInactivityWarning = async (
+    channel: ITicketChannel,
+    ticket: ITicket,
+    graceHours: number
+): Promise<void> => {
+    const closesAt = Math.floor((Date.now() + graceHours * HOUR_MS) / 1000);
+
+    const actionRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
+        .addComponents(
+            new discord.ButtonBuilder()
+                .setCustomId("ticket_keep_open")
+                .setLabel("Keep open")
+                .setStyle(discord.ButtonStyle.Success)
+                .setEmoji("⏳")
+        );
+
+    await channel.send({
+        content: `<@${ticket.creatorId}>`,
+        embeds: [
+            new discord.EmbedBuilder()
+                .setTitle("💤 Inactive Ticket")
+                .setDescription(
+                    `There has been no activity from you in this ticket for ${ticket.category.inactivityHours} hours.\n\n` +
+                    `It will be closed automatically <t:${closesAt}:R> unless you reply or click **Keep open** below.`
+                )
+                .setColor("Orange")
+                .setFooter({ text: `Ticket #${ticket.ticketNumber}` })
+                .setTimestamp()
+        ],
+        components: [actionRow],
+        allowedMentions: { users: [ticket.creatorId] }
+    });
+};
+
+/**
+ * Checks all open tickets against the inactivity policy of their category
+ * Warns the creator once the inactivity period has passed and closes the ticket
+ * with the reason "Inactive" when the grace period after the warning runs out
+ */
+export const checkInactiveTickets = async (): Promise<void> => {
+    const dataSource = (client as any).dataSource;
+    if (!dataSource || !client.user) return;
+
+    const ticketRepo = new TicketRepository(dataSource);
+    const tickets = await ticketRepo.getOpenInactivityTickets();
+    const now = Date.now();
+
+    for (const ticket of tickets) {
+        try {
+            const inactivityHours = ticket.category.inactivityHours!;
+            const graceHours = ticket.category.inactivityGraceHours ?? DEFAULT_GRACE_HOURS;
+            const lastActivity = new Date(ticket.lastActivityAt ?? ticket.createdAt).getTime();
+
+            const warningDue = !ticket.inactivityWarnedAt && now - lastActivity >= inactivityHours * HOUR_MS;
+            const closeDue = !!ticket.inactivityWarnedAt && now - new Date(ticket.inactivityWarnedAt).getTime() >= graceHours * HOUR_MS;
+            if (!warningDue && !closeDue) continue;
+
+            const channel = await client.channels.fetch(ticket.channelId).catch(() => null);
+            if (!isTicketChannel(channel)) continue;
+
+            if (warningDue) {
+                if (!(await ticketRepo.recordInactivityWarning(ticket.id))) continue;
+                await sendInactivityWarning(channel, ticket, graceHours);
+                client.logger.debug(`[TICKET_INACTIVITY] Sent inactivity warning for ticket #${ticket.ticketNumber}`);
+                continue;
+            }
+
+            client.logger.info(`[TICKET_CLOSE] Closing ticket #${ticket.ticketNumber} with reason: ${INACTIVITY_CLOSE_REASON}`);
+            await closeTicketChannel(ticket, channel, client.user, INACTIVITY_CLOSE_REASON);
+        } catch (error) {
+            client.logger.error(`[TICKET_INACTIVITY] Error checking inactivity for ticket ${ticket.id}: ${error}`);
+        }
+    }
+};
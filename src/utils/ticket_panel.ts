@@ -0,0 +1,286 @@
+import discord from "discord.js";
+import client from "../salt";
+import { TicketRepository } from "../events/database/repo/ticket_system";
+import { ITicketButton, ITicketPanel } from "../types";
+
+const PANEL_BUTTON_ID = "create_ticket";
+
+type IPanelAppearance = Pick<ITicketPanel, "label" | "emoji" | "style" | "embedTitle" | "embedDescription" | "embedColor">;
+
+/**
+ * Maps the configured button style to a Discord button style
+ */
+const getPanelButtonStyle = (style?: string): discord.ButtonStyle => {
+    switch (style?.toUpperCase()) {
+        case "SECONDARY":
+            return discord.ButtonStyle.Secondary;
+        case "SUCCESS":
+            return discord.ButtonStyle.Success;
+        case "DANGER":
+            return discord.ButtonStyle.Danger;
+        default:
+            return discord.ButtonStyle.Primary;
+    }
+};
+
+/**
+ * Gets the custom ID of the create button of a panel
+ * The default panel uses the plain ID, additional panels carry their panel ID
+ */
+const getPanelButtonId = (panel?: ITicketPanel): string => {
+    return panel ? `${PANEL_BUTTON_ID}:${panel.id}` : PANEL_BUTTON_ID;
+};
+
+/**
+ * Builds the embed and create button of a ticket panel
+ */
+const buildPanelMessage = (
+    appearance: IPanelAppearance,
+    buttonId: string
+): { embeds: discord.EmbedBuilder[]; components: discord.ActionRowBuilder<discord.ButtonBuilder>[] } => {
+    const ticketEmbed = new discord.EmbedBuilder()
+        .setTitle(appearance.embedTitle || "Need Help?")
+        .setDescription(appearance.embedDescription || "Click the button below to create a ticket")
+        .setColor((appearance.embedColor || "#5865F2") as discord.ColorResolvable)
+        .setFooter({ text: "Powered by Salt Bot", iconURL: client.user?.displayAvatarURL() })
+        .setTimestamp();
+
+    const buttonRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
+        .addComponents(
+            new discord.ButtonBuilder()
+                .setCustomId(buttonId)
+                .setLabel(appearance.label || "Create Ticket")
+                .setEmoji(appearance.emoji || "🎫")
+                .setStyle(getPanelButtonStyle(appearance.style))
+        );
+
+    return { embeds: [ticketEmbed], components: [buttonRow] };
+};
+
+/**
+ * Checks whether a message still carries a panel's create button
+ */
+const hasPanelComponents = (message: discord.Message, buttonId: string): boolean => {
+    return message.components.some(row =>
+        "components" in row && row.components.some(component =>
+            component.type === discord.ComponentType.Button && component.customId === buttonId
+        )
+    );
+};
+
+/**
+ * Sends the ticket panel to a channel and stores it as the guild's panel message
+ *
+ * @param channel - The channel to post the panel in
+ * @param buttonConfig - The guild's ticket button configuration
+ * @returns The posted panel message
+ */
+export const sendTicketPanel = async (
+    channel: discord.TextChannel,
+    buttonConfig: ITicketButton
+): Promise<discord.Message> => {
+    const ticketRepo = new TicketRepository((client as any).dataSource);
+
+    const panelMessage = await channel.send(buildPanelMessage(buttonConfig, getPanelButtonId()));
+
+    await ticketRepo.configureTicketButton(channel.guildId, {
+        messageId: panelMessage.id,
+        channelId: channel.id
+    });
+
+    const categories = await ticketRepo.getTicketCategories(channel.guildId);
+    if (categories.length > 1) {
+        await ticketRepo.configureSelectMenu(channel.guildId, {
+            messageId: panelMessage.id
+        });
+    }
+
+    return panelMessage;
+};
+
+/**
+ * Sends an additional ticket panel to a channel and stores where it was posted
+ *
+ * @param channel - The channel to post the panel in
+ * @param panel - The ticket panel
+ * @returns The posted panel message
+ */
+export const sendCustomTicketPanel = async (
+    channel: discord.TextChannel,
+    panel: ITicketPanel
+): Promise<discord.Message> => {
+    const ticketRepo = new TicketRepository((client as any).dataSource);
+
+    const panelMessage = await channel.send(buildPanelMessage(panel, getPanelButtonId(panel)));
+
+    await ticketRepo.updateTicketPanel(panel.id, {
+        messageId: panelMessage.id,
+        channelId: channel.id
+    });
+
+    return panelMessage;
+};
+
+/**
+ * Fetches the posted message of an additional ticket panel
+ *
+ * @param panel - The ticket panel
+ * @returns The panel message, or null if the panel isn't deployed or its message is gone
+ */
+export const fetchCustomPanelMessage = async (panel: ITicketPanel): Promise<discord.Message | null> => {
+    if (!panel.channelId || !panel.messageId) return null;
+
+    const channel = await client.channels.fetch(panel.channelId).catch(() => null);
+    if (!(channel instanceof discord.TextChannel)) return null;
+
+    return channel.messages.fetch(panel.messageId).catch(() => null);
+};
+
+/**
+ * Applies the current settings of an additional ticket panel to its posted message
+ *
+ * @param panel - The updated ticket panel
+ * @returns Whether a posted message was updated
+ */
+export const refreshCustomTicketPanel = async (panel: ITicketPanel): Promise<boolean> => {
+    const message = await fetchCustomPanelMessage(panel);
+    if (!message) return false;
+
+    await message.edit(buildPanelMessage(panel, getPanelButtonId(panel)));
+    return true;
+};
+
+/**
+ * Reports a restored ticket panel to the guild's ticket log channel
+ */
+const reportPanelRepair = async (
+    logChannelId: string | undefined,
+    panelMessage: discord.Message,
+    panelName: string,
+    reason: string
+): Promise<void> => {
+    if (!logChannelId) return;
+
+    const logChannel = await client.channels.fetch(logChannelId).catch(() => null);
+    if (!logChannel || !logChannel.isSendable()) return;
+
+    await logChannel.send({
+        embeds: [
+            new discord.EmbedBuilder()
+                .setTitle("🛠️ Ticket Panel Restored")
+                .setDescription(`${reason} The panel has been posted again so users can keep opening tickets.`)
+                .addFields(
+                    { name: "Panel", value: panelName, inline: true },
+                    { name: "Channel", value: `<#${panelMessage.channelId}>`, inline: true },
+                    { name: "New Panel", value: `[Jump to message](${panelMessage.url})`, inline: true }
+                )
+                .setColor("Orange")
+                .setTimestamp()
+        ]
+    }).catch(error => {
+        client.logger.warn(`[TICKET_PANEL] Could not report panel repair in ${logChannelId}: ${error}`);
+    });
+};
+
+/**
+ * Checks a single deployed panel and posts it again when its message is gone or broken
+ *
+ * @param guildId - The guild the panel belongs to
+ * @param channelId - The channel the panel was posted in
+ * @param messageId - The posted panel message
+ * @param buttonId - The custom ID the panel's create button must have
+ * @param repost - Posts the panel again through the same code as its deploy command
+ * @returns The reason the panel was restored, or null if it was fine or couldn't be restored
+ */
+const restoreTicketPanel = async (
+    guildId: string,
+    channelId: string,
+    messageId: string,
+    buttonId: string,
+    repost: (channel: discord.TextChannel) => Promise<discord.Message>
+): Promise<{ panelMessage: discord.Message; reason: string } | null> => {
+    const channel = await client.channels.fetch(channelId).catch(() => null);
+    if (!(channel instanceof discord.TextChannel)) {
+        client.logger.debug(`[TICKET_PANEL] Panel channel ${channelId} of guild ${guildId} no longer exists`);
+        return null;
+    }
+
+    const message = await channel.messages.fetch(messageId).catch(error => {
+        if (error instanceof discord.DiscordAPIError && error.code === discord.RESTJSONErrorCodes.UnknownMessage) return null;
+        throw error;
+    });
+    if (message && hasPanelComponents(message, buttonId)) return null;
+
+    const botMember = await channel.guild.members.fetchMe();
+    if (!channel.permissionsFor(botMember).has([
+        discord.PermissionFlagsBits.ViewChannel,
+        discord.PermissionFlagsBits.SendMessages,
+        discord.PermissionFlagsBits.EmbedLinks
+    ])) {
+        client.logger.warn(`[TICKET_PANEL] Missing permissions to restore the ticket panel in ${channel.id} of guild ${guildId}`);
+        return null;
+    }
+
+    const panelMessage = await repost(channel);
+    if (message) {
+        await message.delete().catch(() => { });
+    }
+
+    client.logger.info(`[TICKET_PANEL] Restored ticket panel in channel ${channel.id} of guild ${guildId}`);
+    return {
+        panelMessage,
+        reason: message ? "The ticket panel message was missing its create button." : "The ticket panel message was deleted."
+    };
+};
+
+/**
+ * Checks the deployed ticket panels of every enabled guild
+ * Panels whose message was deleted or lost its create button are posted again in the same
+ * channel, and the repair is reported to the ticket log channel. Panels whose channel no
+ * longer exists are skipped, since there is nowhere to post them.
+ */
+export const checkTicketPanels = async (): Promise<void> => {
+    const dataSource = (client as any).dataSource;
+    if (!dataSource || !client.user) return;
+
+    const ticketRepo = new TicketRepository(dataSource);
+
+    for (const guildConfig of await ticketRepo.getDeployedPanelConfigs()) {
+        const buttonConfig = guildConfig.ticketButton;
+        if (!client.guilds.cache.has(guildConfig.guildId)) continue;
+
+        try {
+            const restored = await restoreTicketPanel(
+                guildConfig.guildId,
+                buttonConfig.channelId!,
+                buttonConfig.messageId!,
+                getPanelButtonId(),
+                channel => sendTicketPanel(channel, buttonConfig)
+            );
+            if (restored) {
+                await reportPanelRepair(buttonConfig.logChannelId, restored.panelMessage, "Default", restored.reason);
+            }
+        } catch (error) {
+            client.logger.error(`[TICKET_PANEL] Error checking ticket panel of guild ${guildConfig.guildId}: ${error}`);
+        }
+    }
+
+    for (const panel of await ticketRepo.getDeployedTicketPanels()) {
+        if (!client.guilds.cache.has(panel.guildConfig.guildId)) continue;
+
+        try {
+            const restored = await restoreTicketPanel(
+                panel.guildConfig.guildId,
+                panel.channelId!,
+                panel.messageId!,
+                getPanelButtonId(panel),
+                channel => sendCustomTicketPanel(channel, panel)
+            );
+            if (restored) {
+                await reportPanelRepair(panel.guildConfig.ticketButton?.logChannelId, restored.panelMessage, panel.name, restored.reason);
+            }
+        } catch (error) {
+            client.logger.error(`[TICKET_PANEL] Error checking ticket panel ${panel.name} of guild ${panel.guildConfig.guildId}: ${error}`);
+        }
+    }
+};
@@ -0,0 +1,61 @@
+import discord from "discord.js";
+import { ITicketCategory, ITicketStaffLevel } from "../types";
+
+const STAFF_LEVEL_RANK: Record<ITicketStaffLevel, number> = {
+    view: 1,
+    respond: 2,
+    manage: 3
+};
+
+/**
+ * Gets the highest staff level a member has in a ticket category
+ * Members who can manage channels and members of the category support role manage tickets.
+ * A denied role takes away any staff access granted by the category's staff roles.
+ * @param member - The guild member to check
+ * @param category - The ticket category
+ * @returns The member's staff level, or null if the member is not staff
+ */
+export const getTicketStaffLevel = (
+    member: discord.GuildMember | null | undefined,
+    category: ITicketCategory
+): ITicketStaffLevel | null => {
+    if (!member) return null;
+    if (member.permissions.has(discord.PermissionFlagsBits.ManageChannels)) return "manage";
+    if (category.deniedRoleIds?.some(roleId => member.roles.cache.has(roleId))) return null;
+    if (category.supportRoleId && member.roles.cache.has(category.supportRoleId)) return "manage";
+
+    let level: ITicketStaffLevel | null = null;
+    for (const staffRole of category.staffRoles ?? []) {
+        if (!member.roles.cache.has(staffRole.roleId)) continue;
+        if (!level || STAFF_LEVEL_RANK[staffRole.level] > STAFF_LEVEL_RANK[level]) level = staffRole.level;
+    }
+    return level;
+};
+
+/**
+ * Checks whether a member has at least a staff level in a ticket category
+ * @param member - The guild member to check
+ * @param category - The ticket category
+ * @param level - The required staff level
+ */
+export const hasTicketStaffLevel = (
+    member: discord.GuildMember | null | undefined,
+    category: ITicketCategory,
+    level: ITicketStaffLevel
+): boolean => {
+    const memberLevel = getTicketStaffLevel(member, category);
+    return !!memberLevel && STAFF_LEVEL_RANK[memberLevel] >= STAFF_LEVEL_RANK[level];
+};
+
+/**
+ * Checks whether a member counts as staff for a ticket category
+ * @param member - The guild member to check
+ * @param category - The ticket category
+ * @returns True if the member has any staff level in the category
+ */
+export const isTicketStaff = (
+    member: discord.GuildMember | null | undefined,
+    category: ITicketCategory
+): boolean => {
+    return getTicketStaffLevel(member, category) !== null;
+};
@@ -0,0 +1,138 @@
+import discord from "discord.js";
+import client from "../salt";
+import { TicketRepository } from "../events/database/repo/ticket_system";
+import { ITicket, ITicketSlaType } from "../types";
+
+const SLA_LABELS: Record<ITicketSlaType, string> = {
+    response: "first staff response",
+    claim: "claim"
+};
+
+/**
+ * Formats an SLA duration in minutes as a readable string
+ */
+const formatSlaDuration = (minutes: number): string => {
+    const hours = Math.floor(minutes / 60);
+    const remainder = minutes % 60;
+    if (hours === 0) return `${remainder}m`;
+    return remainder === 0 ? `${hours}h` : `${hours}h ${remainder}m`;
+};
+
+/**
+ * Sends a warning that a ticket is about to breach an SLA, pinging the support role
+ */
+const sendSlaWarning = async (
+    channel: discord.SendableChannels,
+    ticket: ITicket,
+    type: ITicketSlaType,
+    minutes: number
+): Promise<void> => {
+    const deadline = Math.floor((new Date(ticket.createdAt).getTime() + minutes * 60000) / 1000);
+    const supportRoleId = ticket.category.supportRoleId;
+
+    await channel.send({
+        content: supportRoleId ? `<@&${supportRoleId}>` : undefined,
+        embeds: [
+            new discord.EmbedBuilder()
+                .setTitle("⏰ SLA Warning")
+                .setDescription(`This ticket is waiting for a **${SLA_LABELS[type]}**. The ${formatSlaDuration(minutes)} SLA will be breached <t:${deadline}:R>.`)
+                .setColor("Orange")
+                .setFooter({ text: `Ticket #${ticket.ticketNumber}` })
+                .setTimestamp()
+        ],
+        allowedMentions: { roles: supportRoleId ? [supportRoleId] : [] }
+    });
+};
+
+/**
+ * Sends an escalation for a breached SLA, pinging the escalation role or the support role
+ */
+const sendSlaEscalation = async (
+    channel: discord.SendableChannels,
+    ticket: ITicket,
+    type: ITicketSlaType,
+    minutes: number
+): Promise<void> => {
+    const escalationRoleId = ticket.category.slaEscalationRoleId || ticket.category.supportRoleId;
+
+    await channel.send({
+        content: escalationRoleId ? `<@&${escalationRoleId}>` : undefined,
+        embeds: [
+            new discord.EmbedBuilder()
+                .setTitle("🚨 SLA Breached")
+                .setDescription(`This ticket did not receive a **${SLA_LABELS[type]}** within the ${formatSlaDuration(minutes)} SLA and has been escalated.`)
+                .addFields(
+                    { name: "Opened", value: `<t:${Math.floor(new Date(ticket.createdAt).getTime() / 1000)}:R>`, inline: true },
+                    { name: "Category", value: `${ticket.category.emoji || "🎫"} ${ticket.category.name}`, inline: true }
+                )
+                .setColor("Red")
+                .setFooter({ text: `Ticket #${ticket.ticketNumber}` })
+                .setTimestamp()
+        ],
+        allowedMentions: { roles: escalationRoleId ? [escalationRoleId] : [] }
+    });
+};
+
+/**
+ * Checks a single SLA of a ticket, warning or escalating when its threshold is passed
+ */
+const evaluateSla = async (
+    ticketRepo: TicketRepository,
+    channel: discord.SendableChannels,
+    ticket: ITicket,
+    type: ITicketSlaType,
+    minutes: number,
+    warningThreshold: number
+): Promise<void> => {
+    const elapsed = Date.now() - new Date(ticket.createdAt).getTime();
+    const limit = minutes * 60000;
+    const warnedAt = type === "response" ? ticket.slaResponseWarnedAt : ticket.slaClaimWarnedAt;
+
+    if (elapsed >= limit) {
+        if (!(await ticketRepo.recordSlaBreach(ticket.id, type))) return;
+        await sendSlaEscalation(channel, ticket, type, minutes);
+        client.logger.info(`[TICKET_SLA] Ticket #${ticket.ticketNumber} breached its ${type} SLA in guild ${ticket.category.guildConfig.guildId}`);
+        return;
+    }
+
+    if (!warnedAt && elapsed >= limit * warningThreshold) {
+        if (!(await ticketRepo.recordSlaWarning(ticket.id, type))) return;
+        await sendSlaWarning(channel, ticket, type, minutes);
+        client.logger.debug(`[TICKET_SLA] Sent ${type} SLA warning for ticket #${ticket.ticketNumber}`);
+    }
+};
+
+/**
+ * Checks all open tickets against the SLA of their category
+ * Sends a warning in the ticket channel once the warning threshold is reached and
+ * escalates the ticket when the SLA is breached, recording both on the ticket
+ * @param warningThreshold - Fraction of the SLA after which a warning is sent
+ */
+export const checkTicketSlas = async (warningThreshold: number): Promise<void> => {
+    const dataSource = (client as any).dataSource;
+    if (!dataSource) return;
+
+    const ticketRepo = new TicketRepository(dataSource);
+    const tickets = await ticketRepo.getOpenSlaTickets();
+
+    for (const ticket of tickets) {
+        try {
+            const category = ticket.category;
+            const needsClaim = !!category.slaClaimMinutes && !(ticket.firstClaimedAt ?? ticket.claimedAt) && !ticket.slaClaimBreachedAt;
+            const needsResponse = !!category.slaFirstResponseMinutes && !ticket.firstResponseAt && !ticket.slaResponseBreachedAt;
+            if (!needsClaim && !needsResponse) continue;
+
+            const channel = await client.channels.fetch(ticket.channelId).catch(() => null);
+            if (!channel || !channel.isSendable()) continue;
+
+            if (needsClaim) {
+                await evaluateSla(ticketRepo, channel, ticket, "claim", category.slaClaimMinutes!, warningThreshold);
+            }
+            if (needsResponse) {
+                await evaluateSla(ticketRepo, channel, ticket, "response", category.slaFirstResponseMinutes!, warningThreshold);
+            }
+        } catch (error) {
+            client.logger.error(`[TICKET_SLA] Error checking SLA for ticket ${ticket.id}: ${error}`);
+        }
+    }
+};
@@ -2,17 +2,708 @@ import discord from "discord.js";
 import client from "../salt";
 import { TicketRepository } from "../events/database/repo/ticket_system";
 import { ITicketStatus } from "../events/database/entities/ticket_system";
+import { EmbedTemplate } from "./embed_template";
+import { createAndSendTranscript } from "./transcript";
+import { ITicket, ITicketCategory, ITicketChannel, ITicketFormAnswer, ITicketLimitCheck, ITicketPriority, ITicketStaffLevel } from "../types";
+
+/**
+ * Checks whether a user may open another ticket in a category
+ * Enforces the guild and category limits on concurrently open tickets and the cooldown
+ * between creations. Open tickets whose channel no longer exists are closed along the way.
+ * 
+ * @param guildId - The Discord guild ID
+ * @param userId - The user opening the ticket
+ * @param category - The ticket category the ticket would be created in
+ * @returns Whether the ticket may be created, with a message explaining why not
+ */
+export const checkTicketCreationLimits = async (
+    guildId: string,
+    userId: string,
+    category: ITicketCategory
+): Promise<ITicketLimitCheck> => {
+    const ticketRepo = new TicketRepository((client as any).dataSource);
+    const guildConfig = await ticketRepo.getGuildConfig(guildId);
+    const userTickets = await ticketRepo.getUserTickets(guildId, userId);
+
+    const openTickets: ITicket[] = [];
+    for (const ticket of userTickets.filter(ticket => ticket.status === ITicketStatus.OPEN)) {
+        const ticketChannel = client.channels.cache.get(ticket.channelId) ??
+            await client.channels.fetch(ticket.channelId).catch(() => null);
+        if (ticketChannel) {
+            openTickets.push(ticket);
+        } else {
+            await ticketRepo.updateTicketStatus(ticket.id, ITicketStatus.CLOSED, "system", "Ticket channel was deleted");
+        }
+    }
+
+    const ticketLink = (ticket: ITicket): string => `<#${ticket.channelId}>`;
+    const categoryOpenTickets = openTickets.filter(ticket => ticket.category.id === category.id);
+
+    const guildLimit = guildConfig?.maxOpenTicketsPerUser ?? 1;
+    if (guildLimit > 0 && openTickets.length >= guildLimit) {
+        return {
+            allowed: false,
+            existingTicket: openTickets[0],
+            message: `You already have ${openTickets.length} open ticket${openTickets.length === 1 ? "" : "s"} (limit: ${guildLimit}): ${ticketLink(openTickets[0])}\n\nPlease use your existing ticket or close it before creating a new one.`
+        };
+    }
+
+    const categoryLimit = category.maxOpenTicketsPerUser;
+    if (categoryLimit && categoryOpenTickets.length >= categoryLimit) {
+        return {
+            allowed: false,
+            existingTicket: categoryOpenTickets[0],
+            message: `You already have ${categoryOpenTickets.length} open ticket${categoryOpenTickets.length === 1 ? "" : "s"} in **${category.name}** (limit: ${categoryLimit}): ${ticketLink(categoryOpenTickets[0])}\n\nPlease use your existing ticket or close it before creating a new one.`
+        };
+    }
+
+    const cooldowns = [
+        { minutes: guildConfig?.ticketCooldownMinutes ?? 0, lastTicket: userTickets[0] },
+        { minutes: category.ticketCooldownMinutes ?? 0, lastTicket: userTickets.find(ticket => ticket.category.id === category.id) }
+    ];
+
+    for (const { minutes, lastTicket } of cooldowns) {
+        if (!minutes || !lastTicket) continue;
+
+        const availableAt = new Date(lastTicket.createdAt).getTime() + minutes * 60000;
+        if (availableAt > Date.now()) {
+            const existingTicket = openTickets.find(ticket => ticket.id === lastTicket.id);
+            return {
+                allowed: false,
+                existingTicket,
+                message: `You recently opened a ticket. You can open another one <t:${Math.floor(availableAt / 1000)}:R>.` +
+                    (existingTicket ? `\n\nYour current ticket: ${ticketLink(existingTicket)}` : "")
+            };
+        }
+    }
+
+    return { allowed: true };
+};
+
+/**
+ * Maximum number of questions a category form can have, limited by Discord modals
+ */
+export const MAX_FORM_QUESTIONS = 5;
+
+/**
+ * Builds the pre-ticket question modal for a category
+ * 
+ * @param category - The ticket category with form questions
+ * @returns The modal to show, or null if the category has no form
+ */
+export const createTicketFormModal = (category: ITicketCategory): discord.ModalBuilder | null => {
+    const questions = category.formQuestions?.slice(0, MAX_FORM_QUESTIONS) ?? [];
+    if (questions.length === 0) return null;
+
+    const modal = new discord.ModalBuilder()
+        .setCustomId(`ticket_form_modal:${category.id}`)
+        .setTitle(`${category.name} Ticket`.substring(0, 45));
+
+    questions.forEach((question, index) => {
+        const input = new discord.TextInputBuilder()
+            .setCustomId(`ticket_form_question_${index}`)
+            .setLabel(question.label)
+            .setRequired(question.required)
+            .setStyle(question.style === "paragraph" ? discord.TextInputStyle.Paragraph : discord.TextInputStyle.Short)
+            .setMaxLength(question.style === "paragraph" ? 1024 : 256);
+
+        if (question.placeholder) input.setPlaceholder(question.placeholder);
+
+        modal.addComponents(new discord.ActionRowBuilder<discord.TextInputBuilder>().addComponents(input));
+    });
+
+    return modal;
+};
+
+/**
+ * Reads the answers of a submitted pre-ticket question modal
+ * 
+ * @param interaction - The modal submission
+ * @param category - The ticket category the form belongs to
+ * @returns The answered questions in form order
+ */
+export const getTicketFormAnswers = (
+    interaction: discord.ModalSubmitInteraction,
+    category: ITicketCategory
+): ITicketFormAnswer[] => {
+    const questions = category.formQuestions?.slice(0, MAX_FORM_QUESTIONS) ?? [];
+
+    return questions.map((question, index) => {
+        const field = interaction.fields.fields.get(`ticket_form_question_${index}`);
+        const answer = field && "value" in field ? field.value.trim() : "";
+        return { question: question.label, answer };
+    }).filter(entry => entry.answer.length > 0);
+};
+
+/**
+ * Checks whether a channel can hold a ticket, either a text channel or a private thread
+ */
+export const isTicketChannel = (channel: discord.Channel | null | undefined): channel is ITicketChannel => {
+    return channel?.type === discord.ChannelType.GuildText || channel?.type === discord.ChannelType.PrivateThread;
+};
+
+/**
+ * Channel permissions granted to each staff level of a category
+ */
+const STAFF_LEVEL_PERMISSIONS: Record<ITicketStaffLevel, discord.PermissionOverwriteOptions> = {
+    view: { ViewChannel: true, ReadMessageHistory: true, SendMessages: false },
+    respond: { ViewChannel: true, ReadMessageHistory: true, SendMessages: true },
+    manage: { ViewChannel: true, ReadMessageHistory: true, SendMessages: true, ManageMessages: true }
+};
+
+/**
+ * Builds the role permission overwrites of a ticket channel from its category
+ * Covers the support role, the staff roles with their level, and the extra allowed and denied roles
+ * 
+ * @param category - The ticket category
+ * @param claimRestricted - Whether the ticket is claimed in a claim-only category, taking write access away from all roles
+ * @returns The overwrite options per role ID
+ */
+export const getCategoryRoleOverwrites = (
+    category: ITicketCategory,
+    claimRestricted: boolean = false
+): Map<string, discord.PermissionOverwriteOptions> => {
+    const overwrites = new Map<string, discord.PermissionOverwriteOptions>();
+
+    for (const roleId of category.allowedRoleIds ?? []) {
+        overwrites.set(roleId, { ...STAFF_LEVEL_PERMISSIONS.respond });
+    }
+    for (const staffRole of category.staffRoles ?? []) {
+        overwrites.set(staffRole.roleId, { ...STAFF_LEVEL_PERMISSIONS[staffRole.level] });
+    }
+    if (category.supportRoleId) {
+        overwrites.set(category.supportRoleId, { ...STAFF_LEVEL_PERMISSIONS.respond });
+    }
+
+    if (claimRestricted) {
+        overwrites.forEach(options => options.SendMessages = false);
+    }
+
+    for (const roleId of category.deniedRoleIds ?? []) {
+        overwrites.set(roleId, { ViewChannel: false, SendMessages: false });
+    }
+
+    return overwrites;
+};
+
+/**
+ * Creates the channel for a new ticket
+ * In channel mode a private text channel is created under the category's Discord category,
+ * in thread mode a private thread is created in the category's thread channel
+ * 
+ * @param guild - The guild to create the ticket in
+ * @param category - The ticket category
+ * @param userId - The user opening the ticket
+ * @returns The created ticket channel or thread
+ */
+export const createTicketChannel = async (
+    guild: discord.Guild,
+    category: ITicketCategory,
+    userId: string
+): Promise<ITicketChannel> => {
+    const tempChannelName = `ticket-new`;
+
+    if (category.ticketMode === "thread") {
+        const parent = category.threadChannelId ?
+            await guild.channels.fetch(category.threadChannelId).catch(() => null) :
+            null;
+        if (!(parent instanceof discord.TextChannel)) {
+            throw new Error(`Thread channel for category ${category.name} not found`);
+        }
+
+        const thread = await parent.threads.create({
+            name: tempChannelName,
+            type: discord.ChannelType.PrivateThread,
+            invitable: false,
+            autoArchiveDuration: discord.ThreadAutoArchiveDuration.OneWeek
+        }) as discord.PrivateThreadChannel;
+        await thread.members.add(userId);
+
+        return thread;
+    }
+
+    const ticketChannel = await guild.channels.create({
+        name: tempChannelName,
+        type: discord.ChannelType.GuildText,
+        parent: category.categoryId,
+        permissionOverwrites: [
+            {
+                id: guild.roles.everyone,
+                deny: [discord.PermissionFlagsBits.ViewChannel]
+            },
+            {
+                id: client.user!.id,
+                allow: [
+                    discord.PermissionFlagsBits.ViewChannel,
+                    discord.PermissionFlagsBits.SendMessages,
+                    discord.PermissionFlagsBits.ManageChannels,
+                    discord.PermissionFlagsBits.ReadMessageHistory
+                ]
+            },
+            {
+                id: userId,
+                allow: [
+                    discord.PermissionFlagsBits.ViewChannel,
+                    discord.PermissionFlagsBits.SendMessages,
+                    discord.PermissionFlagsBits.ReadMessageHistory
+                ]
+            }
+        ]
+    });
+
+    for (const [roleId, options] of getCategoryRoleOverwrites(category)) {
+        try {
+            await ticketChannel.permissionOverwrites.create(roleId, options);
+        } catch (error) {
+            client.logger.warn(`[TICKET_CREATE] Could not set permissions for role ${roleId}: ${error}`);
+        }
+    }
+
+    return ticketChannel;
+};
+
+/**
+ * Builds the mention line of a ticket's welcome message
+ * Thread tickets always mention the support role, since mentioning it is what adds
+ * the support team to a private thread. The staff and allowed roles of the category
+ * are mentioned there for the same reason.
+ * 
+ * @param category - The ticket category
+ * @param userId - The ticket creator
+ */
+export const getTicketWelcomeMentions = (category: ITicketCategory, userId: string): string => {
+    const mentionSupport = !!category.supportRoleId &&
+        (category.ticketMode === "thread" || !!category.ticketMessage?.includeSupportTeam);
+
+    const roleIds = mentionSupport ? [category.supportRoleId!] : [];
+    if (category.ticketMode === "thread") {
+        roleIds.push(...[...getCategoryRoleOverwrites(category)]
+            .filter(([roleId, options]) => options.ViewChannel && !roleIds.includes(roleId))
+            .map(([roleId]) => roleId));
+    }
+
+    return [`<@${userId}>`, ...roleIds.map(roleId => `<@&${roleId}>`)].join(" | ");
+};
+
+/**
+ * Checks whether a user can currently see a ticket
+ * Thread tickets check thread membership, channel tickets the channel permissions
+ * 
+ * @param channel - The ticket channel or thread
+ * @param userId - The user to check
+ */
+export const hasTicketAccess = async (channel: ITicketChannel, userId: string): Promise<boolean> => {
+    if (channel.isThread()) {
+        return channel.members.fetch(userId).then(() => true).catch(() => false);
+    }
+    return !!channel.permissionsFor(userId)?.has(discord.PermissionFlagsBits.ViewChannel);
+};
+
+/**
+ * Gives a user access to a ticket, adding them to the thread or the channel permissions
+ * 
+ * @param channel - The ticket channel or thread
+ * @param userId - The user to add
+ */
+export const grantTicketAccess = async (channel: ITicketChannel, userId: string): Promise<void> => {
+    if (channel.isThread()) {
+        await channel.members.add(userId);
+        return;
+    }
+
+    await channel.permissionOverwrites.create(userId, {
+        ViewChannel: true,
+        SendMessages: true,
+        ReadMessageHistory: true
+    });
+};
+
+/**
+ * Removes a user's access to a ticket, removing them from the thread or the channel permissions
+ * 
+ * @param channel - The ticket channel or thread
+ * @param userId - The user to remove
+ */
+export const revokeTicketAccess = async (channel: ITicketChannel, userId: string): Promise<void> => {
+    if (channel.isThread()) {
+        await channel.members.remove(userId);
+        return;
+    }
+
+    await channel.permissionOverwrites.delete(userId);
+};
+
+/**
+ * Stops everyone except staff from writing in a closed ticket
+ * Threads are locked, channels deny sending messages to @everyone
+ * 
+ * @param channel - The ticket channel or thread
+ */
+export const lockTicketChannel = async (channel: ITicketChannel): Promise<void> => {
+    if (channel.isThread()) {
+        await channel.setLocked(true);
+        return;
+    }
+
+    await channel.permissionOverwrites.create(
+        channel.guild.roles.everyone,
+        { SendMessages: false }
+    );
+};
+
+/**
+ * Restores write access to a reopened ticket for its creator and the support team
+ * 
+ * @param channel - The ticket channel or thread
+ * @param ticket - The reopened ticket
+ */
+export const unlockTicketChannel = async (channel: ITicketChannel, ticket: ITicket): Promise<void> => {
+    if (channel.isThread()) {
+        if (channel.archived) await channel.setArchived(false);
+        await channel.setLocked(false);
+        await channel.members.add(ticket.creatorId);
+        return;
+    }
+
+    await channel.permissionOverwrites.edit(
+        channel.guild.roles.everyone,
+        { SendMessages: null }
+    );
+
+    await channel.permissionOverwrites.edit(
+        ticket.creatorId,
+        {
+            ViewChannel: true,
+            SendMessages: true,
+            ReadMessageHistory: true
+        }
+    );
+
+    const claimRestricted = ticket.category.claimOnlyMessaging && !!ticket.claimedById;
+    for (const [roleId, options] of getCategoryRoleOverwrites(ticket.category, claimRestricted)) {
+        await channel.permissionOverwrites.edit(roleId, options);
+    }
+};
+
+/**
+ * Maximum number of tags a single ticket can have
+ */
+export const MAX_TICKET_TAGS = 10;
+
+/**
+ * Normalizes a free-form ticket tag so "Refund Request" and "refund-request" match
+ * 
+ * @param tag - The tag as entered by staff
+ * @returns The lowercase tag with whitespace replaced by dashes
+ */
+export const normalizeTicketTag = (tag: string): string => {
+    return tag.trim().toLowerCase().replace(/\s+/g, "-");
+};
+
+/**
+ * Display settings of the ticket priority levels, ordered from least to most urgent
+ * Normal priority has no channel prefix, so unprioritized tickets keep their plain name
+ */
+export const TICKET_PRIORITIES: Record<ITicketPriority, { label: string; emoji: string; color: discord.ColorResolvable }> = {
+    low: { label: "Low", emoji: "🟢", color: "Green" },
+    normal: { label: "Normal", emoji: "🔵", color: "Blue" },
+    high: { label: "High", emoji: "🟠", color: "Orange" },
+    urgent: { label: "Urgent", emoji: "🔴", color: "Red" }
+};
+
+/**
+ * Builds the channel name of a ticket for a priority, replacing any previous priority prefix
+ * 
+ * @param currentName - The current channel or thread name
+ * @param priority - The new priority
+ */
+export const getPriorityChannelName = (currentName: string, priority: ITicketPriority): string => {
+    let baseName = currentName;
+    for (const { emoji } of Object.values(TICKET_PRIORITIES)) {
+        if (baseName.startsWith(emoji)) baseName = baseName.slice(emoji.length);
+    }
+
+    return priority === "normal" ? baseName : `${TICKET_PRIORITIES[priority].emoji}${baseName}`;
+};
+
+/**
+ * Builds the claim, close and user history buttons shown on the ticket control message
+ * @param claimed - Whether the ticket is claimed, replacing the claim button with unclaim and transfer buttons
+ */
+export const createTicketActionRow = (claimed: boolean = false): discord.ActionRowBuilder<discord.ButtonBuilder> => {
+    const claimButtons = claimed ?
+        [
+            new discord.ButtonBuilder()
+                .setCustomId("ticket_unclaim")
+                .setLabel("Unclaim Ticket")
+                .setStyle(discord.ButtonStyle.Secondary)
+                .setEmoji("🔄"),
+            new discord.ButtonBuilder()
+                .setCustomId("ticket_transfer_claim")
+                .setLabel("Transfer Claim")
+                .setStyle(discord.ButtonStyle.Secondary)
+                .setEmoji("🔀")
+        ] :
+        [
+            new discord.ButtonBuilder()
+                .setCustomId("ticket_claim")
+                .setLabel("Claim Ticket")
+                .setStyle(discord.ButtonStyle.Primary)
+                .setEmoji("👋")
+        ];
+
+    return new discord.ActionRowBuilder<discord.ButtonBuilder>()
+        .addComponents(
+            ...claimButtons,
+            new discord.ButtonBuilder()
+                .setCustomId("ticket_close")
+                .setLabel("Close Ticket")
+                .setStyle(discord.ButtonStyle.Danger)
+                .setEmoji("🔒"),
+            new discord.ButtonBuilder()
+                .setCustomId("ticket_user_history")
+                .setLabel("User History")
+                .setStyle(discord.ButtonStyle.Secondary)
+                .setEmoji("📚")
+        );
+};
+
+/**
+ * Builds the priority select menu shown on the ticket control message
+ */
+export const createTicketPriorityRow = (): discord.ActionRowBuilder<discord.StringSelectMenuBuilder> => {
+    return new discord.ActionRowBuilder<discord.StringSelectMenuBuilder>()
+        .addComponents(
+            new discord.StringSelectMenuBuilder()
+                .setCustomId("ticket_priority_select")
+                .setPlaceholder("Set ticket priority (staff only)")
+                .addOptions(
+                    (Object.entries(TICKET_PRIORITIES) as [ITicketPriority, typeof TICKET_PRIORITIES[ITicketPriority]][])
+                        .map(([value, { label, emoji }]) => ({ label, value, emoji }))
+                )
+        );
+};
+
+/**
+ * Changes the priority of a ticket, announcing it in the ticket and prefixing the channel name
+ * The rename is not awaited, since Discord only allows two renames per channel every ten minutes
+ * 
+ * @param ticket - The ticket to update
+ * @param channel - The ticket channel or thread
+ * @param priority - The new priority
+ * @param changedBy - The staff member changing the priority
+ * @returns The updated ticket, or null if the update failed
+ */
+export const setTicketPriority = async (
+    ticket: ITicket,
+    channel: ITicketChannel,
+    priority: ITicketPriority,
+    changedBy: discord.User
+): Promise<ITicket | null> => {
+    const ticketRepo = new TicketRepository((client as any).dataSource);
+    const updatedTicket = await ticketRepo.updateTicketPriority(ticket.id, priority);
+    if (!updatedTicket) return null;
+
+    const { label, emoji, color } = TICKET_PRIORITIES[priority];
+    await channel.send({
+        embeds: [
+            new discord.EmbedBuilder()
+                .setTitle("Priority Updated")
+                .setDescription(`The priority of this ticket has been set to ${emoji} **${label}** by ${changedBy}.`)
+                .setColor(color)
+                .setFooter({ text: `Ticket #${ticket.ticketNumber}` })
+                .setTimestamp()
+        ]
+    });
+
+    const channelName = getPriorityChannelName(channel.name, priority);
+    if (channelName !== channel.name) {
+        channel.setName(channelName).catch(error => {
+            client.logger.warn(`[TICKET_PRIORITY] Could not rename ticket #${ticket.ticketNumber}: ${error}`);
+        });
+    }
+
+    client.logger.info(`[TICKET_PRIORITY] ${changedBy.tag} set ticket #${ticket.ticketNumber} to ${priority} priority`);
+    return updatedTicket;
+};
+
+/**
+ * Updates the buttons of a ticket's control message after its claim changed
+ * The control message is looked up among the first messages of the ticket when it isn't given
+ * 
+ * @param channel - The ticket channel or thread
+ * @param claimed - Whether the ticket is now claimed
+ * @param message - The control message, if already known
+ */
+export const updateTicketControls = async (
+    channel: ITicketChannel,
+    claimed: boolean,
+    message?: discord.Message | null
+): Promise<void> => {
+    const controlIds = ["ticket_claim", "ticket_unclaim", "ticket_close"];
+
+    try {
+        if (!message) {
+            const messages = await channel.messages.fetch({ after: channel.id, limit: 10 });
+            message = messages.find(msg =>
+                msg.author.id === client.user?.id &&
+                msg.components.some(row =>
+                    "components" in row && row.components.some(component =>
+                        component.type === discord.ComponentType.Button && controlIds.includes(component.customId ?? "")
+                    )
+                )
+            );
+        }
+        if (!message) return;
+
+        await message.edit({ components: [createTicketActionRow(claimed), createTicketPriorityRow()] });
+    } catch (error) {
+        client.logger.warn(`[TICKET_CLAIM] Could not update the ticket control message: ${error}`);
+    }
+};
+
+/**
+ * Applies the claim-only messaging of a category to a ticket channel
+ * While claimed only the claimer and the creator can write, the category roles keep read access.
+ * Unclaiming restores the category roles. Threads have no permission overwrites and are left as is.
+ * 
+ * @param channel - The ticket channel or thread
+ * @param ticket - The ticket
+ * @param claimerId - The new claimer, or null when the ticket was unclaimed
+ * @param previousClaimerId - The previous claimer, whose access is removed
+ */
+export const applyClaimPermissions = async (
+    channel: ITicketChannel,
+    ticket: ITicket,
+    claimerId: string | null,
+    previousClaimerId?: string | null
+): Promise<void> => {
+    if (!ticket.category.claimOnlyMessaging || channel.isThread()) return;
+
+    try {
+        for (const [roleId, options] of getCategoryRoleOverwrites(ticket.category, !!claimerId)) {
+            await channel.permissionOverwrites.edit(roleId, options);
+        }
+
+        if (previousClaimerId && previousClaimerId !== claimerId && previousClaimerId !== ticket.creatorId) {
+            await channel.permissionOverwrites.delete(previousClaimerId);
+        }
+
+        if (claimerId) {
+            await channel.permissionOverwrites.edit(claimerId, {
+                ViewChannel: true,
+                SendMessages: true,
+                ReadMessageHistory: true
+            });
+        }
+    } catch (error) {
+        client.logger.warn(`[TICKET_CLAIM] Could not apply claim permissions to ticket #${ticket.ticketNumber}: ${error}`);
+    }
+};
+
+/**
+ * Releases the claim of a ticket, announcing it and making the ticket claimable again
+ * 
+ * @param ticket - The claimed ticket
+ * @param channel - The ticket channel or thread
+ * @param releasedBy - The user releasing the claim
+ * @param controlMessage - The control message, if already known
+ * @returns The updated ticket, or null if the update failed
+ */
+export const releaseTicketClaim = async (
+    ticket: ITicket,
+    channel: ITicketChannel,
+    releasedBy: discord.User,
+    controlMessage?: discord.Message | null
+): Promise<ITicket | null> => {
+    const ticketRepo = new TicketRepository((client as any).dataSource);
+    const previousClaimerId = ticket.claimedById;
+    const updatedTicket = await ticketRepo.unclaimTicket(ticket.id);
+    if (!updatedTicket) return null;
+
+    await applyClaimPermissions(channel, ticket, null, previousClaimerId);
+
+    await channel.send({
+        embeds: [
+            new discord.EmbedBuilder()
+                .setTitle("Ticket Unclaimed")
+                .setDescription(previousClaimerId === releasedBy.id ?
+                    `This ticket is no longer being handled by ${releasedBy}.` :
+                    `${releasedBy} released the claim of <@${previousClaimerId}> on this ticket.`)
+                .setColor("Orange")
+                .setFooter({ text: `Ticket #${ticket.ticketNumber}` })
+                .setTimestamp()
+        ]
+    });
+
+    await updateTicketControls(channel, false, controlMessage);
+
+    client.logger.info(`[TICKET_CLAIM] ${releasedBy.tag} unclaimed ticket #${ticket.ticketNumber}`);
+    return updatedTicket;
+};
+
+/**
+ * Hands the claim of a ticket to another staff member, announcing it in the ticket
+ * 
+ * @param ticket - The claimed ticket
+ * @param channel - The ticket channel or thread
+ * @param newClaimerId - The staff member taking over the ticket
+ * @param transferredBy - The user transferring the claim
+ * @param controlMessage - The control message, if already known
+ * @returns The updated ticket, or null if the update failed
+ */
+export const reassignTicketClaim = async (
+    ticket: ITicket,
+    channel: ITicketChannel,
+    newClaimerId: string,
+    transferredBy: discord.User,
+    controlMessage?: discord.Message | null
+): Promise<ITicket | null> => {
+    const ticketRepo = new TicketRepository((client as any).dataSource);
+    const previousClaimerId = ticket.claimedById;
+    const updatedTicket = await ticketRepo.transferTicketClaim(ticket.id, newClaimerId);
+    if (!updatedTicket) return null;
+
+    if (channel.isThread()) {
+        await channel.members.add(newClaimerId).catch(() => { });
+    }
+    await applyClaimPermissions(channel, ticket, newClaimerId, previousClaimerId);
+
+    await channel.send({
+        content: `<@${newClaimerId}>`,
+        embeds: [
+            new discord.EmbedBuilder()
+                .setTitle("Claim Transferred")
+                .setDescription(`This ticket is now being handled by <@${newClaimerId}>.`)
+                .addFields(
+                    { name: "Previous Claimer", value: previousClaimerId ? `<@${previousClaimerId}>` : "None", inline: true },
+                    { name: "Transferred By", value: `${transferredBy}`, inline: true }
+                )
+                .setColor("Blue")
+                .setFooter({ text: `Ticket #${ticket.ticketNumber}` })
+                .setTimestamp()
+        ],
+        allowedMentions: { users: [newClaimerId] }
+    });
+
+    await updateTicketControls(channel, true, controlMessage);
+
+    client.logger.info(`[TICKET_CLAIM] ${transferredBy.tag} transferred the claim of ticket #${ticket.ticketNumber} to ${newClaimerId}`);
+    return updatedTicket;
+};
 
 /**
  * Creates a new ticket for a user
  * 
  * @param interaction - The interaction that triggered the ticket creation
  * @param categoryId - The ID of the ticket category
+ * @param formAnswers - Answers to the category's pre-ticket questions, posted as the first embed
  * @returns A promise that resolves when the ticket is created
  */
 export const createTicket = async (
-    interaction: discord.ButtonInteraction | discord.StringSelectMenuInteraction,
-    categoryId: string
+    interaction: discord.ButtonInteraction | discord.StringSelectMenuInteraction | discord.ModalSubmitInteraction,
+    categoryId: string,
+    formAnswers: ITicketFormAnswer[] = []
 ): Promise<void> => {
     try {
         const dataSource = (client as any).dataSource;
@@ -26,35 +717,18 @@ export const createTicket = async (
             throw new Error("Category not found");
         }
 
-        const guildTickets = await ticketRepo.getGuildTickets(interaction.guildId!);
-        const userOpenTickets = guildTickets.filter(ticket =>
-            ticket.creatorId === interaction.user.id &&
-            ticket.status === ITicketStatus.OPEN
-        );
-
-        if (userOpenTickets.length > 0) {
-            const existingTicket = userOpenTickets[0];
-            const ticketChannel = client.channels.cache.get(existingTicket.channelId) as discord.TextChannel;
-
-            if (ticketChannel) {
-                await interaction.reply({
-                    embeds: [
-                        new discord.EmbedBuilder()
-                            .setTitle("Existing Ticket Found")
-                            .setDescription(`You already have an open ticket: ${ticketChannel}\n\nPlease use your existing ticket or close it before creating a new one.`)
-                            .setColor("Red")
-                    ],
-                    flags: discord.MessageFlags.Ephemeral
-                });
-                return;
-            } else {
-                await ticketRepo.updateTicketStatus(
-                    existingTicket.id,
-                    ITicketStatus.CLOSED,
-                    "system",
-                    "Ticket channel was deleted"
-                );
-            }
+        const limitCheck = await checkTicketCreationLimits(interaction.guildId!, interaction.user.id, category);
+        if (!limitCheck.allowed) {
+            await interaction.reply({
+                embeds: [
+                    new discord.EmbedBuilder()
+                        .setTitle(limitCheck.existingTicket ? "Existing Ticket Found" : "Ticket Cooldown")
+                        .setDescription(limitCheck.message!)
+                        .setColor("Red")
+                ],
+                flags: discord.MessageFlags.Ephemeral
+            });
+            return;
         }
 
         await interaction.reply({
@@ -67,38 +741,8 @@ export const createTicket = async (
             flags: discord.MessageFlags.Ephemeral
         });
 
-        const tempChannelName = `ticket-new`;
-        const guild = interaction.guild!;
-
         try {
-            const ticketChannel = await guild.channels.create({
-                name: tempChannelName,
-                type: discord.ChannelType.GuildText,
-                parent: category.categoryId,
-                permissionOverwrites: [
-                    {
-                        id: guild.roles.everyone,
-                        deny: [discord.PermissionFlagsBits.ViewChannel]
-                    },
-                    {
-                        id: client.user!.id,
-                        allow: [
-                            discord.PermissionFlagsBits.ViewChannel,
-                            discord.PermissionFlagsBits.SendMessages,
-                            discord.PermissionFlagsBits.ManageChannels,
-                            discord.PermissionFlagsBits.ReadMessageHistory
-                        ]
-                    },
-                    {
-                        id: interaction.user.id,
-                        allow: [
-                            discord.PermissionFlagsBits.ViewChannel,
-                            discord.PermissionFlagsBits.SendMessages,
-                            discord.PermissionFlagsBits.ReadMessageHistory
-                        ]
-                    }
-                ]
-            });
+            const ticketChannel = await createTicketChannel(interaction.guild!, category, interaction.user.id);
 
             const ticket = await ticketRepo.createTicket(
                 interaction.guildId!,
@@ -110,21 +754,6 @@ export const createTicket = async (
             const channelName = `ticket-${ticket.ticketNumber.toString().padStart(4, '0')}`;
             await ticketChannel.setName(channelName);
 
-            if (category.supportRoleId) {
-                try {
-                    await ticketChannel.permissionOverwrites.create(
-                        category.supportRoleId,
-                        {
-                            ViewChannel: true,
-                            SendMessages: true,
-                            ReadMessageHistory: true
-                        }
-                    );
-                } catch (error) {
-                    client.logger.warn(`[TICKET_CREATE] Could not set permissions for support role ${category.supportRoleId}: ${error}`);
-                }
-            }
-
             const ticketMessage = category.ticketMessage;
             const welcomeMessage = ticketMessage?.welcomeMessage ||
                 `Welcome to your ticket in the **${category.name}** category!\n\nPlease describe your issue and wait for a staff member to assist you.`;
@@ -144,26 +773,22 @@ export const createTicket = async (
                 .setFooter({ text: `Use /ticket close to close this ticket | ID: ${ticket.id}` })
                 .setTimestamp();
 
-            const actionRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
-                .addComponents(
-                    new discord.ButtonBuilder()
-                        .setCustomId("ticket_claim")
-                        .setLabel("Claim Ticket")
-                        .setStyle(discord.ButtonStyle.Primary)
-                        .setEmoji("👋"),
-                    new discord.ButtonBuilder()
-                        .setCustomId("ticket_close")
-                        .setLabel("Close Ticket")
-                        .setStyle(discord.ButtonStyle.Danger)
-                        .setEmoji("🔒")
-                );
+            const actionRow = createTicketActionRow();
+
+            const embeds = [welcomeEmbed];
+            if (formAnswers.length > 0) {
+                const formEmbed = new discord.EmbedBuilder()
+                    .setTitle("📝 Ticket Details")
+                    .setAuthor({ name: interaction.user.tag, iconURL: interaction.user.displayAvatarURL() })
+                    .addFields(formAnswers.map(entry => ({ name: entry.question, value: entry.answer })))
+                    .setColor("Blue");
+                embeds.unshift(formEmbed);
+            }
 
             await ticketChannel.send({
-                content: ticketMessage?.includeSupportTeam && category.supportRoleId ?
-                    `<@${interaction.user.id}> | <@&${category.supportRoleId}>` :
-                    `<@${interaction.user.id}>`,
-                embeds: [welcomeEmbed],
-                components: [actionRow]
+                content: getTicketWelcomeMentions(category, interaction.user.id),
+                embeds,
+                components: [actionRow, createTicketPriorityRow()]
             });
 
             await interaction.editReply({
@@ -210,4 +835,117 @@ export const createTicket = async (
             });
         }
     }
+};
+
+/**
+ * Closes a ticket: updates its status, posts the close message, locks the channel
+ * and sends the transcript
+ * 
+ * @param ticket - The ticket to close
+ * @param channel - The ticket channel
+ * @param closedBy - The user closing the ticket
+ * @param reason - The reason for closing the ticket
+ * @param sendConfirmation - Sends the confirmation with the reopen/archive/delete buttons, posted in the channel by default
+ * @returns A promise that resolves when the ticket is closed
+ */
+export const closeTicketChannel = async (
+    ticket: ITicket,
+    channel: ITicketChannel,
+    closedBy: discord.User,
+    reason: string,
+    sendConfirmation?: (options: { embeds: discord.EmbedBuilder[]; components: discord.ActionRowBuilder<discord.ButtonBuilder>[] }) => Promise<unknown>
+): Promise<void> => {
+    const ticketRepo = new TicketRepository((client as any).dataSource);
+
+    await ticketRepo.updateTicketStatus(
+        ticket.id,
+        ITicketStatus.CLOSED,
+        closedBy.id,
+        reason
+    );
+
+    const ticketMessage = await ticketRepo.getTicketMessage(ticket.category.id);
+    const category = ticket.category;
+    const closeEmbed = new discord.EmbedBuilder()
+        .setTitle(`Ticket #${ticket.ticketNumber} Closed`)
+        .setDescription(ticketMessage?.closeMessage || "This ticket has been closed.")
+        .addFields(
+            { name: "Ticket ID", value: `#${ticket.ticketNumber}`, inline: true },
+            { name: "Category", value: `${category.emoji || "🎫"} ${category.name}`, inline: true },
+            { name: "Status", value: `🔴 Closed`, inline: true },
+            { name: "Closed By", value: `<@${closedBy.id}>`, inline: true },
+            { name: "Closed At", value: `<t:${Math.floor(Date.now() / 1000)}:F>`, inline: true },
+            { name: "Reason", value: reason, inline: false }
+        )
+        .setColor("Red")
+        .setFooter({ text: `Use /ticket reopen to reopen this ticket | ID: ${ticket.id}` })
+        .setTimestamp();
+
+    await channel.send({ embeds: [closeEmbed] }).catch(sendError => {
+        client.logger.error(`[TICKET_CLOSE] Error sending close message: ${sendError}`);
+    });
+
+    try {
+        await lockTicketChannel(channel);
+
+        const actionRow = new discord.ActionRowBuilder<discord.ButtonBuilder>()
+            .addComponents(
+                new discord.ButtonBuilder()
+                    .setCustomId("ticket_reopen")
+                    .setLabel("Reopen")
+                    .setStyle(discord.ButtonStyle.Success),
+                new discord.ButtonBuilder()
+                    .setCustomId("ticket_archive")
+                    .setLabel("Archive")
+                    .setStyle(discord.ButtonStyle.Secondary),
+                new discord.ButtonBuilder()
+                    .setCustomId("ticket_delete")
+                    .setLabel("Delete")
+                    .setStyle(discord.ButtonStyle.Danger)
+            );
+
+        const confirmation = {
+            embeds: [new EmbedTemplate(client).success("Ticket closed successfully.")],
+            components: [actionRow]
+        };
+        const sendToChannel = () => channel.send(confirmation).catch(channelError => {
+            client.logger.error(`[TICKET_CLOSE] Could not send confirmation to channel: ${channelError}`);
+        });
+
+        if (sendConfirmation) {
+            try {
+                await sendConfirmation(confirmation);
+            } catch (replyError) {
+                client.logger.warn(`[TICKET_CLOSE] Could not send confirmation: ${replyError}`);
+                await sendToChannel();
+            }
+        } else {
+            await sendToChannel();
+        }
+
+        try {
+            await createAndSendTranscript(
+                channel,
+                closedBy,
+                reason,
+                ticket.id,
+                ticketRepo.dataSource
+            );
+        } catch (transcriptError) {
+            client.logger.error(`[TICKET_CLOSE] Error creating transcript: ${transcriptError}`);
+        }
+    } catch (error) {
+        client.logger.error(`[TICKET_CLOSE] Error updating permissions: ${error}`);
+
+        try {
+            await channel.send({
+                embeds: [
+                    new EmbedTemplate(client).warning("Ticket marked as closed, but could not update channel permissions.")
+                        .setDescription("Make sure the bot has the necessary permissions to modify channel permissions.")
+                ]
+            });
+        } catch (sendError) {
+            client.logger.error(`[TICKET_CLOSE] Failed to send permission error to channel: ${sendError}`);
+        }
+    }
 };
\ No newline at end of file
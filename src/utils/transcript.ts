@@ -1,18 +1,20 @@
-import { TextChannel, EmbedBuilder, AttachmentBuilder, MessageCreateOptions, User, ChannelType } from 'discord.js';
+import { TextChannel, EmbedBuilder, AttachmentBuilder, MessageCreateOptions, User, ChannelType, ActionRowBuilder, ButtonBuilder, ButtonStyle } from 'discord.js';
 import { createTranscript, ExportReturnType } from 'discord-html-transcripts';
 import client from '../salt';
 import { TicketRepository } from '../events/database/repo/ticket_system';
+import { getTranscriptStorage } from './transcript_storage';
+import { ITicket, ITicketChannel, ITicketNote } from '../types';
 
 /**
  * Creates and sends a transcript of a ticket channel
- * @param channel The channel to create a transcript of
+ * @param channel The channel or thread to create a transcript of
  * @param user The user who closed the ticket
  * @param reason The reason for closing the ticket
  * @param ticketId The database ID of the ticket
  * @param dataSource The database connection
  */
 export const createAndSendTranscript = async (
-    channel: TextChannel,
+    channel: ITicketChannel,
     user: User,
     reason: string,
     ticketId: string,
@@ -36,6 +38,41 @@ export const createAndSendTranscript = async (
             claimer = await client.users.fetch(ticket.claimedById).catch(() => null);
         }
 
+        client.logger.info(`[TRANSCRIPT] Creating transcript for ticket #${ticket.ticketNumber}`);
+
+        const attachment = await createTranscript(channel, {
+            limit: 10000,
+            saveImages: true,
+            poweredBy: false,
+            filename: `ticket-${ticket.ticketNumber}.html`,
+        }) as AttachmentBuffer;
+
+        await archiveTranscript(ticketRepo, ticket, attachment.attachment);
+
+        await sendTranscriptToLogChannel(ticketRepo, channel, ticket, creator, claimer, user, reason, attachment);
+        await sendClosedTicketDm(channel, ticket, creator, reason, attachment);
+
+        client.logger.info(`[TRANSCRIPT] Transcript for ticket #${ticket.ticketNumber} created and sent successfully`);
+    } catch (error) {
+        client.logger.error(`[TRANSCRIPT] Error creating transcript: ${error}`);
+    }
+};
+
+/**
+ * Posts a transcript with the ticket details and staff notes to the guild's ticket log channel
+ * Guilds without a log channel are skipped
+ */
+const sendTranscriptToLogChannel = async (
+    ticketRepo: TicketRepository,
+    channel: ITicketChannel,
+    ticket: ITicket,
+    creator: User,
+    claimer: User | null,
+    user: User,
+    reason: string,
+    attachment: AttachmentBuffer
+): Promise<void> => {
+    try {
         const guildConfig = await ticketRepo.getGuildConfig(channel.guildId);
         if (!guildConfig) {
             return client.logger.error(`[TRANSCRIPT] Could not find guild config for ${channel.guildId}`);
@@ -53,15 +90,6 @@ export const createAndSendTranscript = async (
             return;
         }
 
-        client.logger.info(`[TRANSCRIPT] Creating transcript for ticket #${ticket.ticketNumber}`);
-
-        const attachment = await createTranscript(channel, {
-            limit: 10000,
-            saveImages: true,
-            poweredBy: false,
-            filename: `ticket-${ticket.ticketNumber}.html`,
-        }) as AttachmentBuffer;
-
         const embed = new EmbedBuilder()
             .setTitle(`Ticket #${ticket.ticketNumber} | Transcript`)
             .setDescription(`
@@ -78,31 +106,156 @@ export const createAndSendTranscript = async (
             .setFooter({ text: 'Salt Bot Ticket System', iconURL: client.user?.displayAvatarURL() })
             .setTimestamp();
 
-        await (transcriptChannel as TextChannel).send({
-            embeds: [embed],
-            files: [attachment],
+        const notes = await ticketRepo.getTicketNotes(ticket.id);
+        const staffNotes = notes.length > 0 ? createStaffNotesSection(ticket.ticketNumber, notes) : null;
+
+        const logMessage = await (transcriptChannel as TextChannel).send({
+            embeds: staffNotes ? [embed, staffNotes.embed] : [embed],
+            files: staffNotes ? [attachment, staffNotes.file] : [attachment],
         });
+        await ticketRepo.recordTranscriptMessage(ticket.id, logMessage.channelId, logMessage.id);
+    } catch (error) {
+        client.logger.error(`[TRANSCRIPT] Error sending transcript to the log channel: ${error}`);
+    }
+};
 
-        try {
-            const userEmbed = new EmbedBuilder()
-                .setTitle(`Ticket #${ticket.ticketNumber} Closed`)
-                .setDescription(`Your ticket in **${channel.guild.name}** has been closed.\n\n**Reason:** ${reason || 'No reason provided'}`)
-                .setColor('#2F3136')
-                .setFooter({ text: 'A transcript has been attached to this message', iconURL: client.user?.displayAvatarURL() })
-                .setTimestamp();
-
-            await creator.send({
-                embeds: [userEmbed],
-                files: [attachment],
-            }).catch(() => client.logger.warn(`[TRANSCRIPT] Could not DM transcript to user ${creator.tag}`));
-        } catch (error) {
-            client.logger.error(`[TRANSCRIPT] Error sending DM to user: ${error}`);
-        }
+/**
+ * DMs the ticket creator that their ticket was closed, with the transcript and the feedback prompt
+ * Sent whether or not the guild has a log channel
+ */
+const sendClosedTicketDm = async (
+    channel: ITicketChannel,
+    ticket: ITicket,
+    creator: User,
+    reason: string,
+    attachment: AttachmentBuffer
+): Promise<void> => {
+    try {
+        const userEmbed = new EmbedBuilder()
+            .setTitle(`Ticket #${ticket.ticketNumber} Closed`)
+            .setDescription(`Your ticket in **${channel.guild.name}** has been closed.\n\n**Reason:** ${reason || 'No reason provided'}`)
+            .setColor('#2F3136')
+            .setFooter({ text: 'A transcript has been attached to this message', iconURL: client.user?.displayAvatarURL() })
+            .setTimestamp();
 
-        client.logger.info(`[TRANSCRIPT] Transcript for ticket #${ticket.ticketNumber} created and sent successfully`);
+        const feedbackEmbed = new EmbedBuilder()
+            .setTitle('How did we do?')
+            .setDescription(`Please rate the support you received in ticket #${ticket.ticketNumber}. You can add a comment after rating.`)
+            .setColor('#2F3136');
+
+        await creator.send({
+            embeds: [userEmbed, feedbackEmbed],
+            files: [attachment],
+            components: [createFeedbackRow(ticket.id)],
+        }).catch(() => client.logger.warn(`[TRANSCRIPT] Could not DM transcript to user ${creator.tag}`));
     } catch (error) {
-        client.logger.error(`[TRANSCRIPT] Error creating transcript: ${error}`);
+        client.logger.error(`[TRANSCRIPT] Error sending DM to user: ${error}`);
+    }
+};
+
+/**
+ * Stores a transcript in the transcript archive and records its location on the ticket
+ * Failures are logged, so a broken archive never blocks closing a ticket
+ * @param ticketRepo The ticket repository
+ * @param ticket The ticket the transcript belongs to
+ * @param html The rendered HTML transcript
+ */
+const archiveTranscript = async (ticketRepo: TicketRepository, ticket: ITicket, html: Buffer): Promise<void> => {
+    try {
+        const location = await getTranscriptStorage().save(ticket.id, html);
+        await ticketRepo.recordTranscriptPath(ticket.id, location);
+    } catch (error) {
+        client.logger.error(`[TRANSCRIPT] Could not archive transcript for ticket #${ticket.ticketNumber}: ${error}`);
+    }
+};
+
+/**
+ * Fetches the stored transcript of a ticket, from the transcript archive or its log channel message
+ * Falls back to generating a transcript when no transcript was stored but the ticket channel still exists
+ * @param ticket The ticket to fetch the transcript of
+ * @returns The transcript file, or null if none is available
+ */
+export const getStoredTranscript = async (ticket: ITicket): Promise<AttachmentBuilder | null> => {
+    if (ticket.transcriptPath) {
+        const archived = await getTranscriptStorage().load(ticket.transcriptPath);
+        if (archived) {
+            return new AttachmentBuilder(archived, { name: `ticket-${ticket.ticketNumber}.html` });
+        }
+    }
+
+    if (ticket.transcriptChannelId && ticket.transcriptMessageId) {
+        const logChannel = await client.channels.fetch(ticket.transcriptChannelId).catch(() => null);
+        if (logChannel?.isTextBased()) {
+            const logMessage = await logChannel.messages.fetch(ticket.transcriptMessageId).catch(() => null);
+            const stored = logMessage?.attachments.find(file => file.name.endsWith('.html'));
+            if (stored) {
+                return new AttachmentBuilder(stored.url, { name: stored.name });
+            }
+        }
+    }
+
+    const channel = await client.channels.fetch(ticket.channelId).catch(() => null);
+    if (channel?.type === ChannelType.GuildText || channel?.type === ChannelType.PrivateThread) {
+        return await createTranscript(channel, {
+            limit: 10000,
+            saveImages: true,
+            poweredBy: false,
+            filename: `ticket-${ticket.ticketNumber}.html`,
+        }) as AttachmentBuffer;
+    }
+
+    return null;
+};
+
+/**
+ * Creates the staff-only notes section of the log channel transcript
+ * Only sent to the log channel, never to the ticket creator
+ * @param ticketNumber The ticket number
+ * @param notes The internal notes of the ticket, oldest first
+ */
+const createStaffNotesSection = (ticketNumber: number, notes: ITicketNote[]): { embed: EmbedBuilder; file: AttachmentBuilder } => {
+    const lines = notes.map(note =>
+        `**<t:${Math.floor(new Date(note.createdAt).getTime() / 1000)}:f>** <@${note.authorId}>\n${note.content}`
+    );
+
+    let description = '';
+    for (const line of lines) {
+        if (description.length + line.length + 2 > 3500) {
+            description += '\n\n*More notes in the attached file.*';
+            break;
+        }
+        description += (description ? '\n\n' : '') + line;
+    }
+
+    const text = notes.map(note =>
+        `[${new Date(note.createdAt).toISOString()}] ${note.authorId}\n${note.content}`
+    ).join('\n\n');
+
+    return {
+        embed: new EmbedBuilder()
+            .setTitle(`Ticket #${ticketNumber} | Staff Notes`)
+            .setDescription(description)
+            .setColor('#2F3136')
+            .setFooter({ text: `${notes.length} internal note${notes.length === 1 ? '' : 's'} • Staff only` }),
+        file: new AttachmentBuilder(Buffer.from(text, 'utf-8'), { name: `ticket-${ticketNumber}-staff-notes.txt` })
+    };
+};
+
+/**
+ * Creates the 1-5 star rating buttons sent to the ticket creator
+ * @param ticketId The database ID of the ticket
+ */
+export const createFeedbackRow = (ticketId: string): ActionRowBuilder<ButtonBuilder> => {
+    const row = new ActionRowBuilder<ButtonBuilder>();
+    for (let rating = 1; rating <= 5; rating++) {
+        row.addComponents(
+            new ButtonBuilder()
+                .setCustomId(`ticket_feedback_rate:${ticketId}:${rating}`)
+                .setLabel('⭐'.repeat(rating))
+                .setStyle(ButtonStyle.Secondary)
+        );
     }
+    return row;
 };
 
 interface AttachmentBuffer extends AttachmentBuilder {
@@ -0,0 +1,74 @@
+import path from "path";
+import fs from "fs/promises";
+import client from "../salt";
+import { ITranscriptStorage } from "../types";
+
+/**
+ * Stores transcripts as HTML files in a local directory, named after the ticket ID
+ * The directory should be a mounted volume, otherwise the archive is lost when the container is recreated
+ */
+export class LocalTranscriptStorage implements ITranscriptStorage {
+    private readonly directory: string;
+
+    constructor(directory: string) {
+        this.directory = path.resolve(directory);
+    }
+
+    /**
+     * Write a transcript to the storage directory, replacing an earlier transcript of the ticket
+     * @returns The file name of the transcript within the storage directory
+     */
+    public save = async (ticketId: string, html: Buffer): Promise<string> => {
+        await fs.mkdir(this.directory, { recursive: true });
+
+        const key = `${ticketId}.html`;
+        await fs.writeFile(path.join(this.directory, key), html);
+        return key;
+    };
+
+    /**
+     * Read a stored transcript
+     * Only the file name of the location is used, so older records holding a full path still resolve
+     * @returns The transcript, or null if the file no longer exists
+     */
+    public load = async (location: string): Promise<Buffer | null> => {
+        return fs.readFile(path.join(this.directory, path.basename(location))).catch(() => null);
+    };
+}
+
+const storageFactories = new Map<string, (options: { path: string }) => ITranscriptStorage>([
+    ["local", options => new LocalTranscriptStorage(options.path)]
+]);
+
+let storage: ITranscriptStorage | null = null;
+
+/**
+ * Register a transcript storage backend that can be selected with `ticket.transcript.storage` in the config
+ * @param name - Name of the backend in the config
+ * @param factory - Creates the backend from the transcript config
+ */
+export const registerTranscriptStorage = (
+    name: string,
+    factory: (options: { path: string }) => ITranscriptStorage
+): void => {
+    storageFactories.set(name, factory);
+    storage = null;
+};
+
+/**
+ * Get the configured transcript storage backend, falling back to local storage
+ */
+export const getTranscriptStorage = (): ITranscriptStorage => {
+    if (storage) return storage;
+
+    const transcriptConfig = client.config.ticket.transcript;
+    const options = { path: transcriptConfig?.path || "transcripts" };
+    const factory = storageFactories.get(transcriptConfig?.storage || "local");
+
+    if (!factory) {
+        client.logger.warn(`[TRANSCRIPT_STORAGE] Unknown transcript storage "${transcriptConfig.storage}", using local storage`);
+    }
+
+    storage = (factory ?? storageFactories.get("local")!)(options);
+    return storage;
+};